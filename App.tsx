@@ -1,36 +1,80 @@
 import React, { useState, useCallback } from 'react';
-import { analyzeVideo, RecipeData } from './services/geminiService';
+import { AnalysisProgress, analyzeUpload, analyzeVideo, RecipeData } from './services/geminiService';
 import { RecipeIcon } from './components/icons';
 import Loader from './components/Loader';
 import RecipeDisplay from './components/RecipeDisplay';
+import RecipeLibrary from './components/RecipeLibrary';
+import BatchAnalyzer from './components/BatchAnalyzer';
+import RecipePreview from './components/RecipePreview';
+import UploadDropZone from './components/UploadDropZone';
+import ShoppingListBuilder from './components/ShoppingListBuilder';
+import ShoppingListView from './components/ShoppingListView';
+import { SavedRecipe } from './services/libraryService';
+import { ShoppingList } from './services/shoppingListService';
+
+type View = 'analyze' | 'batch' | 'library' | 'shopping';
+
+const VIEW_LABELS: Record<View, string> = {
+  analyze: 'Find Recipe',
+  batch: 'Bulk Import',
+  library: 'My Library',
+  shopping: 'Shopping List',
+};
 
 function App() {
   const [videoUrl, setVideoUrl] = useState<string>('');
   const [recipe, setRecipe] = useState<RecipeData | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [partialRecipe, setPartialRecipe] = useState<AnalysisProgress['partial'] | null>(null);
+  const [view, setView] = useState<View>('analyze');
+  const [libraryRecipe, setLibraryRecipe] = useState<SavedRecipe | null>(null);
+  const [libraryVersion, setLibraryVersion] = useState<number>(0);
+  const [batchRecipe, setBatchRecipe] = useState<RecipeData | null>(null);
+  const [shoppingList, setShoppingList] = useState<ShoppingList | null>(null);
 
-  const handleAnalyzeClick = useCallback(async () => {
-    if (!videoUrl) {
-      setError('Please provide a video URL.');
-      return;
-    }
+  const handleSaved = useCallback((saved: SavedRecipe) => {
+    setLibraryVersion(version => version + 1);
+    setLibraryRecipe(saved);
+  }, []);
 
+  // Shows progress and the result or error of one analysis, from a URL or an upload.
+  const runAnalysis = useCallback(async (analyze: () => Promise<RecipeData>, initialProgress: AnalysisProgress | null) => {
     setIsLoading(true);
     setError(null);
     setRecipe(null);
+    setProgress(initialProgress);
+    setPartialRecipe(null);
 
     try {
-      const data = await analyzeVideo(videoUrl);
-      setRecipe(data);
+      setRecipe(await analyze());
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
       setError(`Failed to get recipe: ${errorMessage}`);
       console.error(err);
     } finally {
       setIsLoading(false);
+      setProgress(null);
+      setPartialRecipe(null);
     }
-  }, [videoUrl]);
+  }, []);
+
+  const handleAnalyzeClick = useCallback(() => {
+    if (!videoUrl) {
+      setError('Please provide a video URL.');
+      return;
+    }
+    runAnalysis(() => analyzeVideo(videoUrl, (update) => {
+      setProgress(update);
+      if (update.partial) setPartialRecipe(update.partial);
+    }), null);
+  }, [videoUrl, runAnalysis]);
+
+  const handleFile = useCallback((file: File) => {
+    const message = file.type.startsWith('video/') ? `Uploading and watching ${file.name}...` : `Reading ${file.name}...`;
+    runAnalysis(() => analyzeUpload(file), { stage: 'uploading', message });
+  }, [runAnalysis]);
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 flex flex-col items-center p-4 sm:p-6 lg:p-8">
@@ -40,65 +84,148 @@ function App() {
             Video Recipe Finder
           </h1>
           <p className="mt-2 text-lg text-gray-400">
-            Paste a video or recipe URL from TikTok, YouTube, or a public website to extract the recipe.
+            Paste a video or recipe URL from TikTok, YouTube, Instagram, Facebook, Pinterest, Vimeo, or a public website, or upload your own video or captions, to extract the recipe.
           </p>
+          <nav className="mt-6 inline-flex rounded-lg overflow-hidden border border-gray-700">
+            {(Object.keys(VIEW_LABELS) as View[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-5 py-2 font-semibold transition ${view === option ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+              >
+                {VIEW_LABELS[option]}
+              </button>
+            ))}
+          </nav>
         </header>
 
-        <main className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          <div className="flex flex-col space-y-6 bg-gray-800 p-6 rounded-2xl shadow-lg">
-            <div className="flex flex-col">
-              <label htmlFor="videoUrl" className="mb-2 font-semibold text-gray-300">Video URL</label>
-              <input
-                id="videoUrl"
-                type="url"
-                value={videoUrl}
-                onChange={(e) => setVideoUrl(e.target.value)}
-                placeholder="https://www.tiktok.com/... or https://youtube.com/..."
-                className="w-full p-3 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
-                disabled={isLoading}
+        {view === 'batch' ? (
+          <main className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
+              <BatchAnalyzer onSelect={setBatchRecipe} />
+            </div>
+
+            <div className="bg-gray-800 p-6 rounded-2xl shadow-lg flex flex-col">
+              <h2 className="text-2xl font-bold mb-4 text-gray-200">Imported Recipe</h2>
+              <div className="flex-grow w-full overflow-y-auto p-4 bg-gray-900/50 rounded-lg max-w-none">
+                {batchRecipe ? (
+                  <RecipeDisplay recipe={batchRecipe} onSaved={handleSaved} />
+                ) : (
+                  <div className="flex items-center justify-center h-full text-center text-gray-500">
+                    <p>Select a finished recipe to view it.</p>
+                  </div>
+                )}
+              </div>
+            </div>
+          </main>
+        ) : view === 'library' ? (
+          <main className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
+              <RecipeLibrary
+                selectedId={libraryRecipe?.id ?? null}
+                onSelect={setLibraryRecipe}
+                refreshKey={libraryVersion}
               />
             </div>
 
-            <button
-              onClick={handleAnalyzeClick}
-              disabled={isLoading || !videoUrl}
-              className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-purple-500 to-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-opacity duration-200"
-            >
-              {isLoading ? (
-                <>
-                  <Loader />
-                  <span>Getting Recipe...</span>
-                </>
-              ) : (
-                <>
-                  <RecipeIcon />
-                  <span>Get Recipe</span>
-                </>
-              )}
-            </button>
-          </div>
-
-          <div className="bg-gray-800 p-6 rounded-2xl shadow-lg flex flex-col">
-            <h2 className="text-2xl font-bold mb-4 text-gray-200">Your Recipe</h2>
-            <div className="flex-grow w-full overflow-y-auto p-4 bg-gray-900/50 rounded-lg max-w-none">
-              {isLoading && (
-                <div className="flex flex-col items-center justify-center h-full">
-                  <Loader />
-                  <p className="mt-4 text-gray-400">Finding recipe in video...</p>
-                </div>
-              )}
-              {error && <p className="text-red-400 whitespace-pre-wrap">{error}</p>}
+            <div className="bg-gray-800 p-6 rounded-2xl shadow-lg flex flex-col">
+              <h2 className="text-2xl font-bold mb-4 text-gray-200">Saved Recipe</h2>
+              <div className="flex-grow w-full overflow-y-auto p-4 bg-gray-900/50 rounded-lg max-w-none">
+                {libraryRecipe ? (
+                  <RecipeDisplay recipe={libraryRecipe} />
+                ) : (
+                  <div className="flex items-center justify-center h-full text-center text-gray-500">
+                    <p>Select a saved recipe to view it.</p>
+                  </div>
+                )}
+              </div>
+            </div>
+          </main>
+        ) : view === 'shopping' ? (
+          <main className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="bg-gray-800 p-6 rounded-2xl shadow-lg">
+              <ShoppingListBuilder onBuilt={setShoppingList} refreshKey={libraryVersion} />
+            </div>
+
+            <div className="bg-gray-800 p-6 rounded-2xl shadow-lg flex flex-col">
+              <h2 className="text-2xl font-bold mb-4 text-gray-200">Shopping List</h2>
+              <div className="flex-grow w-full overflow-y-auto p-4 bg-gray-900/50 rounded-lg max-w-none">
+                {shoppingList ? (
+                  <ShoppingListView list={shoppingList} />
+                ) : (
+                  <div className="flex items-center justify-center h-full text-center text-gray-500">
+                    <p>Select recipes and build a list to see everything you need to buy.</p>
+                  </div>
+                )}
+              </div>
+            </div>
+          </main>
+        ) : (
+          <main className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="flex flex-col space-y-6 bg-gray-800 p-6 rounded-2xl shadow-lg">
+              <div className="flex flex-col">
+                <label htmlFor="videoUrl" className="mb-2 font-semibold text-gray-300">Video URL</label>
+                <input
+                  id="videoUrl"
+                  type="url"
+                  value={videoUrl}
+                  onChange={(e) => setVideoUrl(e.target.value)}
+                  placeholder="https://www.tiktok.com/... or https://youtube.com/..."
+                  className="w-full p-3 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+                  disabled={isLoading}
+                />
+              </div>
+
+              <button
+                onClick={handleAnalyzeClick}
+                disabled={isLoading || !videoUrl}
+                className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-purple-500 to-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-opacity duration-200"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader />
+                    <span>Getting Recipe...</span>
+                  </>
+                ) : (
+                  <>
+                    <RecipeIcon />
+                    <span>Get Recipe</span>
+                  </>
+                )}
+              </button>
+
+              <div className="flex items-center gap-3 text-gray-500 text-sm">
+                <span className="flex-grow border-t border-gray-700" />
+                <span>or upload an unpublished video</span>
+                <span className="flex-grow border-t border-gray-700" />
+              </div>
+
+              <UploadDropZone onFile={handleFile} disabled={isLoading} />
+            </div>
+
+            <div className="bg-gray-800 p-6 rounded-2xl shadow-lg flex flex-col">
+              <h2 className="text-2xl font-bold mb-4 text-gray-200">Your Recipe</h2>
+              <div className="flex-grow w-full overflow-y-auto p-4 bg-gray-900/50 rounded-lg max-w-none">
+                {isLoading && (
+                  <div className={`flex flex-col items-center ${partialRecipe ? 'mb-6' : 'justify-center h-full'}`}>
+                    <Loader />
+                    <p className="mt-4 text-gray-400">{progress?.message ?? 'Finding recipe in video...'}</p>
+                  </div>
+                )}
+                {isLoading && partialRecipe && <RecipePreview partial={partialRecipe} />}
+                {error && <p className="text-red-400 whitespace-pre-wrap">{error}</p>}
               
-              {recipe && <RecipeDisplay recipe={recipe} />}
+                {recipe && <RecipeDisplay recipe={recipe} onSaved={handleSaved} />}
               
-              {!isLoading && !error && !recipe && (
-                <div className="flex items-center justify-center h-full text-center text-gray-500">
-                  <p>Your recipe will appear here.</p>
-                </div>
-              )}
+                {!isLoading && !error && !recipe && (
+                  <div className="flex items-center justify-center h-full text-center text-gray-500">
+                    <p>Your recipe will appear here.</p>
+                  </div>
+                )}
+              </div>
             </div>
-          </div>
-        </main>
+          </main>
+        )}
       </div>
     </div>
   );
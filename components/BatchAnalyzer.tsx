@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { RecipeData } from '../services/geminiService';
+import { BatchItemStatus, BatchJob, getBatchJob, startBatch } from '../services/batchService';
+import Loader from './Loader';
+
+interface BatchAnalyzerProps {
+  onSelect: (recipe: RecipeData) => void;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: 'text-gray-400',
+  running: 'text-indigo-300',
+  succeeded: 'text-green-400',
+  failed: 'text-red-400',
+};
+
+const BatchAnalyzer: React.FC<BatchAnalyzerProps> = ({ onSelect }) => {
+  const [urlText, setUrlText] = useState<string>('');
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [job, setJob] = useState<BatchJob | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const urls = urlText.split('\n').map(line => line.trim()).filter(Boolean);
+  const isRunning = job !== null && job.status !== 'completed';
+
+  useEffect(() => {
+    if (!jobId) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        const latest = await getBatchJob(jobId);
+        if (cancelled) return;
+        setJob(latest);
+        if (latest.status !== 'completed') timer = setTimeout(poll, POLL_INTERVAL_MS);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load batch progress.');
+      }
+    };
+    poll();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [jobId]);
+
+  const handleStart = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    setJob(null);
+    try {
+      setJobId(await startBatch(urls));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start batch.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <div className="flex flex-col">
+        <label htmlFor="batchUrls" className="mb-2 font-semibold text-gray-300">Video or recipe URLs (one per line)</label>
+        <textarea
+          id="batchUrls"
+          value={urlText}
+          onChange={(e) => setUrlText(e.target.value)}
+          rows={8}
+          placeholder={'https://www.tiktok.com/...\nhttps://youtube.com/...\nhttps://example.com/recipe'}
+          className="w-full p-3 bg-gray-700 border border-gray-600 rounded-lg font-mono text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+          disabled={isSubmitting || isRunning}
+        />
+      </div>
+
+      <button
+        onClick={handleStart}
+        disabled={isSubmitting || isRunning || urls.length === 0}
+        className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-purple-500 to-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-opacity duration-200"
+      >
+        {isSubmitting || isRunning ? <Loader /> : null}
+        <span>{isRunning ? 'Processing...' : urls.length > 0 ? `Get ${urls.length} Recipes` : 'Get Recipes'}</span>
+      </button>
+
+      {error && <p className="text-red-400 whitespace-pre-wrap">{error}</p>}
+
+      {job && (
+        <div>
+          <p className="text-sm text-gray-400 mb-2">
+            {job.completed + job.failed} of {job.total} done · {job.completed} succeeded · {job.failed} failed
+          </p>
+          <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden mb-4">
+            <div
+              className="h-full bg-gradient-to-r from-purple-500 to-indigo-600 transition-all"
+              style={{ width: `${((job.completed + job.failed) / job.total) * 100}%` }}
+            />
+          </div>
+          <table className="w-full text-sm text-left">
+            <thead className="text-gray-400 border-b border-gray-700">
+              <tr>
+                <th className="py-2 pr-2 font-semibold">URL</th>
+                <th className="py-2 pr-2 font-semibold">Status</th>
+                <th className="py-2 font-semibold">Recipe</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {job.items.map((item, index) => (
+                <tr key={index} className="align-top">
+                  <td className="py-2 pr-2 break-all text-gray-300">{item.url}</td>
+                  <td className={`py-2 pr-2 capitalize ${STATUS_STYLES[item.status]}`}>{item.status}</td>
+                  <td className="py-2">
+                    {item.result ? (
+                      <button
+                        onClick={() => onSelect(item.result!.data)}
+                        className="text-left text-indigo-400 hover:text-indigo-300 transition-colors"
+                      >
+                        {item.result.data.title}
+                      </button>
+                    ) : (
+                      <span className="text-red-400">{item.error}</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchAnalyzer;
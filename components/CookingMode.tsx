@@ -0,0 +1,318 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { RecipeData, StructuredIngredient } from '../services/geminiService';
+import { recipeImageSrc } from '../services/imageService';
+import {
+  clearCookingProgress, CookingTimer, detectTimers, ingredientsForStep, loadCookingProgress, saveCookingProgress, timerRemaining,
+} from '../utils/cooking';
+import { formatIngredient } from '../utils/units';
+import { formatTimestamp } from '../utils/video';
+import { isRtlLanguage } from '../utils/languages';
+
+interface CookingModeProps {
+  recipe: RecipeData;
+  // Scaled and converted the way the recipe is currently displayed.
+  ingredients: StructuredIngredient[] | null;
+  instructions: string[];
+  onClose: () => void;
+}
+
+// A horizontal swipe at least this long, in pixels, changes the step.
+const SWIPE_THRESHOLD = 60;
+const ALERT_INTERVAL_MS = 2000;
+
+// Three short beeps.
+const playAlert = (context: AudioContext) => {
+  for (let index = 0; index < 3; index++) {
+    const start = context.currentTime + index * 0.25;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.3, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.2);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.2);
+  }
+  navigator.vibrate?.([200, 100, 200]);
+};
+
+// Keeps the screen on while cooking mode is open. The lock is released whenever the page is
+// hidden, so it is requested again when the page becomes visible.
+const useWakeLock = () => {
+  const [isLocked, setIsLocked] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!('wakeLock' in navigator)) return;
+    let sentinel: WakeLockSentinel | null = null;
+    let closed = false;
+    const request = async () => {
+      if (document.visibilityState !== 'visible') return;
+      try {
+        const lock = await navigator.wakeLock.request('screen');
+        if (closed) {
+          lock.release();
+          return;
+        }
+        sentinel = lock;
+        setIsLocked(true);
+        lock.addEventListener('release', () => setIsLocked(false));
+      } catch (err) {
+        // Refused, e.g. in battery saver mode. The header only says the screen stays on while
+        // a lock is held, so there is nothing else to report.
+      }
+    };
+    request();
+    document.addEventListener('visibilitychange', request);
+    return () => {
+      closed = true;
+      document.removeEventListener('visibilitychange', request);
+      sentinel?.release();
+    };
+  }, []);
+
+  return isLocked;
+};
+
+// Shows one instruction at a time in large type, with the ingredients it uses and timers for
+// the durations it mentions. The step and timers are saved, so a reload resumes cooking.
+const CookingMode: React.FC<CookingModeProps> = ({ recipe, ingredients, instructions, onClose }) => {
+  const saved = useMemo(() => loadCookingProgress(recipe), [recipe]);
+  const [step, setStep] = useState<number>(saved?.step ?? 0);
+  const [timers, setTimers] = useState<CookingTimer[]>(saved?.timers ?? []);
+  const [now, setNow] = useState<number>(Date.now());
+  const audioRef = useRef<AudioContext | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const touchStart = useRef<{ x: number; y: number } | null>(null);
+  const isLocked = useWakeLock();
+
+  const lastStep = instructions.length - 1;
+  const goTo = useCallback((next: number) => setStep(Math.min(Math.max(0, next), lastStep)), [lastStep]);
+
+  // Opening cooking mode and leaving at once is not worth offering to resume.
+  useEffect(() => {
+    if (step === 0 && timers.length === 0) clearCookingProgress(recipe);
+    else saveCookingProgress(recipe, { step, timers });
+  }, [recipe, step, timers]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Takes the whole screen where the browser allows it; the overlay covers the page either way.
+  useEffect(() => {
+    containerRef.current?.requestFullscreen?.().catch(() => {});
+    return () => {
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  // Browsers only allow sound after a user gesture, so the audio context is created on the
+  // first tap or key press. After a reload, finished timers flash until then.
+  const unlockAudio = () => {
+    audioRef.current ??= new AudioContext();
+    if (audioRef.current.state === 'suspended') audioRef.current.resume().catch(() => {});
+  };
+
+  const finished = timers.filter(timer => timer.endsAt !== null && timerRemaining(timer, now) <= 0);
+
+  // Finished timers keep sounding until they are dismissed, including ones that went off
+  // while the page was closed.
+  useEffect(() => {
+    if (finished.length === 0) return;
+    const alert = () => {
+      if (audioRef.current) playAlert(audioRef.current);
+    };
+    alert();
+    const interval = setInterval(alert, ALERT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [finished.length]);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      unlockAudio();
+      if (event.key === 'ArrowRight' || event.key === 'PageDown') {
+        event.preventDefault();
+        goTo(step + 1);
+      } else if (event.key === 'ArrowLeft' || event.key === 'PageUp') {
+        event.preventDefault();
+        goTo(step - 1);
+      } else if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [step, goTo, onClose]);
+
+  const handleTouchStart = (event: React.TouchEvent) => {
+    touchStart.current = { x: event.touches[0].clientX, y: event.touches[0].clientY };
+  };
+
+  const handleTouchEnd = (event: React.TouchEvent) => {
+    const start = touchStart.current;
+    touchStart.current = null;
+    if (!start) return;
+    const dx = event.changedTouches[0].clientX - start.x;
+    const dy = event.changedTouches[0].clientY - start.y;
+    if (Math.abs(dx) < SWIPE_THRESHOLD || Math.abs(dx) < Math.abs(dy)) return;
+    // Swiping left moves forward, which is backwards for right-to-left languages.
+    const forward = (dx < 0) !== isRtlLanguage(recipe.language);
+    goTo(step + (forward ? 1 : -1));
+  };
+
+  const startTimer = (label: string, seconds: number) => {
+    setTimers(current => [
+      ...current,
+      { id: crypto.randomUUID(), label, step, endsAt: Date.now() + seconds * 1000, remainingSeconds: seconds },
+    ]);
+  };
+
+  const togglePause = (id: string) => setTimers(current => current.map(timer => {
+    if (timer.id !== id) return timer;
+    return timer.endsAt === null
+      ? { ...timer, endsAt: Date.now() + timer.remainingSeconds * 1000 }
+      : { ...timer, endsAt: null, remainingSeconds: Math.max(0, timerRemaining(timer, Date.now())) };
+  }));
+
+  const removeTimer = (id: string) => setTimers(current => current.filter(timer => timer.id !== id));
+
+  const handleFinish = () => {
+    clearCookingProgress(recipe);
+    onClose();
+  };
+
+  const stepText = instructions[step] ?? '';
+  const stepTimers = useMemo(() => detectTimers(stepText), [stepText]);
+  const stepIngredients = useMemo(() => (ingredients ? ingredientsForStep(ingredients, stepText) : []), [ingredients, stepText]);
+  const stepImages = (recipe.images ?? []).filter(image => image.category === 'step' && image.step === step + 1);
+  const timeline = recipe.steps?.[step];
+
+  return (
+    <div
+      ref={containerRef}
+      dir={isRtlLanguage(recipe.language) ? 'rtl' : 'ltr'}
+      lang={recipe.language ?? undefined}
+      className="fixed inset-0 z-50 bg-gray-950 text-gray-100 flex flex-col"
+      onPointerDown={unlockAudio}
+      onTouchStart={handleTouchStart}
+      onTouchEnd={handleTouchEnd}
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Cooking ${recipe.title}`}
+    >
+      <header className="flex items-center justify-between gap-4 px-4 sm:px-8 py-3 border-b border-gray-800">
+        <div className="min-w-0">
+          <h2 className="text-lg font-bold text-purple-300 truncate">{recipe.title}</h2>
+          <p className="text-sm text-gray-400">
+            Step {step + 1} of {instructions.length}
+            {isLocked && <span className="ms-3 text-green-400">Screen stays on</span>}
+          </p>
+        </div>
+        <button onClick={onClose} className="shrink-0 px-3 py-1 rounded bg-gray-800 hover:bg-gray-700 transition" aria-label="Close cooking mode">
+          ✕
+        </button>
+      </header>
+      <div className="h-1 bg-gray-800">
+        <div className="h-1 bg-indigo-500 transition-all" style={{ width: `${((step + 1) / instructions.length) * 100}%` }} />
+      </div>
+
+      <main className="flex-1 overflow-y-auto px-4 sm:px-8 py-6 grid gap-8 lg:grid-cols-[2fr_1fr]">
+        <section>
+          <p className="text-2xl sm:text-4xl leading-snug">{stepText}</p>
+          {timeline && timeline.start_time !== null && (
+            <p className="mt-3 text-sm text-indigo-300 font-mono">▶ {formatTimestamp(timeline.start_time)} in the video</p>
+          )}
+          {stepTimers.length > 0 && (
+            <div className="mt-6 flex flex-wrap gap-3">
+              {stepTimers.map((timer, index) => (
+                <button
+                  key={index}
+                  onClick={() => startTimer(timer.label, timer.seconds)}
+                  className="px-4 py-3 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-lg font-semibold transition"
+                  title={timer.maxSeconds ? `Check after ${formatTimestamp(timer.seconds)}, done by ${formatTimestamp(timer.maxSeconds)}` : undefined}
+                >
+                  ⏱ Start {timer.label}
+                </button>
+              ))}
+            </div>
+          )}
+          {stepImages.length > 0 && (
+            <div className="mt-6 flex flex-wrap gap-3">
+              {stepImages.map((image, index) => (
+                <img key={index} src={recipeImageSrc(image, 640)} alt={image.description} className="max-h-64 rounded-lg object-cover" />
+              ))}
+            </div>
+          )}
+        </section>
+
+        <aside className="space-y-6">
+          {timers.length > 0 && (
+            <section>
+              <h3 className="text-lg font-bold text-indigo-300 mb-2">Timers</h3>
+              <ul className="space-y-2">
+                {timers.map(timer => {
+                  const remaining = timerRemaining(timer, now);
+                  const isDone = timer.endsAt !== null && remaining <= 0;
+                  return (
+                    <li
+                      key={timer.id}
+                      className={`flex items-center gap-3 p-3 rounded-lg ${isDone ? 'bg-red-900/70 animate-pulse' : 'bg-gray-800'}`}
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-2xl font-mono">{isDone ? 'Done!' : formatTimestamp(remaining)}</p>
+                        <p className="text-sm text-gray-400 truncate">Step {timer.step + 1} · {timer.label}</p>
+                      </div>
+                      {!isDone && (
+                        <button onClick={() => togglePause(timer.id)} className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 transition">
+                          {timer.endsAt === null ? 'Resume' : 'Pause'}
+                        </button>
+                      )}
+                      <button onClick={() => removeTimer(timer.id)} className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 transition">
+                        {isDone ? 'Dismiss' : 'Cancel'}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          )}
+          {stepIngredients.length > 0 && (
+            <section>
+              <h3 className="text-lg font-bold text-indigo-300 mb-2">Ingredients for this step</h3>
+              <ul className="space-y-1 text-lg text-gray-300">
+                {stepIngredients.map((ingredient, index) => (
+                  <li key={index}>
+                    {formatIngredient(ingredient)}
+                    {ingredient.notes && <span className="text-gray-400 italic">, {ingredient.notes}</span>}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </aside>
+      </main>
+
+      <footer className="flex items-center justify-between gap-4 px-4 sm:px-8 py-4 border-t border-gray-800">
+        <button
+          onClick={() => goTo(step - 1)}
+          disabled={step === 0}
+          className="px-6 py-3 rounded-lg bg-gray-800 hover:bg-gray-700 text-lg disabled:opacity-40 transition"
+        >
+          Previous
+        </button>
+        {step < lastStep ? (
+          <button onClick={() => goTo(step + 1)} className="px-6 py-3 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-lg font-semibold transition">
+            Next
+          </button>
+        ) : (
+          <button onClick={handleFinish} className="px-6 py-3 rounded-lg bg-green-600 hover:bg-green-500 text-lg font-semibold transition">
+            Finish
+          </button>
+        )}
+      </footer>
+    </div>
+  );
+};
+
+export default CookingMode;
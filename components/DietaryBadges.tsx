@@ -0,0 +1,35 @@
+import React from 'react';
+import { DietaryInfo } from '../services/geminiService';
+import { ALLERGEN_LABELS, DIET_LABELS } from '../utils/dietary';
+
+interface DietaryBadgesProps {
+  dietary: DietaryInfo;
+}
+
+// Diet tags the recipe fits and allergen warnings. Hovering a badge lists the ingredient
+// lines behind it.
+const DietaryBadges: React.FC<DietaryBadgesProps> = ({ dietary }) => {
+  const diets = dietary.diets.filter(result => result.compatible);
+  if (diets.length === 0 && dietary.allergens.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-4">
+      {diets.map(result => (
+        <span key={result.diet} className="px-2 py-1 rounded-full text-xs font-semibold bg-green-900/60 text-green-300">
+          {DIET_LABELS[result.diet]}
+        </span>
+      ))}
+      {dietary.allergens.map(warning => (
+        <span
+          key={warning.allergen}
+          title={warning.ingredients.join('\n')}
+          className="px-2 py-1 rounded-full text-xs font-semibold bg-amber-900/60 text-amber-300 cursor-help"
+        >
+          Contains {ALLERGEN_LABELS[warning.allergen].toLowerCase()}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default DietaryBadges;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { NutritionEstimate } from '../services/geminiService';
+
+interface NutritionPanelProps {
+  nutrition: NutritionEstimate;
+}
+
+const REASON_LABELS: Record<NutritionEstimate['unmatched_ingredients'][number]['reason'], string> = {
+  no_match: 'not in food table',
+  no_quantity: 'no amount given',
+  unknown_unit: 'unit not convertible',
+};
+
+// Per-serving nutrition estimated by the backend, with the ingredients it left out.
+const NutritionPanel: React.FC<NutritionPanelProps> = ({ nutrition }) => {
+  const facts = nutrition.per_serving;
+  const items = [
+    { label: 'Calories', value: `${facts.calories}` },
+    { label: 'Protein', value: `${facts.protein} g` },
+    { label: 'Carbs', value: `${facts.carbs} g` },
+    { label: 'Fat', value: `${facts.fat} g` },
+    { label: 'Fiber', value: `${facts.fiber} g` },
+    { label: 'Sodium', value: `${facts.sodium} mg` },
+  ];
+
+  return (
+    <div className="mt-8 p-4 bg-gray-900/70 rounded-lg border border-gray-700">
+      <h4 className="text-xl font-bold text-indigo-300 mb-1">Nutrition</h4>
+      <p className="text-xs text-gray-400 mb-3">
+        Estimated per serving{nutrition.servings > 1 ? ` (recipe makes ${nutrition.servings})` : ''}.
+      </p>
+      <dl className="grid grid-cols-3 sm:grid-cols-6 gap-3 text-center">
+        {items.map(item => (
+          <div key={item.label}>
+            <dt className="text-xs uppercase tracking-wide text-gray-400">{item.label}</dt>
+            <dd className="text-lg font-semibold text-gray-200">{item.value}</dd>
+          </div>
+        ))}
+      </dl>
+      {nutrition.unmatched_ingredients.length > 0 && (
+        <div className="mt-4 text-sm text-yellow-300/90">
+          <p className="font-semibold">Not counted:</p>
+          <ul className="list-disc list-inside text-yellow-200/80">
+            {nutrition.unmatched_ingredients.map((item, index) => (
+              <li key={index}>
+                {item.ingredient} <span className="text-gray-400">({REASON_LABELS[item.reason]})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NutritionPanel;
@@ -1,53 +1,238 @@
-import React from 'react';
-import { RecipeData } from '../services/geminiService';
+import React, { useMemo, useRef, useState } from 'react';
+import { RecipeData, StructuredIngredient } from '../services/geminiService';
+import { saveRecipe, SavedRecipe } from '../services/libraryService';
+import { downloadRecipe, EXPORT_OPTIONS, ExportFormat } from '../services/exportService';
+import { translateRecipe } from '../services/translationService';
+import { recipeImageSrc } from '../services/imageService';
+import { formatTimestamp, seekTikTokPlayer, videoDeepLink, videoEmbedUrl } from '../utils/video';
+import SourceVideo from './SourceVideo';
+import CookingMode from './CookingMode';
+import NutritionPanel from './NutritionPanel';
+import DietaryBadges from './DietaryBadges';
+import { convertIngredient, convertText, formatIngredient, formatQuantity, scaleIngredient, UnitSystem } from '../utils/units';
+import { isRtlLanguage, isSameLanguage, LANGUAGE_OPTIONS } from '../utils/languages';
+import { loadCookingProgress } from '../utils/cooking';
 
 interface RecipeDisplayProps {
   recipe: RecipeData;
+  onSaved?: (recipe: SavedRecipe) => void;
 }
 
-// Helper to format time in minutes into a readable string like "1h 15m"
+// Helper to format time in minutes into a readable string like "1h 15m" or "1d 2h"
 const formatTime = (minutes: number) => {
     if (!minutes || minutes <= 0) return null;
     if (minutes < 60) return `${minutes} min`;
+    if (minutes >= 1440) {
+        const days = Math.floor(minutes / 1440);
+        const hours = Math.round((minutes % 1440) / 60);
+        return `${days}d ${hours > 0 ? `${hours}h` : ''}`.trim();
+    }
     const hours = Math.floor(minutes / 60);
     const mins = minutes % 60;
     return `${hours}h ${mins > 0 ? `${mins}m` : ''}`.trim();
 }
 
-const RecipeDisplay: React.FC<RecipeDisplayProps> = ({ recipe }) => {
+// Groups structured ingredients by their heading, preserving the original order
+const groupIngredients = (ingredients: StructuredIngredient[]) => {
+    const groups: { heading: string | null; items: StructuredIngredient[] }[] = [];
+    for (const ingredient of ingredients) {
+        const last = groups[groups.length - 1];
+        if (last && last.heading === ingredient.group) {
+            last.items.push(ingredient);
+        } else {
+            groups.push({ heading: ingredient.group, items: [ingredient] });
+        }
+    }
+    return groups;
+}
+
+const UNIT_OPTIONS: { value: UnitSystem | null; label: string }[] = [
+    { value: null, label: 'Original' },
+    { value: 'us', label: 'US' },
+    { value: 'metric', label: 'Metric' },
+];
+
+const RecipeDisplay: React.FC<RecipeDisplayProps> = ({ recipe: original, onSaved }) => {
+    // A translation replaces the displayed recipe until another language is picked.
+    const [translation, setTranslation] = useState<RecipeData | null>(null);
+    const [translatingTo, setTranslatingTo] = useState<string | null>(null);
+    const [translateError, setTranslateError] = useState<string | null>(null);
+    const recipe = translation ?? original;
+    // Recipes without a known yield are scaled in batches of the original amount.
+    const baseServings = recipe.yields > 0 ? recipe.yields : 1;
+    const [servings, setServings] = useState<number>(baseServings);
+    const [unitSystem, setUnitSystem] = useState<UnitSystem | null>(null);
+    const [savedId, setSavedId] = useState<string | null>(recipe.id ?? null);
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+    const [exportError, setExportError] = useState<string | null>(null);
+    const [isCooking, setIsCooking] = useState<boolean>(false);
+    const [prevRecipe, setPrevRecipe] = useState(original);
+
+    if (original !== prevRecipe) {
+        setPrevRecipe(original);
+        setServings(original.yields > 0 ? original.yields : 1);
+        setSavedId(original.id ?? null);
+        setSaveError(null);
+        setExportError(null);
+        setTranslation(null);
+        setTranslateError(null);
+        setIsCooking(false);
+    }
+
+    // Always translates from the original, so switching back and forth does not compound errors.
+    const handleLanguageChange = async (language: string) => {
+        setTranslateError(null);
+        if (!language || isSameLanguage(language, original.language)) {
+            setTranslation(null);
+            setSavedId(original.id ?? null);
+            return;
+        }
+        setTranslatingTo(language);
+        try {
+            const translated = await translateRecipe(original, language);
+            setTranslation(translated);
+            // A translation is saved as a new recipe rather than over the original.
+            setSavedId(null);
+        } catch (err) {
+            setTranslateError(err instanceof Error ? err.message : 'Failed to translate recipe.');
+        } finally {
+            setTranslatingTo(null);
+        }
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        setSaveError(null);
+        try {
+            const saved = await saveRecipe(recipe);
+            setSavedId(saved.id);
+            onSaved?.(saved);
+        } catch (err) {
+            setSaveError(err instanceof Error ? err.message : 'Failed to save recipe.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleExport = async (format: ExportFormat) => {
+        setExportingFormat(format);
+        setExportError(null);
+        try {
+            await downloadRecipe(recipe, format);
+        } catch (err) {
+            setExportError(err instanceof Error ? err.message : 'Failed to export recipe.');
+        } finally {
+            setExportingFormat(null);
+        }
+    };
+
+    const playerRef = useRef<HTMLIFrameElement>(null);
+    const video = recipe.video ?? null;
+    const embedsVideo = video !== null && videoEmbedUrl(recipe.url, video.platform) !== null;
+    const images = recipe.images ?? [];
+    const heroImage = images.find(image => image.category === 'main') ?? null;
+    // Step images that name their instruction are shown with it; the rest follow the instructions.
+    const imagesForStep = (step: number) => images.filter(image => image.category === 'step' && image.step === step);
+    const looseStepImages = images.filter(image => image.category === 'step' && !(image.step && image.step <= recipe.instructions.length));
+    // The hero shows the main image unless the source video takes its place.
+    const showsVideo = video !== null && (embedsVideo || video.thumbnail_url !== null);
+    const galleryImages = images.filter(image => image.category === 'additional' || (image === heroImage && showsVideo));
+
+    // A chip that jumps to a point in the source video: TikTok's embedded player is
+    // seeked in place, other platforms open the video at that time in a new tab.
+    const renderTimestamp = (start: number | null, end: number | null) => {
+        if (start === null || !video) return null;
+        const label = `▶ ${formatTimestamp(start)}${end !== null ? `–${formatTimestamp(end)}` : ''}`;
+        const className = "ms-2 inline-block px-2 py-0.5 rounded-full bg-indigo-900/60 text-indigo-300 text-xs font-mono hover:bg-indigo-800 transition";
+        if (video.platform === 'tiktok' && embedsVideo) {
+            return (
+                <button
+                    onClick={() => {
+                        playerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+                        seekTikTokPlayer(playerRef.current, start);
+                    }}
+                    className={className}
+                >
+                    {label}
+                </button>
+            );
+        }
+        return (
+            <a href={videoDeepLink(recipe.url, video.platform, start)} target="_blank" rel="noopener noreferrer" className={className}>
+                {label}
+            </a>
+        );
+    };
+
+    const scaleFactor = servings / baseServings;
+
+    const ingredients = useMemo(() => {
+        if (!recipe.structured_ingredients) return null;
+        return recipe.structured_ingredients.map(ingredient => {
+            const scaled = scaleIngredient(ingredient, scaleFactor);
+            return unitSystem ? convertIngredient(scaled, unitSystem) : scaled;
+        });
+    }, [recipe.structured_ingredients, scaleFactor, unitSystem]);
+
+    const instructions = useMemo(
+        () => unitSystem ? recipe.instructions.map(step => convertText(step, unitSystem)) : recipe.instructions,
+        [recipe.instructions, unitSystem],
+    );
+
+    // Read on every render, so the button reflects progress saved by cooking mode once it closes.
+    const cookingProgress = isCooking ? null : loadCookingProgress(recipe);
+
     const prepTime = formatTime(recipe.prep_time);
     const cookTime = formatTime(recipe.cook_time);
     const totalTime = formatTime(recipe.total_time);
-    const yields = recipe.yields > 0 ? `${recipe.yields} servings` : null;
+    const yieldsMax = recipe.yields_max && recipe.yields_max > recipe.yields ? recipe.yields_max * scaleFactor : null;
+    const yields = recipe.yields > 0
+        ? `${formatQuantity(servings)}${yieldsMax ? `–${formatQuantity(yieldsMax)}` : ''} servings`
+        : null;
 
     const summaryItems = [
-        { label: 'Prep Time', value: prepTime },
-        { label: 'Cook Time', value: cookTime },
-        { label: 'Total Time', value: totalTime },
-        { label: 'Yields', value: yields },
+        { label: 'Prep Time', value: prepTime, raw: recipe.raw?.prep_time },
+        { label: 'Cook Time', value: cookTime, raw: recipe.raw?.cook_time },
+        { label: 'Total Time', value: totalTime, raw: recipe.raw?.total_time },
+        { label: 'Yields', value: yields, raw: recipe.raw?.yields },
     ].filter(item => item.value);
 
 
     return (
-        <div>
-            {recipe.image && (
+        <div dir={isRtlLanguage(recipe.language) ? 'rtl' : 'ltr'} lang={recipe.language ?? undefined}>
+            {video && showsVideo ? (
+                <SourceVideo video={video} url={recipe.url} title={recipe.title} playerRef={playerRef} />
+            ) : (heroImage || recipe.image) && (
                 <figure className="mb-4">
                     <img 
-                        src={recipe.image} 
-                        alt={recipe.title} 
+                        src={heroImage ? recipeImageSrc(heroImage, 1280) : recipe.image!} 
+                        alt={heroImage?.description || recipe.title} 
                         className="w-full h-auto max-h-96 rounded-lg shadow-md object-cover" 
                         loading="lazy" 
                     />
                 </figure>
             )}
-            <h3 className="text-3xl font-bold text-purple-300 mt-0">{recipe.title}</h3>
+            <div className="flex items-start justify-between gap-4">
+                <h3 className="text-3xl font-bold text-purple-300 mt-0">{recipe.title}</h3>
+                <button
+                    onClick={handleSave}
+                    disabled={isSaving || savedId !== null}
+                    className="shrink-0 px-4 py-2 rounded-lg bg-indigo-600 text-white font-semibold hover:bg-indigo-500 disabled:opacity-60 disabled:cursor-not-allowed transition"
+                >
+                    {savedId ? 'Saved' : isSaving ? 'Saving...' : 'Save'}
+                </button>
+            </div>
+            {saveError && <p className="text-red-400 text-sm mt-2">{saveError}</p>}
             <p className="text-gray-300 italic mt-2">{recipe.description}</p>
+            {recipe.dietary && <DietaryBadges dietary={recipe.dietary} />}
             
             {summaryItems.length > 0 && (
                 <div className="my-6 p-4 bg-gray-900/70 rounded-lg border border-gray-700">
                     <ul className="flex flex-wrap items-center gap-x-6 gap-y-2 text-gray-300">
                         {summaryItems.map(item => (
-                            <li key={item.label}>
+                            <li key={item.label} title={item.raw ?? undefined}>
                                 <strong className="font-semibold text-indigo-400">{item.label}:</strong> {item.value}
                             </li>
                         ))}
@@ -55,25 +240,175 @@ const RecipeDisplay: React.FC<RecipeDisplayProps> = ({ recipe }) => {
                 </div>
             )}
 
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+                {ingredients && (
+                    <div className="flex items-center gap-2">
+                        <span className="font-semibold text-indigo-400">{recipe.yields > 0 ? 'Servings' : 'Batches'}:</span>
+                        <button
+                            onClick={() => setServings(value => Math.max(value > 1 ? value - 1 : value / 2, baseServings / 4))}
+                            className="w-7 h-7 rounded bg-gray-700 hover:bg-gray-600 transition"
+                            aria-label="Decrease servings"
+                        >
+                            −
+                        </button>
+                        <span className="min-w-[2rem] text-center">{formatQuantity(servings)}</span>
+                        <button
+                            onClick={() => setServings(value => (value < 1 ? value * 2 : value + 1))}
+                            className="w-7 h-7 rounded bg-gray-700 hover:bg-gray-600 transition"
+                            aria-label="Increase servings"
+                        >
+                            +
+                        </button>
+                        {scaleFactor !== 1 && (
+                            <button onClick={() => setServings(baseServings)} className="text-indigo-400 hover:text-indigo-300 transition-colors">
+                                Reset
+                            </button>
+                        )}
+                    </div>
+                )}
+                <div className="flex rounded-lg overflow-hidden border border-gray-600" role="group" aria-label="Units">
+                    {UNIT_OPTIONS.map(option => (
+                        <button
+                            key={option.label}
+                            onClick={() => setUnitSystem(option.value)}
+                            className={`px-3 py-1 transition ${unitSystem === option.value ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                <label className="flex items-center gap-2">
+                    <span className="font-semibold text-indigo-400">Language:</span>
+                    <select
+                        value={translatingTo ?? translation?.language ?? ''}
+                        onChange={event => handleLanguageChange(event.target.value)}
+                        disabled={translatingTo !== null}
+                        className="px-2 py-1 rounded bg-gray-700 border border-gray-600 disabled:opacity-60"
+                    >
+                        <option value="">Original{original.language ? ` (${original.language})` : ''}</option>
+                        {LANGUAGE_OPTIONS.filter(option => !isSameLanguage(option.code, original.language)).map(option => (
+                            <option key={option.code} value={option.code}>{option.label}</option>
+                        ))}
+                    </select>
+                    {translatingTo && <span className="text-gray-400">Translating...</span>}
+                </label>
+            </div>
+            {translateError && <p className="text-red-400 text-sm mt-2">{translateError}</p>}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 mt-6">
                 <div>
                     <h4 className="text-xl font-bold text-indigo-300 mb-2">Ingredients</h4>
-                    <ul className="list-disc list-inside text-gray-300 space-y-1">
-                        {recipe.ingredients.map((item, index) => <li key={index}>{item}</li>)}
-                    </ul>
+                    {ingredients && ingredients.length > 0 ? (
+                        groupIngredients(ingredients).map((group, groupIndex) => (
+                            <div key={groupIndex} className="mb-3">
+                                {group.heading && <h5 className="font-semibold text-purple-300 mb-1">{group.heading}</h5>}
+                                <ul className="list-disc list-inside text-gray-300 space-y-1">
+                                    {group.items.map((item, index) => (
+                                        <li key={index}>
+                                            {formatIngredient(item)}
+                                            {item.notes && <span className="text-gray-400 italic">, {item.notes}</span>}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        ))
+                    ) : (
+                        <ul className="list-disc list-inside text-gray-300 space-y-1">
+                            {recipe.ingredients.map((item, index) => <li key={index}>{unitSystem ? convertText(item, unitSystem) : item}</li>)}
+                        </ul>
+                    )}
                 </div>
                 <div>
-                    <h4 className="text-xl font-bold text-indigo-300 mb-2">Instructions</h4>
+                    <div className="flex items-center justify-between gap-4 mb-2">
+                        <h4 className="text-xl font-bold text-indigo-300">Instructions</h4>
+                        {instructions.length > 0 && (
+                            <button
+                                onClick={() => setIsCooking(true)}
+                                className="px-3 py-1 rounded-lg bg-indigo-600 text-white text-sm font-semibold hover:bg-indigo-500 transition"
+                            >
+                                {cookingProgress ? `Resume cooking (step ${cookingProgress.step + 1})` : 'Start cooking'}
+                            </button>
+                        )}
+                    </div>
                     <ol className="list-decimal list-inside text-gray-300 space-y-2">
-                        {recipe.instructions.map((item, index) => <li key={index}>{item}</li>)}
+                        {instructions.map((item, index) => (
+                            <li key={index}>
+                                {item}
+                                {renderTimestamp(recipe.steps?.[index]?.start_time ?? null, recipe.steps?.[index]?.end_time ?? null)}
+                                {imagesForStep(index + 1).length > 0 && (
+                                    <div className="flex flex-wrap gap-2 mt-2">
+                                        {imagesForStep(index + 1).map((image, imageIndex) => (
+                                            <img
+                                                key={imageIndex}
+                                                src={recipeImageSrc(image, 320)}
+                                                alt={image.description}
+                                                className="h-24 w-32 rounded object-cover"
+                                                loading="lazy"
+                                            />
+                                        ))}
+                                    </div>
+                                )}
+                            </li>
+                        ))}
                     </ol>
+                    {looseStepImages.length > 0 && (
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mt-4">
+                            {looseStepImages.map((image, index) => (
+                                <img
+                                    key={index}
+                                    src={recipeImageSrc(image, 320)}
+                                    alt={image.description}
+                                    className="w-full h-24 rounded object-cover"
+                                    loading="lazy"
+                                />
+                            ))}
+                        </div>
+                    )}
                 </div>
             </div>
-             <div className="mt-8 pt-4 border-t border-gray-700 text-center">
-                <a href={recipe.url} target="_blank" rel="noopener noreferrer" className="text-sm text-indigo-400 hover:text-indigo-300 transition-colors">
-                    Original recipe from {recipe.host}
-                </a>
+            {galleryImages.length > 0 && (
+                <div className="mt-8">
+                    <h4 className="text-xl font-bold text-indigo-300 mb-2">Photos</h4>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+                        {galleryImages.map((image, index) => (
+                            <a key={index} href={recipeImageSrc(image, 1280)} target="_blank" rel="noopener noreferrer">
+                                <img
+                                    src={recipeImageSrc(image, 320)}
+                                    alt={image.description}
+                                    title={image.description || undefined}
+                                    className="w-full h-32 rounded object-cover hover:opacity-80 transition"
+                                    loading="lazy"
+                                />
+                            </a>
+                        ))}
+                    </div>
+                </div>
+            )}
+            {recipe.nutrition && <NutritionPanel nutrition={recipe.nutrition} />}
+            <div className="mt-8 flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-semibold text-indigo-400">Download:</span>
+                {EXPORT_OPTIONS.map(option => (
+                    <button
+                        key={option.format}
+                        onClick={() => handleExport(option.format)}
+                        disabled={exportingFormat !== null}
+                        className="px-3 py-1 rounded bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-60 disabled:cursor-not-allowed transition"
+                    >
+                        {exportingFormat === option.format ? 'Exporting...' : option.label}
+                    </button>
+                ))}
             </div>
+            {exportError && <p className="text-red-400 text-sm mt-2">{exportError}</p>}
+            {isCooking && (
+                <CookingMode recipe={recipe} ingredients={ingredients} instructions={instructions} onClose={() => setIsCooking(false)} />
+            )}
+            {recipe.url && (
+                <div className="mt-8 pt-4 border-t border-gray-700 text-center">
+                    <a href={recipe.url} target="_blank" rel="noopener noreferrer" className="text-sm text-indigo-400 hover:text-indigo-300 transition-colors">
+                        Original recipe from {recipe.host}
+                    </a>
+                </div>
+            )}
         </div>
     );
 };
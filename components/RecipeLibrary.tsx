@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { Allergen, Diet } from '../services/geminiService';
+import { deleteRecipe, listRecipes, SavedRecipe } from '../services/libraryService';
+import { ALLERGEN_LABELS, DIET_LABELS } from '../utils/dietary';
+import Loader from './Loader';
+
+interface RecipeLibraryProps {
+  selectedId: string | null;
+  onSelect: (recipe: SavedRecipe | null) => void;
+  // Bumped by the parent whenever the library changes elsewhere, e.g. after a save.
+  refreshKey: number;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const toggle = <T,>(items: T[], item: T): T[] =>
+  items.includes(item) ? items.filter(existing => existing !== item) : [...items, item];
+
+const RecipeLibrary: React.FC<RecipeLibraryProps> = ({ selectedId, onSelect, refreshKey }) => {
+  const [query, setQuery] = useState<string>('');
+  const [diets, setDiets] = useState<Diet[]>([]);
+  const [freeOf, setFreeOf] = useState<Allergen[]>([]);
+  const [recipes, setRecipes] = useState<SavedRecipe[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const results = await listRecipes(query.trim() || undefined, { diets, freeOf });
+        if (!cancelled) setRecipes(results);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load recipes.');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, diets, freeOf, refreshKey]);
+
+  const hasFilters = query !== '' || diets.length > 0 || freeOf.length > 0;
+  const chipClass = (active: boolean) =>
+    `px-3 py-1 rounded-full text-xs font-semibold transition ${active ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+  const handleDelete = async (recipe: SavedRecipe) => {
+    if (!window.confirm(`Delete "${recipe.title}" from your library?`)) return;
+    try {
+      await deleteRecipe(recipe.id);
+      setRecipes(current => current.filter(item => item.id !== recipe.id));
+      if (recipe.id === selectedId) onSelect(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete recipe.');
+    }
+  };
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <div className="flex flex-col">
+        <label htmlFor="librarySearch" className="mb-2 font-semibold text-gray-300">Search saved recipes</label>
+        <input
+          id="librarySearch"
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by title or ingredient..."
+          className="w-full p-3 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-400">Diet:</span>
+        {(Object.keys(DIET_LABELS) as Diet[]).map(diet => (
+          <button key={diet} onClick={() => setDiets(current => toggle(current, diet))} className={chipClass(diets.includes(diet))}>
+            {DIET_LABELS[diet]}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-400">Free of:</span>
+        {(Object.keys(ALLERGEN_LABELS) as Allergen[]).map(allergen => (
+          <button key={allergen} onClick={() => setFreeOf(current => toggle(current, allergen))} className={chipClass(freeOf.includes(allergen))}>
+            {ALLERGEN_LABELS[allergen]}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-red-400 whitespace-pre-wrap">{error}</p>}
+
+      {isLoading && recipes.length === 0 ? (
+        <div className="flex justify-center py-6">
+          <Loader />
+        </div>
+      ) : recipes.length === 0 ? (
+        <p className="text-gray-500 text-center py-6">
+          {hasFilters ? 'No saved recipes match your search.' : 'Saved recipes will appear here.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-700">
+          {recipes.map(recipe => (
+            <li key={recipe.id} className="flex items-center gap-3 py-3">
+              <button
+                onClick={() => onSelect(recipe)}
+                className={`flex-grow text-left rounded-lg px-3 py-2 transition ${recipe.id === selectedId ? 'bg-indigo-600/30' : 'hover:bg-gray-700'}`}
+              >
+                <span className="block font-semibold text-gray-100">{recipe.title}</span>
+                <span className="block text-sm text-gray-400">
+                  {recipe.host || 'Uploaded'} · {recipe.ingredients.length} ingredients · saved {new Date(recipe.created_at).toLocaleDateString()}
+                </span>
+              </button>
+              <button
+                onClick={() => handleDelete(recipe)}
+                className="text-sm text-red-400 hover:text-red-300 transition-colors"
+                aria-label={`Delete ${recipe.title}`}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RecipeLibrary;
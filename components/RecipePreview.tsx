@@ -0,0 +1,34 @@
+import React from 'react';
+import { AnalysisProgress } from '../services/geminiService';
+
+interface RecipePreviewProps {
+  partial: NonNullable<AnalysisProgress['partial']>;
+}
+
+// Shows the fields of a recipe that have streamed in so far, before post-processing finishes.
+const RecipePreview: React.FC<RecipePreviewProps> = ({ partial }) => (
+  <div className="opacity-80">
+    {partial.title && <h3 className="text-3xl font-bold text-purple-300 mt-0">{partial.title}</h3>}
+    {partial.description && <p className="text-gray-300 italic mt-2">{partial.description}</p>}
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 mt-6">
+      {partial.ingredients && partial.ingredients.length > 0 && (
+        <div>
+          <h4 className="text-xl font-bold text-indigo-300 mb-2">Ingredients</h4>
+          <ul className="list-disc list-inside text-gray-300 space-y-1">
+            {partial.ingredients.map((item, index) => <li key={index}>{item}</li>)}
+          </ul>
+        </div>
+      )}
+      {partial.instructions && partial.instructions.length > 0 && (
+        <div>
+          <h4 className="text-xl font-bold text-indigo-300 mb-2">Instructions</h4>
+          <ol className="list-decimal list-inside text-gray-300 space-y-2">
+            {partial.instructions.map((item, index) => <li key={index}>{item}</li>)}
+          </ol>
+        </div>
+      )}
+    </div>
+  </div>
+);
+
+export default RecipePreview;
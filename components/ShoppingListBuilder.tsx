@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { listRecipes, SavedRecipe } from '../services/libraryService';
+import { buildShoppingList, ShoppingList } from '../services/shoppingListService';
+import Loader from './Loader';
+
+interface ShoppingListBuilderProps {
+  onBuilt: (list: ShoppingList) => void;
+  // Bumped by the parent whenever the library changes elsewhere, e.g. after a save.
+  refreshKey: number;
+}
+
+// Picks saved recipes to combine into a shopping list.
+const ShoppingListBuilder: React.FC<ShoppingListBuilderProps> = ({ onBuilt, refreshKey }) => {
+  const [recipes, setRecipes] = useState<SavedRecipe[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isBuilding, setIsBuilding] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    listRecipes()
+      .then(results => {
+        if (cancelled) return;
+        setRecipes(results);
+        // Drop selections of recipes that were deleted in the meantime.
+        setSelected(current => current.filter(id => results.some(recipe => recipe.id === id)));
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load recipes.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const toggle = (id: string) =>
+    setSelected(current => (current.includes(id) ? current.filter(existing => existing !== id) : [...current, id]));
+
+  const handleBuild = async () => {
+    setIsBuilding(true);
+    setError(null);
+    try {
+      onBuilt(await buildShoppingList(selected));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to build shopping list.');
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-200">Recipes</h2>
+        {recipes.length > 0 && (
+          <button
+            onClick={() => setSelected(selected.length === recipes.length ? [] : recipes.map(recipe => recipe.id))}
+            className="text-sm text-indigo-400 hover:text-indigo-300 transition-colors"
+          >
+            {selected.length === recipes.length ? 'Select none' : 'Select all'}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-red-400 whitespace-pre-wrap">{error}</p>}
+
+      {isLoading && recipes.length === 0 ? (
+        <div className="flex justify-center py-6">
+          <Loader />
+        </div>
+      ) : recipes.length === 0 ? (
+        <p className="text-gray-500 text-center py-6">Save some recipes to your library to build a shopping list.</p>
+      ) : (
+        <ul className="divide-y divide-gray-700">
+          {recipes.map(recipe => (
+            <li key={recipe.id}>
+              <label className="flex items-center gap-3 py-3 px-3 rounded-lg hover:bg-gray-700 cursor-pointer transition">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(recipe.id)}
+                  onChange={() => toggle(recipe.id)}
+                  className="w-4 h-4 accent-indigo-500"
+                />
+                <span className="flex-grow">
+                  <span className="block font-semibold text-gray-100">{recipe.title}</span>
+                  <span className="block text-sm text-gray-400">{recipe.ingredients.length} ingredients</span>
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        onClick={handleBuild}
+        disabled={selected.length === 0 || isBuilding}
+        className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-purple-500 to-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-opacity duration-200"
+      >
+        {isBuilding ? 'Building...' : `Build shopping list${selected.length > 0 ? ` (${selected.length})` : ''}`}
+      </button>
+    </div>
+  );
+};
+
+export default ShoppingListBuilder;
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { ShoppingList } from '../services/shoppingListService';
+import { saveBlob } from '../services/exportService';
+import { AISLE_LABELS, formatAmounts, shoppingListToCsv, shoppingListToText } from '../utils/shoppingList';
+
+interface ShoppingListViewProps {
+  list: ShoppingList;
+}
+
+// Checked items are remembered by item key, so they stay checked when the list is rebuilt.
+const CHECKED_STORAGE_KEY = 'shoppingList.checked';
+
+const loadChecked = (): Set<string> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CHECKED_STORAGE_KEY) ?? '[]');
+    return new Set(Array.isArray(stored) ? stored : []);
+  } catch (err) {
+    return new Set();
+  }
+};
+
+const ShoppingListView: React.FC<ShoppingListViewProps> = ({ list }) => {
+  const [checked, setChecked] = useState<Set<string>>(loadChecked);
+
+  useEffect(() => {
+    localStorage.setItem(CHECKED_STORAGE_KEY, JSON.stringify([...checked]));
+  }, [checked]);
+
+  const toggle = (key: string) => setChecked(current => {
+    const next = new Set(current);
+    if (!next.delete(key)) next.add(key);
+    return next;
+  });
+
+  const download = (format: 'text' | 'csv') => {
+    const content = format === 'csv' ? shoppingListToCsv(list, checked) : shoppingListToText(list, checked);
+    const type = format === 'csv' ? 'text/csv' : 'text/plain';
+    saveBlob(new Blob([content], { type: `${type};charset=utf-8` }), `shopping-list.${format === 'csv' ? 'csv' : 'txt'}`);
+  };
+
+  const itemCount = list.aisles.reduce((count, group) => count + group.items.length, 0);
+  const checkedCount = list.aisles.reduce((count, group) => count + group.items.filter(item => checked.has(item.key)).length, 0);
+
+  return (
+    <div>
+      <p className="text-sm text-gray-400">
+        {itemCount} items from {list.recipes.join(', ')} · {checkedCount} checked
+      </p>
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-semibold text-indigo-400">Download:</span>
+        <button onClick={() => download('text')} className="px-3 py-1 rounded bg-gray-700 text-gray-300 hover:bg-gray-600 transition">
+          Plain text
+        </button>
+        <button onClick={() => download('csv')} className="px-3 py-1 rounded bg-gray-700 text-gray-300 hover:bg-gray-600 transition">
+          CSV
+        </button>
+        {checkedCount > 0 && (
+          <button onClick={() => setChecked(new Set())} className="ml-auto text-indigo-400 hover:text-indigo-300 transition-colors">
+            Uncheck all
+          </button>
+        )}
+      </div>
+
+      {list.aisles.map(({ aisle, items }) => (
+        <section key={aisle} className="mt-6">
+          <h4 className="text-xl font-bold text-indigo-300 mb-2">{AISLE_LABELS[aisle]}</h4>
+          <ul className="space-y-1">
+            {items.map(item => {
+              const isChecked = checked.has(item.key);
+              const amounts = formatAmounts(item);
+              const recipeCount = new Set(item.sources.map(source => source.recipe)).size;
+              return (
+                <li key={item.key}>
+                  <label
+                    className="flex items-start gap-3 py-1 cursor-pointer"
+                    title={item.sources.map(source => `${source.recipe}: ${source.ingredient}`).join('\n')}
+                  >
+                    <input type="checkbox" checked={isChecked} onChange={() => toggle(item.key)} className="mt-1 w-4 h-4 accent-indigo-500" />
+                    <span className={isChecked ? 'line-through text-gray-500' : 'text-gray-300'}>
+                      {amounts && <span className="font-semibold">{amounts} </span>}
+                      {item.name}
+                      {recipeCount > 1 && <span className="text-gray-500 text-sm"> ({recipeCount} recipes)</span>}
+                    </span>
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default ShoppingListView;
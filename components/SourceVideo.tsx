@@ -0,0 +1,47 @@
+import React from 'react';
+import { VideoDetails } from '../services/geminiService';
+import { videoEmbedUrl } from '../utils/video';
+
+interface SourceVideoProps {
+  video: VideoDetails;
+  url: string;
+  title: string;
+  playerRef?: React.Ref<HTMLIFrameElement>;
+}
+
+// Shows the video a recipe came from: an embedded player where the platform allows it,
+// otherwise the thumbnail linking out to the video.
+const SourceVideo: React.FC<SourceVideoProps> = ({ video, url, title, playerRef }) => {
+  const embedUrl = videoEmbedUrl(url, video.platform);
+  // TikTok's player is portrait; the others are landscape.
+  const aspect = video.platform === 'tiktok' ? 'aspect-[9/16] max-w-xs' : 'aspect-video';
+
+  return (
+    <figure className="mb-4">
+      {embedUrl ? (
+        <iframe
+          ref={playerRef}
+          src={embedUrl}
+          title={title}
+          className={`w-full ${aspect} mx-auto rounded-lg shadow-md`}
+          allow="autoplay; encrypted-media; fullscreen; picture-in-picture"
+          allowFullScreen
+        />
+      ) : video.thumbnail_url ? (
+        <a href={url} target="_blank" rel="noopener noreferrer">
+          <img
+            src={video.thumbnail_url}
+            alt={title}
+            className="w-full h-auto max-h-96 rounded-lg shadow-md object-cover"
+            loading="lazy"
+          />
+        </a>
+      ) : null}
+      {video.author_name && (
+        <figcaption className="text-sm text-gray-400 mt-2 text-center">Video by {video.author_name}</figcaption>
+      )}
+    </figure>
+  );
+};
+
+export default SourceVideo;
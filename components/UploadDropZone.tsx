@@ -0,0 +1,57 @@
+import React, { useRef, useState } from 'react';
+import { UPLOAD_ACCEPT } from '../services/geminiService';
+
+interface UploadDropZoneProps {
+  onFile: (file: File) => void;
+  disabled?: boolean;
+}
+
+// Accepts a cooking video or caption file by drag and drop or from a file picker.
+const UploadDropZone: React.FC<UploadDropZoneProps> = ({ onFile, disabled }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const file = event.dataTransfer.files[0];
+    if (file && !disabled) onFile(file);
+  };
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so choosing the same file again still triggers a change.
+    event.target.value = '';
+    if (file) onFile(file);
+  };
+
+  return (
+    <div
+      role="button"
+      tabIndex={disabled ? -1 : 0}
+      onClick={() => !disabled && inputRef.current?.click()}
+      onKeyDown={(event) => {
+        if (!disabled && (event.key === 'Enter' || event.key === ' ')) inputRef.current?.click();
+      }}
+      onDragOver={(event) => {
+        event.preventDefault();
+        if (!disabled) setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={`flex flex-col items-center justify-center p-6 border-2 border-dashed rounded-lg text-center transition ${
+        disabled
+          ? 'border-gray-700 text-gray-600 cursor-not-allowed'
+          : isDragging
+            ? 'border-indigo-400 bg-indigo-900/20 text-indigo-200 cursor-pointer'
+            : 'border-gray-600 text-gray-400 hover:border-indigo-500 cursor-pointer'
+      }`}
+    >
+      <p className="font-semibold">Drop a video or caption file here</p>
+      <p className="text-sm mt-1">or click to choose one. Videos, .srt, .vtt and .txt transcripts are supported.</p>
+      <input ref={inputRef} type="file" accept={UPLOAD_ACCEPT} onChange={handleChange} className="hidden" disabled={disabled} />
+    </div>
+  );
+};
+
+export default UploadDropZone;
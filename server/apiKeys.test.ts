@@ -0,0 +1,61 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { consumeRequest, createApiKey, findApiKey, getUsage, isAuthEnabled } from './apiKeys';
+
+type ApiKeys = typeof import('./apiKeys');
+
+describe('apiKeys', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'api-keys-'));
+    vi.stubEnv('API_KEYS_PATH', path.join(dir, 'keys.json'));
+    vi.stubEnv('API_USAGE_PATH', path.join(dir, 'usage.json'));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('finds keys by their secret and enforces the daily quota', async () => {
+    expect(await isAuthEnabled()).toBe(false);
+    const { key, record } = await createApiKey({ name: 'partner', dailyQuota: 2, ratePerMinute: 0 });
+    expect(await isAuthEnabled()).toBe(true);
+    expect(await findApiKey(key)).toEqual(record);
+    expect(await findApiKey(`${key}x`)).toBeNull();
+
+    expect(await consumeRequest(record)).toBeNull();
+    expect(await consumeRequest(record, 2)).toMatchObject({ reason: 'quota' });
+    expect(await consumeRequest(record)).toBeNull();
+    expect(await getUsage(record)).toEqual([expect.objectContaining({ used_today: 2, remaining_today: 0 })]);
+  });
+
+  it('enforces the rate limit', async () => {
+    const { record } = await createApiKey({ name: 'burst', dailyQuota: 0, ratePerMinute: 1 });
+    expect(await consumeRequest(record)).toBeNull();
+    expect(await consumeRequest(record)).toMatchObject({ reason: 'rate_limit', retryAfterSeconds: expect.any(Number) });
+  });
+
+  it('keeps counting requests after a usage write fails', async () => {
+    const { record } = await createApiKey({ name: 'flaky disk', dailyQuota: 0, ratePerMinute: 0 });
+    vi.spyOn(fs, 'rename').mockRejectedValueOnce(Object.assign(new Error('Permission denied'), { code: 'EACCES' }));
+
+    await expect(consumeRequest(record)).rejects.toThrow('Permission denied');
+    expect(await consumeRequest(record)).toBeNull();
+    expect(await getUsage(record)).toEqual([expect.objectContaining({ total: 1 })]);
+  });
+
+  it('counts every request when the first ones arrive together', async () => {
+    // A fresh module, so usage has not been read yet.
+    vi.resetModules();
+    const fresh: ApiKeys = await import('./apiKeys');
+    const { record } = await fresh.createApiKey({ name: 'cold start', dailyQuota: 0, ratePerMinute: 0 });
+    await Promise.all([fresh.consumeRequest(record), fresh.consumeRequest(record), fresh.consumeRequest(record)]);
+    const onDisk = JSON.parse(await fs.readFile(path.join(dir, 'usage.json'), 'utf8'));
+    expect(onDisk[record.id]).toMatchObject({ used_today: 3, total: 3 });
+  });
+});
@@ -0,0 +1,222 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  // SHA-256 of the key. The key itself is only shown once, when it is created.
+  key_hash: string;
+  // Analyses allowed per UTC day; 0 means unlimited.
+  daily_quota: number;
+  // Analysis requests allowed per minute; 0 means unlimited.
+  rate_per_minute: number;
+  // Admin keys can see every key's usage.
+  admin?: boolean;
+  // Public keys ship inside the browser app, where anyone can read them, so they get tight
+  // limits and are never admin keys. Only they are accepted in a query string.
+  public?: boolean;
+  created_at: string;
+}
+
+interface UsageRecord {
+  date: string;
+  used_today: number;
+  total: number;
+  last_used_at: string | null;
+}
+
+export interface KeyUsage {
+  id: string;
+  name: string;
+  daily_quota: number;
+  rate_per_minute: number;
+  used_today: number;
+  remaining_today: number | null;
+  requests_last_minute: number;
+  total: number;
+  last_used_at: string | null;
+}
+
+export interface LimitExceeded {
+  reason: 'rate_limit' | 'quota';
+  retryAfterSeconds: number;
+  message: string;
+}
+
+// Read lazily so values loaded by dotenv after import are respected.
+const keysPath = () => process.env.API_KEYS_PATH || path.join(__dirname, 'data', 'api-keys.json');
+const usagePath = () => process.env.API_USAGE_PATH || path.join(__dirname, 'data', 'api-usage.json');
+
+let keys: ApiKeyRecord[] = [];
+// The key file is re-read whenever it changes, so new keys work without a restart.
+let keysModifiedAt = -1;
+// Usage is read once; concurrent first requests share the read so no count is lost.
+let loadingUsage: Promise<Record<string, UsageRecord>> | null = null;
+// Timestamps of each key's analysis requests during the last minute.
+const recentRequests = new Map<string, number[]>();
+
+const hashKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+const loadKeys = async (): Promise<ApiKeyRecord[]> => {
+  let modifiedAt = 0;
+  try {
+    modifiedAt = (await fs.stat(keysPath())).mtimeMs;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+  if (modifiedAt !== keysModifiedAt) {
+    keys = await readJsonFile<ApiKeyRecord[]>(keysPath(), []);
+    keysModifiedAt = modifiedAt;
+  }
+  return keys;
+};
+
+const loadUsage = (): Promise<Record<string, UsageRecord>> => {
+  loadingUsage ??= readJsonFile<Record<string, UsageRecord>>(usagePath(), {}).catch(error => {
+    loadingUsage = null;
+    throw error;
+  });
+  return loadingUsage;
+};
+
+// Authentication is only enforced once at least one key exists, so a fresh checkout
+// keeps working locally.
+export const isAuthEnabled = async (): Promise<boolean> => (await loadKeys()).length > 0;
+
+export const findApiKey = async (key: string): Promise<ApiKeyRecord | null> => {
+  const hash = Buffer.from(hashKey(key), 'hex');
+  const all = await loadKeys();
+  return all.find(record => {
+    const candidate = Buffer.from(record.key_hash, 'hex');
+    return candidate.length === hash.length && timingSafeEqual(candidate, hash);
+  }) ?? null;
+};
+
+export interface NewApiKey {
+  name: string;
+  dailyQuota: number;
+  ratePerMinute: number;
+  admin?: boolean;
+  public?: boolean;
+}
+
+// Adds a key to the store and returns it. This is the only time the key is available.
+export const createApiKey = async ({ name, dailyQuota, ratePerMinute, admin, public: isPublic }: NewApiKey) => {
+  if (admin && isPublic) throw new Error('A public key cannot be an admin key');
+  const all = await loadKeys();
+  const key = `rk_${randomBytes(24).toString('base64url')}`;
+  const record: ApiKeyRecord = {
+    id: randomBytes(6).toString('hex'),
+    name,
+    key_hash: hashKey(key),
+    daily_quota: dailyQuota,
+    rate_per_minute: ratePerMinute,
+    ...(admin ? { admin: true } : {}),
+    ...(isPublic ? { public: true } : {}),
+    created_at: new Date().toISOString(),
+  };
+  keys = [...all, record];
+  try {
+    await writeJsonFile(keysPath(), keys);
+  } catch (error) {
+    // Read the key file again on next use rather than keep a key that was never saved.
+    keysModifiedAt = -1;
+    throw error;
+  }
+  return { key, record };
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const secondsUntilTomorrow = () => {
+  const midnight = new Date();
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - Date.now()) / 1000);
+};
+
+// Requests from the last minute, pruning older ones.
+const requestsInLastMinute = (id: string, now = Date.now()): number[] => {
+  const recent = (recentRequests.get(id) ?? []).filter(time => time > now - 60000);
+  recentRequests.set(id, recent);
+  return recent;
+};
+
+const usageFor = (all: Record<string, UsageRecord>, id: string): UsageRecord => {
+  const record = all[id] ?? { date: today(), used_today: 0, total: 0, last_used_at: null };
+  // Daily counts reset at midnight UTC.
+  if (record.date !== today()) {
+    record.date = today();
+    record.used_today = 0;
+  }
+  all[id] = record;
+  return record;
+};
+
+// Counts one analysis request of `cost` analyses against the key's limits, or reports
+// which limit it would exceed. A batch costs one analysis per URL. Returns null when allowed.
+export const consumeRequest = async (key: ApiKeyRecord, cost = 1): Promise<LimitExceeded | null> => {
+  const all = await loadUsage();
+  // Nothing below awaits until the request is recorded, so concurrent requests cannot both slip through.
+  const now = Date.now();
+  const recent = requestsInLastMinute(key.id, now);
+  if (key.rate_per_minute > 0 && recent.length >= key.rate_per_minute) {
+    const retryAfterSeconds = Math.max(1, Math.ceil((recent[0] + 60000 - now) / 1000));
+    return {
+      reason: 'rate_limit',
+      retryAfterSeconds,
+      message: `Rate limit of ${key.rate_per_minute} requests per minute exceeded. Try again in ${retryAfterSeconds} seconds.`,
+    };
+  }
+
+  const record = usageFor(all, key.id);
+  if (key.daily_quota > 0 && record.used_today + cost > key.daily_quota) {
+    const remaining = key.daily_quota - record.used_today;
+    return {
+      reason: 'quota',
+      retryAfterSeconds: secondsUntilTomorrow(),
+      message: `Daily quota of ${key.daily_quota} analyses exceeded (${remaining} remaining today). The quota resets at midnight UTC.`,
+    };
+  }
+
+  const lastUsedAt = record.last_used_at;
+  recent.push(now);
+  record.used_today += cost;
+  record.total += cost;
+  record.last_used_at = new Date(now).toISOString();
+  try {
+    await writeJsonFile(usagePath(), all);
+  } catch (error) {
+    // The failed request is not counted, and is taken out before any queued write saves the counts.
+    const requests = recentRequests.get(key.id) ?? [];
+    if (requests.includes(now)) requests.splice(requests.indexOf(now), 1);
+    record.used_today = Math.max(0, record.used_today - cost);
+    record.total -= cost;
+    if (record.last_used_at === new Date(now).toISOString()) record.last_used_at = lastUsedAt;
+    throw error;
+  }
+  return null;
+};
+
+const describeUsage = (key: ApiKeyRecord, all: Record<string, UsageRecord>): KeyUsage => {
+  const record = usageFor(all, key.id);
+  return {
+    id: key.id,
+    name: key.name,
+    daily_quota: key.daily_quota,
+    rate_per_minute: key.rate_per_minute,
+    used_today: record.used_today,
+    remaining_today: key.daily_quota > 0 ? Math.max(0, key.daily_quota - record.used_today) : null,
+    requests_last_minute: requestsInLastMinute(key.id).length,
+    total: record.total,
+    last_used_at: record.last_used_at,
+  };
+};
+
+// Usage of one key, or of every key for admins.
+export const getUsage = async (key: ApiKeyRecord): Promise<KeyUsage[]> => {
+  const all = await loadUsage();
+  const visible = key.admin ? await loadKeys() : [key];
+  return visible.map(record => describeUsage(record, all));
+};
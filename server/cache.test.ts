@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTtlCache } from './cache';
+
+describe('createTtlCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('expires entries after the TTL', () => {
+    const cache = createTtlCache<string>({ ttlMs: 1000, maxEntries: 10 });
+    cache.set('a', 'apple');
+    vi.advanceTimersByTime(999);
+    expect(cache.get('a')).toBe('apple');
+    vi.advanceTimersByTime(1);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('evicts the oldest entry when full', () => {
+    const cache = createTtlCache<string>({ ttlMs: 1000, maxEntries: 2 });
+    cache.set('a', 'apple');
+    cache.set('b', 'banana');
+    cache.set('a', 'apricot');
+    cache.set('c', 'cherry');
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe('apricot');
+    expect(cache.get('c')).toBe('cherry');
+  });
+
+  it('computes once, then serves the cached value until it expires', async () => {
+    const cache = createTtlCache<string>({ ttlMs: 1000, maxEntries: 10 });
+    const compute = vi.fn(async () => 'value');
+    expect(await cache.getOrCompute('key', compute)).toEqual({ value: 'value', cacheHit: false });
+    expect(await cache.getOrCompute('key', compute)).toEqual({ value: 'value', cacheHit: true });
+    expect(await cache.getOrCompute('key', compute, true)).toEqual({ value: 'value', cacheHit: false });
+    vi.advanceTimersByTime(1000);
+    expect(await cache.getOrCompute('key', compute)).toEqual({ value: 'value', cacheHit: false });
+    expect(compute).toHaveBeenCalledTimes(3);
+  });
+
+  it('shares an in-flight computation between concurrent lookups, even when refreshing', async () => {
+    const cache = createTtlCache<string>({ ttlMs: 1000, maxEntries: 10 });
+    let finish: (value: string) => void = () => {};
+    const compute = vi.fn(() => new Promise<string>(resolve => { finish = resolve; }));
+
+    const first = cache.getOrCompute('key', compute);
+    const second = cache.getOrCompute('key', compute);
+    const refreshed = cache.getOrCompute('key', compute, true);
+    finish('value');
+    expect(await Promise.all([first, second, refreshed])).toEqual([
+      { value: 'value', cacheHit: false },
+      { value: 'value', cacheHit: true },
+      { value: 'value', cacheHit: true },
+    ]);
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops a failed computation so the next lookup tries again', async () => {
+    const cache = createTtlCache<string>({ ttlMs: 1000, maxEntries: 10 });
+    let fail: (error: Error) => void = () => {};
+    const failing = vi.fn(() => new Promise<string>((resolve, reject) => { fail = reject; }));
+
+    const first = cache.getOrCompute('key', failing);
+    const waiting = cache.getOrCompute('key', failing);
+    fail(new Error('Model unavailable'));
+    await expect(first).rejects.toThrow('Model unavailable');
+    await expect(waiting).rejects.toThrow('Model unavailable');
+    expect(cache.get('key')).toBeUndefined();
+
+    expect(await cache.getOrCompute('key', async () => 'value')).toEqual({ value: 'value', cacheHit: false });
+    expect(failing).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,67 @@
+export interface CacheLookup<T> {
+  value: T;
+  // True when the value came from the cache or from another request's in-flight call.
+  cacheHit: boolean;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export interface TtlCacheOptions {
+  ttlMs: number;
+  maxEntries: number;
+}
+
+// An in-memory cache with per-entry expiry. Concurrent lookups for the same key
+// share a single pending computation instead of starting their own.
+export const createTtlCache = <T>({ ttlMs, maxEntries }: TtlCacheOptions) => {
+  const entries = new Map<string, CacheEntry<T>>();
+  const inFlight = new Map<string, Promise<T>>();
+
+  const get = (key: string): T | undefined => {
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  };
+
+  const set = (key: string, value: T) => {
+    entries.delete(key);
+    // Maps iterate in insertion order, so the first key is the oldest entry.
+    while (entries.size >= maxEntries) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) break;
+      entries.delete(oldest);
+    }
+    entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  };
+
+  // Returns the cached value for `key`, or runs `compute` once and caches its result.
+  // With `refresh`, the cached value is ignored, but an in-flight call is still shared.
+  const getOrCompute = async (key: string, compute: () => Promise<T>, refresh = false): Promise<CacheLookup<T>> => {
+    const pending = inFlight.get(key);
+    if (pending) return { value: await pending, cacheHit: true };
+
+    if (!refresh) {
+      const cached = get(key);
+      if (cached !== undefined) return { value: cached, cacheHit: true };
+    }
+
+    const promise = compute();
+    inFlight.set(key, promise);
+    try {
+      const value = await promise;
+      set(key, value);
+      return { value, cacheHit: false };
+    } finally {
+      inFlight.delete(key);
+    }
+  };
+
+  return { get, set, getOrCompute, delete: (key: string) => entries.delete(key) };
+};
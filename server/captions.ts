@@ -0,0 +1,46 @@
+import { parseTimestamp } from './durations';
+
+// Formats seconds as "m:ss", or "h:mm:ss" past an hour, the form the model is asked to report.
+const formatTimestamp = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+// Cue text without VTT voice/styling tags, SRT positioning codes or HTML entities.
+const cleanCueText = (lines: string[]) => lines
+  .join(' ')
+  .replace(/<[^>]*>/g, '')
+  .replace(/\{\\[^}]*\}/g, '')
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&amp;/g, '&')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// Turns an SRT or WebVTT file into one "[m:ss] text" line per cue, so the model can report
+// step timestamps. Text without cue timings, such as pasted captions, is returned with its
+// blank lines removed. Repeated cues, common in auto-generated captions, are dropped.
+export const parseCaptions = (input: string): string => {
+  const text = input.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  if (!text.includes('-->')) {
+    return text.split('\n').map(line => line.trim()).filter(Boolean).join('\n');
+  }
+
+  const lines: string[] = [];
+  let previous = '';
+  for (const block of text.split(/\n\s*\n/)) {
+    const blockLines = block.split('\n').map(line => line.trim()).filter(Boolean);
+    const timingIndex = blockLines.findIndex(line => line.includes('-->'));
+    // Headers, NOTE, STYLE and REGION blocks carry no timing line.
+    if (timingIndex === -1) continue;
+    const start = parseTimestamp(blockLines[timingIndex].split('-->')[0].replace(',', '.'));
+    const cue = cleanCueText(blockLines.slice(timingIndex + 1));
+    if (!cue || cue === previous) continue;
+    previous = cue;
+    lines.push(start !== null ? `[${formatTimestamp(start)}] ${cue}` : cue);
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,43 @@
+// Creates an API key for a partner app:
+//   npm run create-key -- "Partner name" [--quota 500] [--rate 10] [--admin | --public]
+// --quota is analyses per UTC day and --rate is analysis requests per minute; 0 means unlimited.
+// --public marks the key the browser app is built with, which anyone can read from its bundle.
+import { config } from 'dotenv';
+import { createApiKey } from './apiKeys';
+
+config();
+
+const args = process.argv.slice(2);
+
+const option = (name: string, fallback: number): number => {
+  const index = args.indexOf(`--${name}`);
+  if (index === -1) return fallback;
+  const value = Number(args[index + 1]);
+  if (!Number.isInteger(value) || value < 0) {
+    console.error(`--${name} must be a non-negative integer`);
+    process.exit(1);
+  }
+  args.splice(index, 2);
+  return value;
+};
+
+const dailyQuota = option('quota', 500);
+const ratePerMinute = option('rate', 10);
+const admin = args.includes('--admin');
+const isPublic = args.includes('--public');
+const name = args.filter(arg => arg !== '--admin' && arg !== '--public').join(' ').trim();
+
+if (!name || (admin && isPublic)) {
+  console.error('Usage: npm run create-key -- "Partner name" [--quota 500] [--rate 10] [--admin | --public]');
+  process.exit(1);
+}
+
+createApiKey({ name, dailyQuota, ratePerMinute, admin, public: isPublic })
+  .then(({ key, record }) => {
+    console.log(`Created key ${record.id} for ${record.name}.`);
+    console.log(`API key (shown only once): ${key}`);
+  })
+  .catch(error => {
+    console.error('Failed to create API key:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { classifyDietary, Diet } from './dietary';
+
+const allergensOf = (ingredients: string[]) => classifyDietary(ingredients).allergens.map(({ allergen }) => allergen);
+
+const isCompatible = (ingredients: string[], diet: Diet) =>
+  classifyDietary(ingredients).diets.find(result => result.diet === diet)!.compatible;
+
+describe('classifyDietary', () => {
+  it('flags allergens by whole word and plural', () => {
+    expect(allergensOf(['2 eggs', '1 cup whole milk', '100 g walnuts, chopped'])).toEqual(['nuts', 'dairy', 'egg']);
+    expect(allergensOf(['1 tsp nutmeg', '1 eggplant'])).toEqual([]);
+  });
+
+  it('skips look-alikes listed as exclusions', () => {
+    expect(allergensOf(['2 tbsp peanut butter'])).toEqual(['nuts']);
+    expect(allergensOf(['1 can coconut milk', '200 g oyster mushrooms'])).toEqual([]);
+  });
+
+  it('does not count "-free" foods as the allergen they are free of', () => {
+    const ingredients = ['2 cups gluten-free flour', '1 cup dairy-free milk', '3 tbsp egg-free mayo'];
+    expect(allergensOf(ingredients)).toEqual([]);
+    expect(isCompatible(ingredients, 'vegan')).toBe(true);
+  });
+
+  it('still counts an alternative offered after a "-free" food', () => {
+    expect(allergensOf(['1 cup dairy-free or whole milk'])).toEqual(['dairy']);
+  });
+
+  it('rules out diets by meat, animal products and carbs', () => {
+    expect(isCompatible(['1 lb chicken thighs'], 'vegetarian')).toBe(false);
+    expect(isCompatible(['200 g vegan sausage'], 'vegetarian')).toBe(true);
+    expect(isCompatible(['1 tbsp honey'], 'vegan')).toBe(false);
+    expect(isCompatible(['2 cups rice'], 'keto')).toBe(false);
+    expect(isCompatible(['1 tbsp rice vinegar'], 'keto')).toBe(true);
+  });
+
+  it('lists the lines that rule a diet out', () => {
+    const result = classifyDietary(['2 eggs', '1 tbsp honey']).diets.find(({ diet }) => diet === 'vegan');
+    expect(result?.ingredients).toEqual(['2 eggs', '1 tbsp honey']);
+  });
+});
@@ -0,0 +1,218 @@
+import { readFileSync } from 'fs';
+import { log } from './logger';
+
+export const ALLERGENS = ['nuts', 'gluten', 'dairy', 'egg', 'soy', 'shellfish', 'sesame'] as const;
+export type Allergen = typeof ALLERGENS[number];
+
+export const DIETS = ['vegetarian', 'vegan', 'keto'] as const;
+export type Diet = typeof DIETS[number];
+
+// Keywords match whole words, optionally pluralized. Exclusions are phrases removed from
+// a line before matching, so "peanut butter" does not count as dairy. An exclusion ending in
+// "free" also removes the words after it, up to "or", "and", "with" or "plus", so
+// "gluten-free flour" does not count as gluten but "dairy-free or regular milk" still counts as dairy.
+export interface KeywordRule {
+  keywords: string[];
+  exclude?: string[];
+}
+
+// A diet rule lists what rules the diet out, optionally reusing allergen rules.
+export interface DietRule extends KeywordRule {
+  excludesAllergens?: Allergen[];
+}
+
+export interface DietaryRules {
+  allergens: Record<Allergen, KeywordRule>;
+  diets: Record<Diet, DietRule>;
+}
+
+export interface AllergenWarning {
+  allergen: Allergen;
+  ingredients: string[];
+}
+
+export interface DietResult {
+  diet: Diet;
+  compatible: boolean;
+  // Lines that rule the diet out; empty when compatible.
+  ingredients: string[];
+}
+
+export interface DietaryInfo {
+  allergens: AllergenWarning[];
+  diets: DietResult[];
+}
+
+const MEAT_AND_FISH = [
+  'meat', 'chicken', 'beef', 'pork', 'bacon', 'ham', 'sausage', 'salami', 'pepperoni', 'prosciutto', 'pancetta',
+  'chorizo', 'lamb', 'veal', 'mutton', 'turkey', 'duck', 'goose', 'venison', 'steak', 'mince', 'meatball', 'lard',
+  'gelatin', 'gelatine', 'bone broth', 'fish', 'salmon', 'tuna', 'cod', 'tilapia', 'halibut', 'trout', 'sardine',
+  'mackerel', 'haddock', 'anchovy', 'anchovies', 'fish sauce', 'worcestershire',
+];
+
+// "vegan sausage", "plant-based chicken" and the like are not meat.
+const MEAT_SUBSTITUTES = ['vegan', 'vegetarian', 'veggie', 'plant based', 'meatless', 'meat free', 'soy', 'beyond']
+  .flatMap(marker => MEAT_AND_FISH.map(keyword => `${marker} ${keyword}`))
+  .concat(['coconut meat']);
+
+export const DEFAULT_DIETARY_RULES: DietaryRules = {
+  allergens: {
+    nuts: {
+      keywords: [
+        'nut', 'almond', 'walnut', 'pecan', 'cashew', 'pistachio', 'hazelnut', 'macadamia', 'brazil nut', 'pine nut',
+        'chestnut', 'peanut', 'praline', 'marzipan', 'frangipane', 'nutella', 'gianduja',
+      ],
+      exclude: ['nut free', 'water chestnut', 'nutmeg', 'butternut', 'coconut', 'nutritional yeast'],
+    },
+    gluten: {
+      keywords: [
+        'flour', 'wheat', 'bread', 'breadcrumb', 'panko', 'pasta', 'spaghetti', 'penne', 'macaroni', 'fettuccine',
+        'linguine', 'lasagna', 'lasagne', 'orzo', 'noodle', 'ramen', 'udon', 'couscous', 'barley', 'rye', 'semolina',
+        'bulgur', 'farro', 'spelt', 'seitan', 'malt', 'beer', 'soy sauce', 'tortilla', 'pita', 'cracker', 'crouton',
+        'biscuit', 'cookie', 'cake', 'pastry', 'phyllo', 'filo', 'pie crust', 'graham', 'brioche', 'baguette', 'bun',
+      ],
+      exclude: [
+        'gluten free', 'almond flour', 'coconut flour', 'rice flour', 'cornflour', 'corn flour', 'chickpea flour',
+        'tapioca flour', 'buckwheat flour', 'rice noodle', 'rice noodles', 'corn tortilla', 'corn tortillas',
+        'tamari', 'rice paper',
+      ],
+    },
+    dairy: {
+      keywords: [
+        'milk', 'butter', 'cream', 'cheese', 'yogurt', 'yoghurt', 'ghee', 'whey', 'casein', 'buttermilk', 'kefir',
+        'creme fraiche', 'sour cream', 'mascarpone', 'ricotta', 'mozzarella', 'parmesan', 'parmigiano', 'pecorino',
+        'cheddar', 'feta', 'halloumi', 'paneer', 'brie', 'gruyere', 'custard',
+      ],
+      exclude: [
+        'dairy free', 'peanut butter', 'almond butter', 'cashew butter', 'nut butter', 'cocoa butter', 'apple butter',
+        'coconut milk', 'almond milk', 'oat milk', 'soy milk', 'rice milk', 'cashew milk', 'plant milk',
+        'coconut cream', 'cream of tartar', 'butter bean', 'vegan butter', 'vegan cheese', 'vegan cream cheese', 'ice cream maker',
+      ],
+    },
+    egg: {
+      keywords: ['egg', 'egg yolk', 'egg white', 'mayonnaise', 'mayo', 'meringue', 'aioli', 'hollandaise'],
+      exclude: ['egg free', 'vegan mayo', 'vegan mayonnaise', 'flax egg', 'chia egg'],
+    },
+    soy: {
+      keywords: ['soy', 'soya', 'soybean', 'soy sauce', 'tofu', 'tempeh', 'edamame', 'miso', 'tamari', 'shoyu', 'teriyaki'],
+      exclude: ['soy free'],
+    },
+    shellfish: {
+      keywords: [
+        'shellfish', 'shrimp', 'prawn', 'crab', 'lobster', 'crayfish', 'crawfish', 'langoustine', 'scallop', 'clam',
+        'mussel', 'oyster', 'squid', 'calamari', 'octopus', 'oyster sauce',
+      ],
+      exclude: ['oyster mushroom', 'oyster mushrooms', 'crab apple'],
+    },
+    sesame: {
+      keywords: ['sesame', 'tahini', 'halva', 'halvah', 'gomasio', 'furikake'],
+      exclude: ['sesame free'],
+    },
+  },
+  diets: {
+    vegetarian: {
+      keywords: MEAT_AND_FISH,
+      exclude: MEAT_SUBSTITUTES,
+      excludesAllergens: ['shellfish'],
+    },
+    vegan: {
+      keywords: [...MEAT_AND_FISH, 'honey'],
+      exclude: MEAT_SUBSTITUTES,
+      excludesAllergens: ['shellfish', 'dairy', 'egg'],
+    },
+    keto: {
+      keywords: [
+        'sugar', 'flour', 'rice', 'pasta', 'spaghetti', 'noodle', 'bread', 'breadcrumb', 'panko', 'potato', 'oat',
+        'oatmeal', 'honey', 'maple syrup', 'agave', 'molasses', 'corn', 'cornstarch', 'cornmeal', 'polenta', 'bean',
+        'lentil', 'chickpea', 'quinoa', 'couscous', 'tortilla', 'banana', 'raisin', 'date', 'juice', 'ketchup', 'beer',
+      ],
+      exclude: [
+        'sugar free', 'almond flour', 'coconut flour', 'cauliflower rice', 'green bean', 'green beans', 'rice vinegar',
+        'rice wine vinegar', 'lemon juice', 'lime juice', 'soy bean', 'vanilla bean', 'coffee bean',
+      ],
+    },
+  },
+};
+
+// Lowercases, strips accents and punctuation, and pads with spaces for whole-word matching.
+const normalize = (text: string) =>
+  ` ${text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+const phrasePattern = (phrase: string) => new RegExp(` ${normalize(phrase).trim()}(?:e?s)?(?= )`, 'g');
+
+const exclusionPattern = (phrase: string) => {
+  const words = normalize(phrase).trim();
+  if (!/ free$/.test(words)) return phrasePattern(phrase);
+  return new RegExp(` ${words}(?: (?!(?:or|and|with|plus) )[a-z0-9]+)*(?= )`, 'g');
+};
+
+// The lines of `ingredients` a rule matches.
+const matchRule = (rule: KeywordRule, ingredients: string[]): string[] => {
+  const keywords = rule.keywords.map(phrasePattern);
+  const exclusions = (rule.exclude ?? []).map(exclusionPattern);
+  return ingredients.filter(line => {
+    let text = normalize(line);
+    for (const exclusion of exclusions) text = text.replace(exclusion, ' ');
+    return keywords.some(keyword => {
+      keyword.lastIndex = 0;
+      return keyword.test(text);
+    });
+  });
+};
+
+// Overrides from the JSON file at DIETARY_RULES_PATH replace the default rule they name,
+// e.g. `{ "allergens": { "nuts": { "keywords": [...] } } }`. Read once, on first use.
+let rules: DietaryRules | null = null;
+
+const loadRules = (): DietaryRules => {
+  if (rules) return rules;
+  rules = DEFAULT_DIETARY_RULES;
+  const overridePath = process.env.DIETARY_RULES_PATH;
+  if (!overridePath) return rules;
+  try {
+    const overrides = JSON.parse(readFileSync(overridePath, 'utf8')) as Partial<{
+      allergens: Partial<Record<Allergen, Partial<KeywordRule>>>;
+      diets: Partial<Record<Diet, Partial<DietRule>>>;
+    }>;
+    const merged: DietaryRules = { allergens: { ...rules.allergens }, diets: { ...rules.diets } };
+    for (const allergen of ALLERGENS) {
+      const override = overrides.allergens?.[allergen];
+      if (override) merged.allergens[allergen] = { ...merged.allergens[allergen], ...override };
+    }
+    for (const diet of DIETS) {
+      const override = overrides.diets?.[diet];
+      if (override) merged.diets[diet] = { ...merged.diets[diet], ...override };
+    }
+    rules = merged;
+  } catch (error) {
+    log.warn('Failed to load dietary rules, using the defaults', { path: overridePath, error });
+  }
+  return rules;
+};
+
+// Classifies a recipe's ingredient lines into allergen warnings and diet compatibility.
+// Group headings such as "For the sauce:" should be left out by the caller.
+export const classifyDietary = (ingredients: string[]): DietaryInfo => {
+  const { allergens, diets } = loadRules();
+
+  const allergenMatches = new Map<Allergen, string[]>();
+  for (const allergen of ALLERGENS) {
+    allergenMatches.set(allergen, matchRule(allergens[allergen], ingredients));
+  }
+
+  return {
+    allergens: ALLERGENS
+      .filter(allergen => allergenMatches.get(allergen)!.length > 0)
+      .map(allergen => ({ allergen, ingredients: allergenMatches.get(allergen)! })),
+    diets: DIETS.map(diet => {
+      const rule = diets[diet];
+      const conflicting = new Set([
+        ...matchRule(rule, ingredients),
+        ...(rule.excludesAllergens ?? []).flatMap(allergen => allergenMatches.get(allergen)!),
+      ]);
+      // Keep the recipe's ingredient order.
+      const lines = ingredients.filter(line => conflicting.has(line));
+      return { diet, compatible: lines.length === 0, ingredients: lines };
+    }),
+  };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { parseDuration, parseIsoDuration, parseTimestamp } from './durations';
+
+describe('parseIsoDuration', () => {
+  it('converts ISO-8601 durations to minutes', () => {
+    expect(parseIsoDuration('PT1H15M')).toBe(75);
+    expect(parseIsoDuration('P1DT2H')).toBe(1560);
+    expect(parseIsoDuration('PT90S')).toBe(2);
+  });
+
+  it('rejects text that is not an ISO-8601 duration', () => {
+    expect(parseIsoDuration('PT')).toBeNull();
+    expect(parseIsoDuration('1 hour')).toBeNull();
+  });
+});
+
+describe('parseDuration', () => {
+  it('sums hours and minutes in their common spellings', () => {
+    expect(parseDuration('1 hour 30 minutes')).toEqual({ min: 90, max: 90 });
+    expect(parseDuration('1.5 hours')).toEqual({ min: 90, max: 90 });
+    expect(parseDuration('1h30')).toEqual({ min: 90, max: 90 });
+    expect(parseDuration('PT45M')).toEqual({ min: 45, max: 45 });
+  });
+
+  it('reads spelled-out amounts', () => {
+    expect(parseDuration('half an hour')).toEqual({ min: 30, max: 30 });
+    expect(parseDuration('a quarter of an hour')).toEqual({ min: 15, max: 15 });
+    expect(parseDuration('2 and a half hours')).toEqual({ min: 150, max: 150 });
+  });
+
+  it('takes the unit of a range from its upper half', () => {
+    expect(parseDuration('20-25 min')).toEqual({ min: 20, max: 25 });
+    expect(parseDuration('1-1½ hours')).toEqual({ min: 60, max: 90 });
+    expect(parseDuration('45 minutes to 1 hour')).toEqual({ min: 45, max: 60 });
+  });
+
+  it('returns null without a duration', () => {
+    expect(parseDuration(undefined)).toBeNull();
+    expect(parseDuration('overnight')).toBeNull();
+  });
+});
+
+describe('parseTimestamp', () => {
+  it('reads clock and unit timestamps as seconds', () => {
+    expect(parseTimestamp('1:05')).toBe(65);
+    expect(parseTimestamp('1:02:03')).toBe(3723);
+    expect(parseTimestamp('1m5s')).toBe(65);
+    expect(parseTimestamp('65')).toBe(65);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseTimestamp('soon')).toBeNull();
+    expect(parseTimestamp('')).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { AMOUNT_PATTERN, AmountRange, parseAmount } from './ingredients';
+
+// Parses an ISO-8601 duration such as "PT1H15M" or "P1DT2H" into minutes.
+// Returns null when the text is not an ISO-8601 duration.
+export const parseIsoDuration = (text: string): number | null => {
+  const match = text.trim().match(/^P(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (!match || match[0].length <= 2) return null;
+  const [, weeks, days, hours, minutes, seconds] = match.map(part => (part ? parseFloat(part) : 0));
+  return Math.round(weeks * 10080 + days * 1440 + hours * 60 + minutes + seconds / 60);
+};
+
+const UNIT_MINUTES: [RegExp, number][] = [
+  [/^(?:w|wks?|weeks?)$/, 10080],
+  [/^(?:d|days?)$/, 1440],
+  [/^(?:h|hrs?|hours?)$/, 60],
+  [/^(?:m|mins?|minutes?)$/, 1],
+  [/^(?:s|secs?|seconds?)$/, 1 / 60],
+];
+
+const COMPONENT_REGEX = new RegExp(
+  `(${AMOUNT_PATTERN})\\s*(?:(weeks?|wks?|w|days?|d|hours?|hrs?|h|minutes?|mins?|m|seconds?|secs?|s)(?![a-z]))?`,
+  'gi',
+);
+
+const RANGE_SEPARATOR = /\s*(?:-|–|—|\bto\b|\bor\b)\s*/i;
+
+const unitMinutes = (unit: string): number | null => {
+  const entry = UNIT_MINUTES.find(([pattern]) => pattern.test(unit.toLowerCase()));
+  return entry ? entry[1] : null;
+};
+
+// Spelled-out amounts that commonly appear in recipe times.
+const normalizeWords = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/\bhalf(?: an?|-an?)?[ -]hour\b/g, '30 minutes')
+    .replace(/\b(?:a )?quarter of an hour\b/g, '15 minutes')
+    .replace(/\b(?:an?|one)\s+(?=(?:hour|minute|day|week)\b)/g, '1 ')
+    .replace(/(\d)\s*and a half\s+(hours?|minutes?|days?)/g, '$1.5 $2');
+
+// Sums the components of a single (non-range) duration like "1 hour 30 minutes" or "1h30".
+// Numbers without a unit inherit the next smaller unit after hours ("1h30"),
+// otherwise `fallbackUnit` (e.g. from the other half of a range), otherwise minutes.
+const parseSingleDuration = (text: string, fallbackUnit: number | null): { minutes: number; lastUnit: number | null } | null => {
+  let total = 0;
+  let matched = false;
+  let previousUnit: number | null = null;
+  let lastUnit: number | null = null;
+
+  for (const match of text.matchAll(COMPONENT_REGEX)) {
+    const amount = parseAmount(match[1]);
+    if (amount === null) continue;
+    let factor = match[2] ? unitMinutes(match[2]) : null;
+    if (factor === null) {
+      if (previousUnit === 60) factor = 1;
+      else if (previousUnit === 1440) factor = 60;
+      else factor = fallbackUnit ?? 1;
+    }
+    total += amount * factor;
+    previousUnit = factor;
+    if (match[2]) lastUnit = factor;
+    matched = true;
+  }
+
+  return matched ? { minutes: total, lastUnit } : null;
+};
+
+// Parses durations like "1 hour 30 minutes", "1.5 hours", "20–25 min", "PT45M"
+// or "1-1½ hours" into a range of minutes. Returns null when no duration is found.
+export const parseDuration = (text?: string): AmountRange | null => {
+  if (!text || !text.trim()) return null;
+
+  const isoMinutes = parseIsoDuration(text);
+  if (isoMinutes !== null) return { min: isoMinutes, max: isoMinutes };
+
+  const normalized = normalizeWords(text);
+  const [lowerText, ...rest] = normalized.split(RANGE_SEPARATOR).filter(part => /\d/.test(part));
+  if (!lowerText) return null;
+  const upperText = rest.join(' ');
+
+  // The upper half carries the unit in "20-25 min", so parse it first.
+  const upper = upperText ? parseSingleDuration(upperText, null) : null;
+  const lower = parseSingleDuration(lowerText, upper?.lastUnit ?? null);
+  if (!lower) return null;
+
+  const min = Math.round(lower.minutes);
+  const max = upper ? Math.round(upper.minutes) : min;
+  return { min, max: Math.max(min, max) };
+};
+
+// Parses a video timestamp such as "1:05", "1:02:03", "1m5s" or "65" into seconds.
+// Returns null when the text is not a timestamp.
+export const parseTimestamp = (text?: string): number | null => {
+  if (!text) return null;
+  const trimmed = text.trim().toLowerCase();
+  const clock = trimmed.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:\.\d+)?$/);
+  if (clock) return (clock[1] ? parseInt(clock[1], 10) * 3600 : 0) + parseInt(clock[2], 10) * 60 + parseInt(clock[3], 10);
+  const units = trimmed.match(/^(?:(\d+)\s*h)?\s*(?:(\d+)\s*m)?\s*(?:(\d+(?:\.\d+)?)\s*s?)?$/);
+  if (!units || !trimmed) return null;
+  const [, hours, minutes, seconds] = units;
+  return (hours ? parseInt(hours, 10) * 3600 : 0) + (minutes ? parseInt(minutes, 10) * 60 : 0) + Math.floor(seconds ? parseFloat(seconds) : 0);
+};
@@ -0,0 +1,5 @@
+// Reads a non-negative number from the environment, falling back to a default.
+export const envNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
@@ -0,0 +1,109 @@
+import { gunzipSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { classifyDietary } from './dietary';
+import { exportRecipe } from './exporters';
+import { parseIngredients } from './ingredients';
+import { estimateNutrition } from './nutrition';
+import { RecipeAPIResponseData } from './types';
+
+const INGREDIENTS = ['Batter:', '200 g flour', '2 eggs', 'Topping:', 'maple syrup </script><script>alert(1)</script>'];
+const structured = parseIngredients(INGREDIENTS);
+
+// Recipe text comes from scraped pages and models, so it may contain markup.
+const recipe: RecipeAPIResponseData = {
+  title: 'Pancakes <script>alert("title")</script>',
+  description: 'Fluffy & "light"',
+  prep_time: 15,
+  cook_time: 60,
+  total_time: 75,
+  yields: 4,
+  yields_max: 6,
+  ingredients: structured.map(ingredient => ingredient.raw),
+  structured_ingredients: structured,
+  nutrition: estimateNutrition(structured, 4),
+  dietary: classifyDietary(INGREDIENTS),
+  instructions: ['Whisk everything.', 'Fry until golden </script>'],
+  steps: [],
+  image: 'https://example.com/pancakes.jpg?a=1&b="2"',
+  images: [],
+  video: null,
+  language: 'en',
+  source_language: 'en',
+  url: 'https://example.com/pancakes',
+  host: 'example.com',
+  raw: { prep_time: '15 minutes', cook_time: '1 hour', total_time: null, yields: '4-6' },
+};
+
+const text = (format: Parameters<typeof exportRecipe>[1]) => exportRecipe(recipe, format).body.toString();
+
+describe('exportRecipe', () => {
+  it('names files after the title', () => {
+    expect(exportRecipe(recipe, 'markdown').filename).toBe('pancakes-script-alert-title-script.md');
+    expect(exportRecipe(recipe, 'paprika').filename).toBe('pancakes-script-alert-title-script.paprikarecipe');
+  });
+
+  it('writes Markdown with group headings, numbered steps and the source', () => {
+    const markdown = text('markdown');
+    expect(markdown).toContain('- **Total time:** 1 hr 15 min\n- **Yields:** 4-6 servings');
+    expect(markdown).toContain('### Batter\n\n- 200 g flour\n- 2 eggs');
+    expect(markdown).toContain('1. Whisk everything.\n2. Fry until golden </script>');
+    expect(markdown).toContain(`- Calories: ${recipe.nutrition.per_serving.calories} kcal`);
+    expect(markdown).toContain('Source: [example.com](https://example.com/pancakes)');
+  });
+
+  it('writes schema.org JSON-LD with ISO durations', () => {
+    const jsonLd = JSON.parse(text('jsonld'));
+    expect(jsonLd).toMatchObject({
+      '@type': 'Recipe',
+      name: recipe.title,
+      prepTime: 'PT15M',
+      cookTime: 'PT1H',
+      totalTime: 'PT1H15M',
+      recipeYield: '4-6 servings',
+      recipeIngredient: recipe.ingredients,
+      recipeInstructions: [{ '@type': 'HowToStep', text: 'Whisk everything.' }, { '@type': 'HowToStep', text: 'Fry until golden </script>' }],
+    });
+  });
+
+  it('escapes recipe text in the printable HTML', () => {
+    const html = text('html');
+    // The only script element is the JSON-LD one the exporter writes itself.
+    expect(html.match(/<script/g)).toHaveLength(1);
+    expect(html.match(/<\/script>/g)).toHaveLength(1);
+    expect(html).toContain('<h1>Pancakes &lt;script&gt;alert(&quot;title&quot;)&lt;/script&gt;</h1>');
+    expect(html).toContain('<p><em>Fluffy &amp; &quot;light&quot;</em></p>');
+    expect(html).toContain('<h3>Topping</h3>');
+    expect(html).toContain('<li>Fry until golden &lt;/script&gt;</li>');
+    expect(html).toContain('src="https://example.com/pancakes.jpg?a=1&amp;b=&quot;2&quot;"');
+  });
+
+  it('escapes < in the embedded JSON-LD without changing its data', () => {
+    const html = text('html');
+    const embedded = html.match(/<script type="application\/ld\+json">(.*?)<\/script>/)![1];
+    expect(embedded).not.toContain('<');
+    expect(embedded).toContain('\\u003c/script>');
+    expect(JSON.parse(embedded)).toEqual(JSON.parse(text('jsonld')));
+  });
+
+  it('writes a gzipped Paprika recipe', () => {
+    const file = exportRecipe(recipe, 'paprika');
+    const paprika = JSON.parse(gunzipSync(file.body as Buffer).toString('utf8'));
+    expect(paprika).toMatchObject({
+      name: recipe.title,
+      ingredients: 'Batter:\n200 g flour\n2 eggs\n\nTopping:\nmaple syrup </script><script>alert(1)</script>',
+      directions: 'Whisk everything.\n\nFry until golden </script>',
+      servings: '4-6 servings',
+      cook_time: '1 hr',
+      source_url: recipe.url,
+    });
+  });
+
+  it('writes Mealie ingredients with section titles on the first of each group', () => {
+    const mealie = JSON.parse(text('mealie'));
+    expect(mealie.orgURL).toBe(recipe.url);
+    expect(mealie.recipeServings).toBe(4);
+    expect(mealie.recipeIngredient.map((ingredient: { title: string }) => ingredient.title)).toEqual(['Batter', '', 'Topping']);
+    expect(mealie.recipeIngredient[0]).toMatchObject({ quantity: 200, unit: { name: 'g' }, food: { name: 'flour' }, disableAmount: false });
+    expect(mealie.recipeIngredient[2]).toMatchObject({ quantity: 0, disableAmount: true });
+  });
+});
@@ -0,0 +1,263 @@
+import { createHash, randomUUID } from 'crypto';
+import { gzipSync } from 'zlib';
+import { StructuredIngredient } from './ingredients';
+import { RecipeAPIResponseData } from './types';
+
+export const EXPORT_FORMATS = ['markdown', 'jsonld', 'html', 'paprika', 'mealie'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export interface ExportedFile {
+  body: string | Buffer;
+  contentType: string;
+  filename: string;
+}
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value);
+
+const slugify = (text: string) =>
+  text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'recipe';
+
+// Formats minutes for people, e.g. 75 -> "1 hr 15 min". Empty for unknown times.
+const formatMinutes = (minutes: number) => {
+  if (!minutes || minutes <= 0) return '';
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return [hours > 0 ? `${hours} hr` : '', mins > 0 ? `${mins} min` : ''].filter(Boolean).join(' ');
+};
+
+// Formats minutes as an ISO-8601 duration, e.g. 75 -> "PT1H15M".
+const toIsoDuration = (minutes: number) => {
+  if (!minutes || minutes <= 0) return undefined;
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `PT${hours > 0 ? `${hours}H` : ''}${mins > 0 || hours === 0 ? `${mins}M` : ''}`;
+};
+
+const formatYields = (recipe: RecipeAPIResponseData) => {
+  if (!recipe.yields) return '';
+  return recipe.yields_max > recipe.yields ? `${recipe.yields}-${recipe.yields_max} servings` : `${recipe.yields} servings`;
+};
+
+// Ingredient lines with their group headings, falling back to the raw strings.
+const groupedIngredients = (recipe: RecipeAPIResponseData): { heading: string | null; lines: string[] }[] => {
+  if (!recipe.structured_ingredients?.length) return [{ heading: null, lines: recipe.ingredients }];
+  const groups: { heading: string | null; lines: string[] }[] = [];
+  for (const ingredient of recipe.structured_ingredients) {
+    const last = groups[groups.length - 1];
+    if (last && last.heading === ingredient.group) last.lines.push(ingredient.raw);
+    else groups.push({ heading: ingredient.group, lines: [ingredient.raw] });
+  }
+  return groups;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const toMarkdown = (recipe: RecipeAPIResponseData): string => {
+  const lines: string[] = [`# ${recipe.title}`, ''];
+  if (recipe.image) lines.push(`![${recipe.title}](${recipe.image})`, '');
+  if (recipe.description) lines.push(recipe.description, '');
+
+  const meta = [
+    ['Prep time', formatMinutes(recipe.prep_time)],
+    ['Cook time', formatMinutes(recipe.cook_time)],
+    ['Total time', formatMinutes(recipe.total_time)],
+    ['Yields', formatYields(recipe)],
+  ].filter(([, value]) => value);
+  if (meta.length > 0) {
+    meta.forEach(([label, value]) => lines.push(`- **${label}:** ${value}`));
+    lines.push('');
+  }
+
+  lines.push('## Ingredients', '');
+  for (const group of groupedIngredients(recipe)) {
+    if (group.heading) lines.push(`### ${group.heading}`, '');
+    group.lines.forEach(line => lines.push(`- ${line}`));
+    lines.push('');
+  }
+
+  lines.push('## Instructions', '');
+  recipe.instructions.forEach((step, index) => lines.push(`${index + 1}. ${step}`));
+  const nutrition = nutritionLines(recipe);
+  if (nutrition.length > 0) {
+    lines.push('', '## Nutrition (per serving, estimated)', '');
+    nutrition.forEach(line => lines.push(`- ${line}`));
+  }
+  // Uploaded recipes have no source to link to.
+  if (recipe.url) lines.push('', `Source: [${recipe.host}](${recipe.url})`);
+  lines.push('');
+  return lines.join('\n');
+};
+
+// Recipes saved before nutrition estimates existed have none.
+const nutritionLines = (recipe: RecipeAPIResponseData): string[] => {
+  const facts = recipe.nutrition?.per_serving;
+  if (!facts) return [];
+  return [
+    `Calories: ${facts.calories} kcal`,
+    `Protein: ${facts.protein} g`,
+    `Carbohydrates: ${facts.carbs} g`,
+    `Fat: ${facts.fat} g`,
+    `Fiber: ${facts.fiber} g`,
+    `Sodium: ${facts.sodium} mg`,
+  ];
+};
+
+export const toJsonLd = (recipe: RecipeAPIResponseData) => ({
+  '@context': 'https://schema.org',
+  '@type': 'Recipe',
+  name: recipe.title,
+  description: recipe.description || undefined,
+  image: recipe.image ? [recipe.image] : undefined,
+  url: recipe.url || undefined,
+  prepTime: toIsoDuration(recipe.prep_time),
+  cookTime: toIsoDuration(recipe.cook_time),
+  totalTime: toIsoDuration(recipe.total_time),
+  recipeYield: formatYields(recipe) || undefined,
+  recipeIngredient: recipe.ingredients,
+  recipeInstructions: recipe.instructions.map(text => ({ '@type': 'HowToStep', text })),
+  nutrition: recipe.nutrition ? {
+    '@type': 'NutritionInformation',
+    servingSize: '1 serving',
+    calories: `${recipe.nutrition.per_serving.calories} calories`,
+    proteinContent: `${recipe.nutrition.per_serving.protein} g`,
+    carbohydrateContent: `${recipe.nutrition.per_serving.carbs} g`,
+    fatContent: `${recipe.nutrition.per_serving.fat} g`,
+    fiberContent: `${recipe.nutrition.per_serving.fiber} g`,
+    sodiumContent: `${recipe.nutrition.per_serving.sodium} mg`,
+  } : undefined,
+});
+
+const toPrintHtml = (recipe: RecipeAPIResponseData): string => {
+  const meta = [
+    ['Prep', formatMinutes(recipe.prep_time)],
+    ['Cook', formatMinutes(recipe.cook_time)],
+    ['Total', formatMinutes(recipe.total_time)],
+    ['Yields', formatYields(recipe)],
+  ].filter(([, value]) => value);
+
+  const ingredients = groupedIngredients(recipe).map(group => `
+      ${group.heading ? `<h3>${escapeHtml(group.heading)}</h3>` : ''}
+      <ul>${group.lines.map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeHtml(recipe.title)}</title>
+  <script type="application/ld+json">${JSON.stringify(toJsonLd(recipe)).replace(/</g, '\\u003c')}</script>
+  <style>
+    body { font-family: Georgia, 'Times New Roman', serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #111; line-height: 1.5; }
+    h1 { margin-bottom: 0.25rem; }
+    img { max-width: 100%; max-height: 20rem; object-fit: cover; border-radius: 0.5rem; }
+    .meta { display: flex; flex-wrap: wrap; gap: 1.5rem; padding: 0.75rem 0; border-top: 1px solid #ccc; border-bottom: 1px solid #ccc; }
+    .columns { display: grid; grid-template-columns: 1fr 2fr; gap: 2rem; }
+    ol li { margin-bottom: 0.5rem; }
+    .source { font-size: 0.85rem; color: #555; margin-top: 2rem; }
+    @media print {
+      body { margin: 0; max-width: none; font-size: 11pt; }
+      img { max-height: 8cm; }
+      a { color: inherit; text-decoration: none; }
+      li, h2, h3 { break-inside: avoid; }
+    }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(recipe.title)}</h1>
+  ${recipe.description ? `<p><em>${escapeHtml(recipe.description)}</em></p>` : ''}
+  ${recipe.image ? `<img src="${escapeHtml(recipe.image)}" alt="${escapeHtml(recipe.title)}" />` : ''}
+  ${meta.length > 0 ? `<div class="meta">${meta.map(([label, value]) => `<span><strong>${label}:</strong> ${escapeHtml(value)}</span>`).join('')}</div>` : ''}
+  <div class="columns">
+    <section>
+      <h2>Ingredients</h2>${ingredients}
+    </section>
+    <section>
+      <h2>Instructions</h2>
+      <ol>${recipe.instructions.map(step => `<li>${escapeHtml(step)}</li>`).join('')}</ol>
+    </section>
+  </div>
+  ${recipe.url ? `<p class="source">Source: <a href="${escapeHtml(recipe.url)}">${escapeHtml(recipe.url)}</a></p>` : ''}
+</body>
+</html>
+`;
+};
+
+// Paprika imports a .paprikarecipe file: a single gzipped JSON recipe object.
+const toPaprika = (recipe: RecipeAPIResponseData): Buffer => {
+  const paprikaRecipe = {
+    uid: randomUUID().toUpperCase(),
+    name: recipe.title,
+    description: recipe.description,
+    ingredients: groupedIngredients(recipe)
+      .map(group => [group.heading ? `${group.heading}:` : null, ...group.lines].filter(Boolean).join('\n'))
+      .join('\n\n'),
+    directions: recipe.instructions.join('\n\n'),
+    notes: '',
+    nutritional_info: nutritionLines(recipe).join('\n'),
+    servings: formatYields(recipe),
+    prep_time: formatMinutes(recipe.prep_time),
+    cook_time: formatMinutes(recipe.cook_time),
+    total_time: formatMinutes(recipe.total_time),
+    difficulty: '',
+    rating: 0,
+    categories: [],
+    source: recipe.host,
+    source_url: recipe.url,
+    image_url: recipe.image ?? '',
+    photo: null,
+    photo_data: null,
+    created: new Date().toISOString().replace('T', ' ').slice(0, 19),
+    hash: createHash('sha256').update(`${recipe.title}\n${recipe.url}`).digest('hex'),
+  };
+  return gzipSync(Buffer.from(JSON.stringify(paprikaRecipe), 'utf8'));
+};
+
+// Mealie marks a section by giving its first ingredient a title.
+const mealieIngredient = (ingredient: StructuredIngredient, index: number, all: StructuredIngredient[]) => ({
+  quantity: ingredient.quantity ?? 0,
+  unit: ingredient.unit ? { name: ingredient.unit } : null,
+  food: { name: ingredient.name },
+  note: ingredient.notes ?? '',
+  title: ingredient.group && ingredient.group !== all[index - 1]?.group ? ingredient.group : '',
+  display: ingredient.raw,
+  originalText: ingredient.raw,
+  disableAmount: ingredient.quantity === null,
+});
+
+// Mealie's recipe JSON, as accepted by its "Import from JSON" and recipe API.
+const toMealie = (recipe: RecipeAPIResponseData) => ({
+  name: recipe.title,
+  description: recipe.description,
+  image: recipe.image,
+  orgURL: recipe.url || null,
+  recipeYield: formatYields(recipe),
+  recipeServings: recipe.yields || null,
+  prepTime: formatMinutes(recipe.prep_time),
+  performTime: formatMinutes(recipe.cook_time),
+  totalTime: formatMinutes(recipe.total_time),
+  recipeIngredient: recipe.structured_ingredients?.length
+    ? recipe.structured_ingredients.map(mealieIngredient)
+    : recipe.ingredients.map(line => ({ note: line, display: line, originalText: line, disableAmount: true })),
+  recipeInstructions: recipe.instructions.map(text => ({ id: randomUUID(), title: '', text })),
+  tags: [],
+  recipeCategory: [],
+  notes: [],
+});
+
+// Renders a recipe in the requested export format, ready to be sent as a download.
+export const exportRecipe = (recipe: RecipeAPIResponseData, format: ExportFormat): ExportedFile => {
+  const slug = slugify(recipe.title);
+  switch (format) {
+    case 'markdown':
+      return { body: toMarkdown(recipe), contentType: 'text/markdown; charset=utf-8', filename: `${slug}.md` };
+    case 'jsonld':
+      return { body: JSON.stringify(toJsonLd(recipe), null, 2), contentType: 'application/ld+json; charset=utf-8', filename: `${slug}.jsonld` };
+    case 'html':
+      return { body: toPrintHtml(recipe), contentType: 'text/html; charset=utf-8', filename: `${slug}.html` };
+    case 'paprika':
+      return { body: toPaprika(recipe), contentType: 'application/octet-stream', filename: `${slug}.paprikarecipe` };
+    case 'mealie':
+      return { body: JSON.stringify(toMealie(recipe), null, 2), contentType: 'application/json; charset=utf-8', filename: `${slug}.mealie.json` };
+  }
+};
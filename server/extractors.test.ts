@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { getExtractor } from './extractors';
+
+const platformOf = (url: string) => getExtractor(url).platform;
+
+describe('getExtractor', () => {
+  it('matches platform domains and their subdomains', () => {
+    expect(platformOf('https://youtube.com/watch?v=abc123XYZ')).toBe('youtube');
+    expect(platformOf('https://www.youtube.com/watch?v=abc123XYZ')).toBe('youtube');
+    expect(platformOf('https://m.youtube.com/shorts/abc123XYZ')).toBe('youtube');
+    expect(platformOf('https://youtu.be/abc123XYZ')).toBe('youtube');
+    expect(platformOf('https://WWW.TikTok.com./@cook/video/123')).toBe('tiktok');
+    expect(platformOf('https://m.facebook.com/watch/?v=1')).toBe('facebook');
+    expect(platformOf('https://instagr.am/reel/abc')).toBe('instagram');
+    expect(platformOf('https://vimeo.com/123')).toBe('vimeo');
+  });
+
+  it('treats look-alike hosts as web pages', () => {
+    for (const url of [
+      'https://notyoutube.com.evil/watch?v=abc123XYZ',
+      'https://youtube.com.evil.net/watch?v=abc123XYZ',
+      'https://notyoutube.com/watch?v=abc123XYZ',
+      'https://example.com/?redirect=youtube.com',
+      'https://tiktok.com@example.com/',
+      'https://pinterest.com.evil.net/pin/1',
+      'https://notpinterest.com/pin/1',
+      'https://spin.it/1',
+    ]) {
+      expect(platformOf(url), url).toBe('website');
+    }
+  });
+
+  it('matches Pinterest country domains and short links', () => {
+    for (const url of [
+      'https://www.pinterest.com/pin/1',
+      'https://pinterest.de/pin/1',
+      'https://uk.pinterest.co.uk/pin/1',
+      'https://www.pinterest.com.au/pin/1',
+      'https://m.pinterest.fr/pin/1',
+      'https://pin.it/abc',
+    ]) {
+      expect(platformOf(url), url).toBe('pinterest');
+    }
+  });
+
+  it('falls back to the website extractor for URLs it cannot parse', () => {
+    expect(platformOf('not a url')).toBe('website');
+  });
+});
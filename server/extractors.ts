@@ -0,0 +1,318 @@
+import { Schema, Type } from '@google/genai';
+import { extractStructuredRecipe, fetchPageHtml, StructuredRecipeResult } from './structuredData';
+import { Platform, Recipe, RecipeImage } from './types';
+import { log } from './logger';
+
+// Details reported by a platform's oEmbed endpoint. Empty strings when unavailable.
+export interface SourceMetadata {
+  title: string;
+  author: string;
+  thumbnailUrl: string;
+  embedHtml: string;
+}
+
+const EMPTY_METADATA: SourceMetadata = { title: '', author: '', thumbnailUrl: '', embedHtml: '' };
+
+export interface RecipePrompt {
+  systemInstruction: string;
+  prompt: string;
+}
+
+// Everything the analyzer needs to know about one kind of source URL.
+export interface PlatformExtractor {
+  platform: Platform;
+  displayName: string;
+  matches: (url: URL) => boolean;
+  // Recipe data embedded in the page itself, which makes a model call unnecessary.
+  extractStructured?: (sourceUrl: string) => Promise<StructuredRecipeResult | null>;
+  fetchMetadata?: (sourceUrl: string) => Promise<SourceMetadata>;
+  buildPrompt: (sourceUrl: string, metadata: SourceMetadata | null) => RecipePrompt;
+  buildSchema: () => Schema;
+  postProcess?: (recipe: Recipe, sourceUrl: string) => Recipe;
+}
+
+const OEMBED_TIMEOUT_MS = 5000;
+
+// True when the hostname is one of the domains or a subdomain of one. Matching on the
+// parsed hostname keeps look-alikes such as notyoutube.com.evil from being accepted.
+const hostMatches = (url: URL, domains: string[]) => {
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, '');
+  return domains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+};
+
+const fetchOEmbed = async (platform: Platform, oembedUrl: string): Promise<SourceMetadata> => {
+  try {
+    const response = await fetch(oembedUrl, { signal: AbortSignal.timeout(OEMBED_TIMEOUT_MS) });
+    if (response.ok) {
+      const data = await response.json();
+      return {
+        title: data.title || '',
+        author: data.author_name || '',
+        thumbnailUrl: data.thumbnail_url || '',
+        embedHtml: data.html || '',
+      };
+    }
+  } catch (oembedError) {
+    log.warn('Failed to fetch or parse oEmbed data', { platform, error: oembedError });
+  }
+  return EMPTY_METADATA;
+};
+
+const baseSchemaProperties = (): Record<string, Schema> => ({
+  recipeName: { type: Type.STRING, description: "The title or name of the recipe." },
+  description: { type: Type.STRING, description: "A brief, enticing description of the dish." },
+  prepTime: { type: Type.STRING, description: "Preparation time, e.g., '15 minutes'." },
+  cookTime: { type: Type.STRING, description: "Cooking time, e.g., '30 minutes'." },
+  totalTime: { type: Type.STRING, description: "Total time (prep + cook), e.g., '45 minutes'." },
+  servings: { type: Type.STRING, description: "Number of servings the recipe makes, e.g., '4 servings'." },
+  sourceLanguage: { type: Type.STRING, description: "ISO 639-1 code of the language the source is in, e.g., 'es'." },
+  ingredients: { type: Type.ARRAY, description: "A list of all ingredients with quantities. Group headings, if any, are separate lines ending with a colon.", items: { type: Type.STRING } },
+  instructions: { type: Type.ARRAY, description: "A step-by-step list of instructions.", items: { type: Type.STRING } },
+});
+
+const REQUIRED_FIELDS = ["recipeName", "description", "ingredients", "instructions"];
+
+// What to extract from a video, shared by URL and uploaded-video prompts.
+const videoAnalysisInstructions = (mediaName: string) => `Carefully analyze the ${mediaName}'s content from beginning to end. Your analysis must be based *only* on the visual and audio information present in the ${mediaName} itself. Do not infer or guess details not shown or mentioned.
+
+From the ${mediaName}, extract the following information with the highest possible accuracy:
+1.  **Recipe Name:** The name of the dish being made.
+2.  **Description:** A short summary of the final dish.
+3.  **Ingredients:** A complete list of all ingredients shown or mentioned, including precise quantities and measurements (e.g., "1 cup flour", "2 tbsp olive oil"). If the ingredients are split into groups, include each group heading as its own line ending with a colon (e.g., "For the sauce:").
+4.  **Instructions:** A step-by-step guide on how to make the recipe, as demonstrated in the ${mediaName}.
+5.  **Prep Time:** The preparation time, if mentioned (e.g., "15 minutes").
+6.  **Cook Time:** The cooking time, if mentioned (e.g., "30 minutes").
+7.  **Total Time:** The total time (prep + cook) to make the recipe, if mentioned.
+8.  **Servings:** The number of servings the recipe makes, if mentioned (e.g., "4 servings").
+9.  **Step Timestamps:** For each instruction, the point in the ${mediaName} where it is shown, as "m:ss" (e.g., "1:05"), if you can identify it.`;
+
+// Just the recipe text, for translating a recipe that has already been extracted.
+export const recipeTextSchema = (): Schema => ({
+  type: Type.OBJECT,
+  properties: baseSchemaProperties(),
+  required: REQUIRED_FIELDS,
+});
+
+// Recipes from videos and transcripts may say when each step happens.
+export const videoRecipeSchema = (): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    ...baseSchemaProperties(),
+    stepTimestamps: {
+      type: Type.ARRAY,
+      description: "When each instruction is shown in the video. Leave out instructions without a clear moment.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          step: { type: Type.INTEGER, description: "The 1-based number of the instruction." },
+          start: { type: Type.STRING, description: "Where the step starts, e.g., '1:05'." },
+          end: { type: Type.STRING, description: "Where the step ends, e.g., '1:40'." },
+        },
+        required: ["step", "start"],
+      },
+    },
+  },
+  required: REQUIRED_FIELDS,
+});
+
+interface VideoExtractorOptions {
+  platform: Platform;
+  displayName: string;
+  domains: string[];
+  // What the platform calls a post, used in the prompt, e.g. "video" or "pin".
+  mediaName?: string;
+  // The oEmbed lookup URL for a source, or null when the platform offers none.
+  oembedUrl?: (sourceUrl: string) => string | null;
+  matches?: (url: URL) => boolean;
+}
+
+const createVideoExtractor = ({
+  platform, displayName, domains, mediaName = 'video', oembedUrl, matches,
+}: VideoExtractorOptions): PlatformExtractor => ({
+  platform,
+  displayName,
+  matches: matches ?? (url => hostMatches(url, domains)),
+  fetchMetadata: async (sourceUrl) => {
+    const lookupUrl = oembedUrl?.(sourceUrl);
+    return lookupUrl ? fetchOEmbed(platform, lookupUrl) : EMPTY_METADATA;
+  },
+  buildPrompt: (sourceUrl, metadata) => {
+    const titleAuthorInfo = (metadata?.title && metadata.author) ? `titled "${metadata.title}" by author "${metadata.author}"` : '';
+    return {
+      systemInstruction: `You are an expert recipe bot. Your task is to analyze a ${mediaName} and extract the recipe from it. Respond only with the recipe in a structured JSON format that adheres to the provided schema. Do not include any other text, greetings, or explanations.`,
+      prompt: `Your primary task is to extract a recipe from the ${displayName} ${mediaName} located at the URL: ${sourceUrl}. The ${mediaName} is reportedly ${titleAuthorInfo}.
+
+${videoAnalysisInstructions(mediaName)}`,
+    };
+  },
+  buildSchema: videoRecipeSchema,
+});
+
+// Instagram and Facebook only serve oEmbed data to apps, so metadata needs META_OEMBED_TOKEN.
+const metaOEmbedUrl = (endpoint: string) => (sourceUrl: string) => {
+  const token = process.env.META_OEMBED_TOKEN;
+  return token
+    ? `https://graph.facebook.com/v19.0/${endpoint}?url=${encodeURIComponent(sourceUrl)}&access_token=${encodeURIComponent(token)}&omitscript=true`
+    : null;
+};
+
+// Pinterest runs country sites such as pinterest.co.uk and pinterest.de next to pinterest.com.
+const PINTEREST_HOST = /(?:^|\.)pinterest\.(?:com|[a-z]{2}|co\.[a-z]{2}|com\.[a-z]{2})\.?$/i;
+
+const tiktokExtractor = createVideoExtractor({
+  platform: 'tiktok',
+  displayName: 'TikTok',
+  domains: ['tiktok.com'],
+  oembedUrl: sourceUrl => `https://www.tiktok.com/oembed?url=${encodeURIComponent(sourceUrl)}`,
+});
+
+const youtubeExtractor = createVideoExtractor({
+  platform: 'youtube',
+  displayName: 'YouTube',
+  domains: ['youtube.com', 'youtu.be', 'youtube-nocookie.com'],
+  oembedUrl: sourceUrl => `https://www.youtube.com/oembed?url=${encodeURIComponent(sourceUrl)}`,
+});
+
+const instagramExtractor = createVideoExtractor({
+  platform: 'instagram',
+  displayName: 'Instagram',
+  domains: ['instagram.com', 'instagr.am'],
+  mediaName: 'reel',
+  oembedUrl: metaOEmbedUrl('instagram_oembed'),
+});
+
+const facebookExtractor = createVideoExtractor({
+  platform: 'facebook',
+  displayName: 'Facebook',
+  domains: ['facebook.com', 'fb.watch'],
+  oembedUrl: metaOEmbedUrl('oembed_video'),
+});
+
+const pinterestExtractor = createVideoExtractor({
+  platform: 'pinterest',
+  displayName: 'Pinterest',
+  domains: ['pin.it'],
+  mediaName: 'pin',
+  matches: url => PINTEREST_HOST.test(url.hostname) || hostMatches(url, ['pin.it']),
+  oembedUrl: sourceUrl => `https://www.pinterest.com/oembed.json?url=${encodeURIComponent(sourceUrl)}`,
+});
+
+const vimeoExtractor = createVideoExtractor({
+  platform: 'vimeo',
+  displayName: 'Vimeo',
+  domains: ['vimeo.com'],
+  oembedUrl: sourceUrl => `https://vimeo.com/api/oembed.json?url=${encodeURIComponent(sourceUrl)}`,
+});
+
+// Any other URL is treated as a recipe web page.
+const websiteExtractor: PlatformExtractor = {
+  platform: 'website',
+  displayName: 'website',
+  matches: () => true,
+  // Most recipe sites embed schema.org data, which is faster and more reliable than asking a model.
+  // A page that breaks the parser is left to the model rather than failing the analysis.
+  extractStructured: async (sourceUrl) => {
+    const html = await fetchPageHtml(sourceUrl);
+    if (!html) return null;
+    try {
+      return extractStructuredRecipe(html, sourceUrl);
+    } catch (error) {
+      log.warn('Failed to parse structured recipe data', { url: sourceUrl, error });
+      return null;
+    }
+  },
+  buildPrompt: (sourceUrl) => ({
+    systemInstruction: "You are an expert recipe web scraper and formatter. Your task is to extract only the core recipe content from the provided URL's webpage, including all relevant images. You MUST ignore all non-recipe content like headers, footers, navigation bars, ads, user comments, and any sections containing links to other recipes (e.g., 'More Recipes', 'You Might Also Like'). Respond only with the recipe in a structured JSON format that adheres to the provided schema. Do not include any other text, greetings, or explanations.",
+    prompt: `Scrape the recipe from the webpage at this URL: ${sourceUrl}. Extract the exact step-by-step instructions and ingredients from the main body of the page. Extract the following details: the recipe's name, a brief description of the dish, the preparation time, the cooking time, the total time, the number of servings, and all relevant images. You must categorize each image found: 1. The primary 'main' image of the finished dish (the hero or thumbnail image). 2. Any 'step' images that visually correspond to a specific instruction. 3. Any other 'additional' photos of the dish. For each image, provide its full, direct URL, a concise description, and its category ('main', 'step', or 'additional'). For each 'step' image, also give the number of the instruction it illustrates, counting from 1.`,
+  }),
+  buildSchema: () => ({
+    type: Type.OBJECT,
+    properties: {
+      ...baseSchemaProperties(),
+      images: {
+        type: Type.ARRAY,
+        description: "A list of relevant images from the webpage. Each image must be categorized as 'main', 'step', or 'additional'.",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            url: { type: Type.STRING, description: "The full, direct URL to the image file." },
+            description: { type: Type.STRING, description: "A brief description of the image content." },
+            category: {
+              type: Type.STRING,
+              description: "The category of the image: 'main' for the primary dish photo, 'step' for an instructional photo, or 'additional' for other relevant photos.",
+              enum: ['main', 'step', 'additional'],
+            },
+            step: { type: Type.INTEGER, description: "For 'step' images, the 1-based number of the instruction the image illustrates." },
+          },
+          required: ["url", "description", "category"],
+        },
+      },
+    },
+    required: REQUIRED_FIELDS,
+  }),
+  // Image URLs scraped from a page are often relative to it.
+  postProcess: (recipe, sourceUrl) => {
+    if (!recipe.images) return recipe;
+    const images = recipe.images
+      .map(image => {
+        if (!image.url) return null;
+        try {
+          const absoluteUrl = new URL(image.url, sourceUrl).href;
+          return { ...image, url: absoluteUrl };
+        } catch (e) {
+          log.warn('Skipping an invalid image URL', { url: image.url });
+          return null;
+        }
+      })
+      .filter((image): image is RecipeImage => image !== null);
+    return { ...recipe, images };
+  },
+};
+
+// Prompts for recipes uploaded as a video file or a caption transcript rather than a URL.
+// The video or transcript itself is sent alongside the prompt.
+export const buildUploadPrompt = (kind: 'video' | 'transcript', title: string): RecipePrompt => {
+  const titleInfo = title ? ` The creator calls it "${title}".` : '';
+  if (kind === 'video') {
+    return {
+      systemInstruction: 'You are an expert recipe bot. Your task is to analyze a cooking video and extract the recipe from it. Respond only with the recipe in a structured JSON format that adheres to the provided schema. Do not include any other text, greetings, or explanations.',
+      prompt: `Your primary task is to extract a recipe from the attached cooking video.${titleInfo}\n\n${videoAnalysisInstructions('video')}`,
+    };
+  }
+  return {
+    systemInstruction: 'You are an expert recipe bot. Your task is to read the transcript of a cooking video and extract the recipe from it. Respond only with the recipe in a structured JSON format that adheres to the provided schema. Do not include any other text, greetings, or explanations.',
+    prompt: `Your primary task is to extract a recipe from the attached transcript of a cooking video.${titleInfo} Lines may start with the time they are spoken, e.g. "[1:05]".
+
+Base the recipe *only* on what the transcript says. Do not infer or guess quantities or steps that are not mentioned.
+
+Extract the recipe name, a short description of the dish, all ingredients with their quantities (with group headings such as "For the sauce:" as their own lines), step-by-step instructions, and the prep time, cook time, total time and servings if mentioned. For each instruction, report the timestamp of the transcript line where it is described, as "m:ss", if the transcript has timestamps.`,
+  };
+};
+
+const extractors: PlatformExtractor[] = [
+  tiktokExtractor,
+  youtubeExtractor,
+  instagramExtractor,
+  facebookExtractor,
+  pinterestExtractor,
+  vimeoExtractor,
+];
+
+// Adds an extractor that is tried before the built-in ones.
+export const registerExtractor = (extractor: PlatformExtractor) => {
+  extractors.unshift(extractor);
+};
+
+export const isKnownPlatform = (value: unknown): value is Platform =>
+  value === websiteExtractor.platform || value === 'upload' || extractors.some(extractor => extractor.platform === value);
+
+// Picks the extractor for a URL, falling back to the website extractor for anything unrecognized.
+export const getExtractor = (sourceUrl: string): PlatformExtractor => {
+  let parsed: URL;
+  try {
+    parsed = new URL(sourceUrl);
+  } catch (e) {
+    return websiteExtractor;
+  }
+  return extractors.find(extractor => extractor.matches(parsed)) ?? websiteExtractor;
+};
@@ -0,0 +1,117 @@
+import {
+  Content, createPartFromUri, File as GeminiFile, FileState, GenerateContentResponseUsageMetadata, GoogleGenAI, Part,
+} from '@google/genai';
+import { ModelAttachment, ModelProvider, TokenUsage } from './modelProvider';
+import { log } from './logger';
+
+export interface GeminiOptions {
+  apiKey: string | undefined;
+  model: string;
+  // How long to wait for Gemini to finish processing an uploaded video.
+  videoTimeoutMs: number;
+}
+
+const FILE_POLL_INTERVAL_MS = 2000;
+
+const deleteVideoFile = async (ai: GoogleGenAI, file: GeminiFile) => {
+  if (!file.name) return;
+  try {
+    await ai.files.delete({ name: file.name });
+  } catch (error) {
+    log.warn('Failed to delete uploaded video', { file: file.name, error });
+  }
+};
+
+// Uploads a video through the Gemini Files API and waits until it can be used in a prompt.
+// Gemini deletes uploaded files after 48 hours; conversations delete them when closed.
+const uploadVideoFile = async (
+  ai: GoogleGenAI,
+  video: Extract<ModelAttachment, { kind: 'video' }>,
+  timeoutMs: number,
+): Promise<GeminiFile> => {
+  let file = await ai.files.upload({
+    file: video.data,
+    config: { mimeType: video.mimeType, displayName: video.filename },
+  });
+  const deadline = Date.now() + timeoutMs;
+  while (file.state === FileState.PROCESSING) {
+    if (Date.now() > deadline) {
+      await deleteVideoFile(ai, file);
+      throw new Error('Gemini took too long to process the video.');
+    }
+    await new Promise(resolve => setTimeout(resolve, FILE_POLL_INTERVAL_MS));
+    file = await ai.files.get({ name: file.name! });
+  }
+  if (file.state === FileState.FAILED || !file.uri) {
+    await deleteVideoFile(ai, file);
+    throw new Error(`Gemini could not process the video${file.error?.message ? `: ${file.error.message}` : '.'}`);
+  }
+  return file;
+};
+
+export const createGeminiProvider = ({ apiKey, model, videoTimeoutMs }: GeminiOptions): ModelProvider => {
+  if (!apiKey) {
+    throw new Error('API_KEY is not configured on the server.');
+  }
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+    model,
+    startConversation: async ({ systemInstruction, schema, attachments }) => {
+      // Videos are uploaded once and referenced from every turn of the conversation.
+      const files: GeminiFile[] = [];
+      const close = async () => {
+        await Promise.all(files.map(file => deleteVideoFile(ai, file)));
+      };
+      let pending: Part[] = [];
+      try {
+        for (const attachment of attachments) {
+          if (attachment.kind === 'text') {
+            pending.push({ text: attachment.text });
+            continue;
+          }
+          const file = await uploadVideoFile(ai, attachment, videoTimeoutMs);
+          files.push(file);
+          pending.push(createPartFromUri(file.uri!, file.mimeType ?? attachment.mimeType));
+        }
+      } catch (error) {
+        await close();
+        throw error;
+      }
+
+      const contents: Content[] = [];
+      const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+      return {
+        send: async function* (text: string) {
+          // Attachments go with the first message only.
+          contents.push({ role: 'user', parts: [...pending, { text }] });
+          pending = [];
+          const stream = await ai.models.generateContentStream({
+            model,
+            contents,
+            config: {
+              systemInstruction,
+              responseMimeType: "application/json",
+              responseSchema: schema,
+            },
+          });
+          let reply = '';
+          // Every chunk reports the running totals for the turn, so only the last one counts.
+          let turnUsage: GenerateContentResponseUsageMetadata | undefined;
+          for await (const chunk of stream) {
+            const delta = chunk.text ?? '';
+            reply += delta;
+            turnUsage = chunk.usageMetadata ?? turnUsage;
+            if (delta) yield delta;
+          }
+          usage.inputTokens += turnUsage?.promptTokenCount ?? 0;
+          usage.outputTokens += (turnUsage?.candidatesTokenCount ?? 0) + (turnUsage?.thoughtsTokenCount ?? 0);
+          if (reply.trim()) contents.push({ role: 'model', parts: [{ text: reply }] });
+        },
+        usage: () => ({ ...usage }),
+        close,
+      };
+    },
+  };
+};
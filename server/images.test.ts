@@ -0,0 +1,62 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { verifyImages } from './images';
+import { RecipeImageData } from './types';
+import { safeFetch } from './urls';
+
+vi.mock('./urls', async importOriginal => ({ ...await importOriginal<typeof import('./urls')>(), safeFetch: vi.fn() }));
+
+const candidates = (count: number): RecipeImageData[] => Array.from({ length: count }, (_, index) => ({
+  url: `https://example.com/${index}.jpg`,
+  description: '',
+  category: 'additional',
+  step: null,
+  id: null,
+  width: null,
+  height: null,
+}));
+
+describe('verifyImages', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'images-'));
+    vi.stubEnv('IMAGES_DIR', dir);
+  });
+
+  afterEach(async () => {
+    vi.mocked(safeFetch).mockReset();
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('downloads a few candidates at a time and reports each in page order', async () => {
+    let active = 0;
+    let mostActive = 0;
+    vi.mocked(safeFetch).mockImplementation(async () => {
+      mostActive = Math.max(mostActive, ++active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      return new Response(null, { status: 404 });
+    });
+    const page = candidates(12);
+
+    const { images, warnings } = await verifyImages([...page, page[0]], 'https://example.com/recipe');
+    expect(mostActive).toBe(4);
+    expect(images).toEqual([]);
+    expect(warnings.map(warning => warning.field)).toEqual(page.map((_, index) => `images[${index}]`));
+    expect(warnings[0].message).toBe('https://example.com/0.jpg was dropped: download failed with status 404');
+  });
+
+  it('drops candidates beyond the limit without downloading them', async () => {
+    vi.mocked(safeFetch).mockResolvedValue(new Response(null, { status: 404 }));
+    const { warnings } = await verifyImages(candidates(26), '');
+    expect(warnings.slice(24).map(warning => warning.message)).toEqual([
+      'https://example.com/24.jpg was dropped: recipes keep at most 24 images',
+      'https://example.com/25.jpg was dropped: recipes keep at most 24 images',
+    ]);
+    expect(safeFetch).toHaveBeenCalledTimes(48);
+  });
+});
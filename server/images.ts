@@ -0,0 +1,182 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import { readLimited, safeFetch, UrlIntakeError } from './urls';
+import { FieldIssue } from './recipeValidation';
+import { RecipeImageData } from './types';
+import { log } from './logger';
+
+// A verified image kept on disk, described by the JSON file next to it.
+export interface StoredImage {
+  id: string;
+  source_url: string;
+  format: ImageFormat;
+  width: number;
+  height: number;
+  bytes: number;
+  stored_at: string;
+}
+
+// Formats sharp can decode and that are safe to serve. SVG is left out because it can carry scripts.
+const IMAGE_FORMATS = ['jpeg', 'png', 'webp', 'gif', 'avif'] as const;
+type ImageFormat = typeof IMAGE_FORMATS[number];
+
+export const THUMBNAIL_WIDTHS = [160, 320, 640, 1280] as const;
+export type ThumbnailWidth = typeof THUMBNAIL_WIDTHS[number];
+
+// Smaller images are tracking pixels, spacers or icons rather than photos of the recipe.
+const MIN_IMAGE_SIZE = 64;
+const MAX_IMAGE_BYTES = 15 * 1024 * 1024;
+// Pages list many candidates; the rest are dropped with a warning.
+const MAX_IMAGES = 24;
+// Each download may hold up to MAX_IMAGE_BYTES in memory, so only a few run at once.
+const IMAGE_CONCURRENCY = 4;
+const IMAGE_TIMEOUT_MS = 10000;
+
+const FETCH_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (compatible; RecipeFinder/1.0; +https://schema.org/Recipe)',
+  'Accept': 'image/avif,image/webp,image/png,image/jpeg,image/gif;q=0.9,*/*;q=0.5',
+};
+
+// Read lazily so values loaded by dotenv after import are respected.
+const imagesDir = () => process.env.IMAGES_DIR || path.join(__dirname, 'data', 'images');
+
+// Ids are derived from the source URL, so analysing a page again reuses the stored files.
+const imageId = (url: string) => createHash('sha256').update(url).digest('hex').slice(0, 32);
+
+export const isImageId = (value: string) => /^[0-9a-f]{32}$/.test(value);
+
+const metaPath = (id: string) => path.join(imagesDir(), `${id}.json`);
+const originalPath = (image: StoredImage) => path.join(imagesDir(), `${image.id}.${image.format}`);
+const thumbnailPath = (id: string, width: ThumbnailWidth) => path.join(imagesDir(), `${id}-${width}.webp`);
+
+export const getStoredImage = async (id: string): Promise<StoredImage | null> => {
+  if (!isImageId(id)) return null;
+  try {
+    return JSON.parse(await fs.readFile(metaPath(id), 'utf8')) as StoredImage;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    return null;
+  }
+};
+
+// Writes through a temporary file, so a concurrent reader never sees half an image.
+const writeAtomically = async (file: string, contents: string | Buffer) => {
+  const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(temporary, contents);
+  await fs.rename(temporary, file);
+};
+
+const isImageType = (contentType: string | null) => !contentType || contentType.toLowerCase().startsWith('image/');
+
+// Downloads an image and checks that it is a real photo. The page is sent as the Referer,
+// which most hotlink protection accepts. Otherwise returns why the image was rejected.
+const downloadImage = async (url: string, pageUrl: string): Promise<{ image: StoredImage | null; error: string | null }> => {
+  const init = { headers: { ...FETCH_HEADERS, ...(pageUrl ? { Referer: pageUrl } : {}) } };
+  try {
+    // A HEAD request rules out pages and huge files cheaply. Servers that refuse HEAD get a GET anyway.
+    const head = await safeFetch(url, { ...init, method: 'HEAD', signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS) }).catch(error => {
+      if (error instanceof UrlIntakeError) throw error;
+      return null;
+    });
+    if (head?.ok) {
+      if (!isImageType(head.headers.get('content-type'))) return { image: null, error: 'not an image' };
+      if (Number(head.headers.get('content-length')) > MAX_IMAGE_BYTES) return { image: null, error: 'too large' };
+    }
+
+    const response = await safeFetch(url, { ...init, signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS) });
+    if (!response.ok) return { image: null, error: `download failed with status ${response.status}` };
+    if (!isImageType(response.headers.get('content-type'))) return { image: null, error: 'not an image' };
+    const data = await readLimited(response, MAX_IMAGE_BYTES);
+    if (!data) return { image: null, error: 'too large' };
+
+    // The header only says what the server claims, so the format is read from the file itself.
+    const metadata = await sharp(data).metadata().catch(() => null);
+    const format = metadata?.format as ImageFormat | undefined;
+    if (!metadata || !format || !IMAGE_FORMATS.includes(format) || !metadata.width || !metadata.height) {
+      return { image: null, error: 'not a supported image format' };
+    }
+    if (metadata.width < MIN_IMAGE_SIZE || metadata.height < MIN_IMAGE_SIZE) {
+      return { image: null, error: `too small (${metadata.width}x${metadata.height})` };
+    }
+
+    const image: StoredImage = {
+      id: imageId(url),
+      source_url: url,
+      format,
+      width: metadata.width,
+      height: metadata.height,
+      bytes: data.length,
+      stored_at: new Date().toISOString(),
+    };
+    await fs.mkdir(imagesDir(), { recursive: true });
+    await writeAtomically(originalPath(image), data);
+    await writeAtomically(metaPath(image.id), JSON.stringify(image, null, 2));
+    return { image, error: null };
+  } catch (error) {
+    if (error instanceof UrlIntakeError) return { image: null, error: error.message };
+    log.warn('Failed to download image', { url, error });
+    return { image: null, error: 'download failed' };
+  }
+};
+
+// A verified candidate, or the warning explaining why it was dropped. Duplicates have neither.
+interface ImageCheck {
+  image: RecipeImageData | null;
+  warning: FieldIssue | null;
+}
+
+// Checks every candidate image of a recipe, storing the ones that are real photos so they can
+// be served from /images/:id. Invented, broken, hotlink-only and tiny images are dropped, each
+// with a warning.
+export const verifyImages = async (
+  images: RecipeImageData[],
+  pageUrl: string,
+): Promise<{ images: RecipeImageData[]; warnings: FieldIssue[] }> => {
+  const seen = new Set<string>();
+  const check = async (candidate: RecipeImageData, index: number): Promise<ImageCheck> => {
+    const field = `images[${index}]`;
+    if (seen.has(candidate.url)) return { image: null, warning: null };
+    seen.add(candidate.url);
+    if (seen.size > MAX_IMAGES) {
+      return { image: null, warning: { field, message: `${candidate.url} was dropped: recipes keep at most ${MAX_IMAGES} images` } };
+    }
+    const stored = await getStoredImage(imageId(candidate.url));
+    const { image, error } = stored ? { image: stored, error: null } : await downloadImage(candidate.url, pageUrl);
+    if (!image) return { image: null, warning: { field, message: `${candidate.url} was dropped: ${error}` } };
+    return { image: { ...candidate, id: image.id, width: image.width, height: image.height }, warning: null };
+  };
+  // Workers take candidates in order, so duplicates and the MAX_IMAGES cutoff are decided as before.
+  const results: ImageCheck[] = [];
+  let next = 0;
+  const worker = async () => {
+    while (next < images.length) {
+      const index = next++;
+      results[index] = await check(images[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(IMAGE_CONCURRENCY, images.length) }, worker));
+  return {
+    images: results.flatMap(({ image }) => (image ? [image] : [])),
+    warnings: results.flatMap(({ warning }) => (warning ? [warning] : [])),
+  };
+};
+
+// Returns a stored image scaled down to the given width as WebP, generating it on first use.
+// Images narrower than the width are never enlarged.
+export const getThumbnail = async (image: StoredImage, width: ThumbnailWidth): Promise<Buffer> => {
+  const file = thumbnailPath(image.id, width);
+  try {
+    return await fs.readFile(file);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+  const thumbnail = await sharp(await fs.readFile(originalPath(image)))
+    .rotate()
+    .resize({ width, withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+  await writeAtomically(file, thumbnail);
+  return thumbnail;
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { parseAmount, parseAmountRange, parseIngredientLine, parseIngredients } from './ingredients';
+
+describe('parseAmount', () => {
+  it('reads whole numbers, decimals and fractions', () => {
+    expect(parseAmount('2')).toBe(2);
+    expect(parseAmount('0,5')).toBe(0.5);
+    expect(parseAmount('3/4')).toBe(0.75);
+    expect(parseAmount('1 1/2')).toBe(1.5);
+    expect(parseAmount('1½')).toBe(1.5);
+  });
+
+  it('rejects text and zero denominators', () => {
+    expect(parseAmount('some')).toBeNull();
+    expect(parseAmount('1/0')).toBeNull();
+  });
+});
+
+describe('parseAmountRange', () => {
+  it('finds a range anywhere in the text', () => {
+    expect(parseAmountRange('Serves 4–6')).toEqual({ min: 4, max: 6 });
+    expect(parseAmountRange('12 cookies')).toEqual({ min: 12, max: 12 });
+    expect(parseAmountRange('a few')).toBeNull();
+  });
+});
+
+describe('parseIngredientLine', () => {
+  it('splits quantity, unit, name and notes', () => {
+    expect(parseIngredientLine('2 1/2 cups all-purpose flour, sifted (about 300g)')).toEqual({
+      raw: '2 1/2 cups all-purpose flour, sifted (about 300g)',
+      quantity: 2.5,
+      quantity_max: null,
+      unit: 'cup',
+      name: 'all-purpose flour',
+      notes: 'sifted; about 300g',
+      group: null,
+    });
+  });
+
+  it('reads ranges and the T/t shorthands', () => {
+    expect(parseIngredientLine('2-3 cloves garlic')).toMatchObject({ quantity: 2, quantity_max: 3, unit: 'clove', name: 'garlic' });
+    expect(parseIngredientLine('1 T sugar')).toMatchObject({ unit: 'tbsp', name: 'sugar' });
+    expect(parseIngredientLine('1 t salt')).toMatchObject({ unit: 'tsp', name: 'salt' });
+  });
+
+  it('keeps trailing qualifiers as notes', () => {
+    expect(parseIngredientLine('salt to taste')).toMatchObject({ quantity: null, unit: null, name: 'salt', notes: 'to taste' });
+  });
+});
+
+describe('parseIngredients', () => {
+  it('applies group headings to the lines that follow', () => {
+    const ingredients = parseIngredients(['For the sauce:', '1 cup tomatoes', '', 'Topping:', '50 g cheese']);
+    expect(ingredients.map(({ name, group }) => [name, group])).toEqual([
+      ['tomatoes', 'For the sauce'],
+      ['cheese', 'Topping'],
+    ]);
+  });
+});
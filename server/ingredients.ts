@@ -0,0 +1,196 @@
+// Canonical unit vocabulary used in structured ingredients.
+export type IngredientUnit =
+  | 'tsp' | 'tbsp' | 'cup' | 'fl oz' | 'pint' | 'quart' | 'gallon'
+  | 'ml' | 'l' | 'g' | 'kg' | 'oz' | 'lb'
+  | 'pinch' | 'dash' | 'clove' | 'can' | 'package' | 'slice' | 'stick'
+  | 'bunch' | 'sprig' | 'handful' | 'piece';
+
+export interface StructuredIngredient {
+  raw: string;
+  quantity: number | null;
+  quantity_max: number | null; // Upper bound for ranges like "2-3 cloves"
+  unit: IngredientUnit | null;
+  name: string;
+  notes: string | null; // Preparation notes, e.g. "finely chopped"
+  group: string | null; // Group heading, e.g. "For the sauce"
+}
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 1 / 2, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 1 / 4, '¾': 3 / 4,
+  '⅕': 1 / 5, '⅖': 2 / 5, '⅗': 3 / 5, '⅘': 4 / 5, '⅙': 1 / 6,
+  '⅚': 5 / 6, '⅛': 1 / 8, '⅜': 3 / 8, '⅝': 5 / 8, '⅞': 7 / 8,
+};
+
+// Aliases are matched case-insensitively, except for the "T"/"t" shorthands.
+const UNIT_ALIASES: Record<IngredientUnit, string[]> = {
+  'tsp': ['teaspoons', 'teaspoon', 'tsps', 'tsp', 'ts'],
+  'tbsp': ['tablespoons', 'tablespoon', 'tbsps', 'tbsp', 'tbs', 'tbl'],
+  'cup': ['cups', 'cup', 'c'],
+  'fl oz': ['fluid ounces', 'fluid ounce', 'fl. oz.', 'fl. oz', 'fl oz', 'floz'],
+  'pint': ['pints', 'pint', 'pts', 'pt'],
+  'quart': ['quarts', 'quart', 'qts', 'qt'],
+  'gallon': ['gallons', 'gallon', 'gal'],
+  'ml': ['milliliters', 'milliliter', 'millilitres', 'millilitre', 'ml'],
+  'l': ['liters', 'liter', 'litres', 'litre', 'l'],
+  'g': ['grams', 'gram', 'grammes', 'gramme', 'gr', 'g'],
+  'kg': ['kilograms', 'kilogram', 'kilos', 'kilo', 'kgs', 'kg'],
+  'oz': ['ounces', 'ounce', 'oz'],
+  'lb': ['pounds', 'pound', 'lbs', 'lb'],
+  'pinch': ['pinches', 'pinch'],
+  'dash': ['dashes', 'dash'],
+  'clove': ['cloves', 'clove'],
+  'can': ['cans', 'can', 'tins', 'tin'],
+  'package': ['packages', 'package', 'packets', 'packet', 'pkgs', 'pkg'],
+  'slice': ['slices', 'slice'],
+  'stick': ['sticks', 'stick'],
+  'bunch': ['bunches', 'bunch'],
+  'sprig': ['sprigs', 'sprig'],
+  'handful': ['handfuls', 'handful'],
+  'piece': ['pieces', 'piece', 'pcs'],
+};
+
+// Longest aliases first so "fl oz" wins over "oz" and "tbsp" over "t".
+const UNIT_LOOKUP: [string, IngredientUnit][] = (Object.entries(UNIT_ALIASES) as [IngredientUnit, string[]][])
+  .flatMap(([unit, aliases]) => aliases.map((alias): [string, IngredientUnit] => [alias, unit]))
+  .sort((a, b) => b[0].length - a[0].length);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join('');
+// A single amount: "1", "1.5", "1/2", "1 1/2", "½", "1½", "1 ½". Plain fractions come first
+// so "3/4" is not read as the whole number 3.
+export const AMOUNT_PATTERN = `(?:\\d+\\/\\d+|\\d+(?:[.,]\\d+)?(?:\\s*[${FRACTION_CHARS}]|\\s+\\d+\\/\\d+)?|[${FRACTION_CHARS}])`;
+const RANGE_PATTERN = `(${AMOUNT_PATTERN})(?:\\s*(?:-|–|—|to|or)\\s*(${AMOUNT_PATTERN}))?`;
+const QUANTITY_REGEX = new RegExp(`^${RANGE_PATTERN}`, 'i');
+const RANGE_REGEX = new RegExp(RANGE_PATTERN, 'i');
+
+// Converts a single amount such as "1 1/2", "1½" or "0,5" to a number.
+export const parseAmount = (text: string): number | null => {
+  let total = 0;
+  let matched = false;
+  for (const part of text.trim().split(/\s+|(?=[½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])/)) {
+    if (!part) continue;
+    if (UNICODE_FRACTIONS[part] !== undefined) {
+      total += UNICODE_FRACTIONS[part];
+    } else if (/^\d+\/\d+$/.test(part)) {
+      const [num, den] = part.split('/').map(Number);
+      if (den === 0) return null;
+      total += num / den;
+    } else if (/^\d+(?:[.,]\d+)?$/.test(part)) {
+      total += parseFloat(part.replace(',', '.'));
+    } else {
+      return null;
+    }
+    matched = true;
+  }
+  return matched ? total : null;
+};
+
+export interface AmountRange {
+  min: number;
+  max: number;
+}
+
+// Finds the first amount or amount range anywhere in the text, e.g. "Serves 4–6" or "12 cookies".
+export const parseAmountRange = (text?: string): AmountRange | null => {
+  if (!text) return null;
+  const match = text.match(RANGE_REGEX);
+  if (!match) return null;
+  const min = parseAmount(match[1]);
+  if (min === null) return null;
+  const max = match[2] ? parseAmount(match[2]) : null;
+  return { min, max: max !== null && max > min ? max : min };
+};
+
+const matchUnit = (text: string): { unit: IngredientUnit; rest: string } | null => {
+  // "T" is the conventional shorthand for tablespoon and "t" for teaspoon.
+  const shorthand = text.match(/^(T|t)\.?(?=\s|$)/);
+  if (shorthand) {
+    return { unit: shorthand[1] === 'T' ? 'tbsp' : 'tsp', rest: text.slice(shorthand[0].length) };
+  }
+  for (const [alias, unit] of UNIT_LOOKUP) {
+    const regex = new RegExp(`^${escapeRegExp(alias)}\\.?(?=[\\s,()]|$)`, 'i');
+    const match = text.match(regex);
+    if (match) return { unit, rest: text.slice(match[0].length) };
+  }
+  return null;
+};
+
+// A group heading is a line like "For the sauce:" or "Topping:" without a quantity.
+const parseGroupHeading = (line: string): string | null => {
+  const match = line.match(/^(?:#+\s*)?([^\d:]{1,60}):$/);
+  if (!match) return null;
+  return match[1].trim();
+};
+
+export const parseIngredientLine = (raw: string, group: string | null = null): StructuredIngredient => {
+  let text = raw.trim().replace(/^[-•*]\s*/, '');
+  const notes: string[] = [];
+
+  // Parenthetical asides, e.g. "(about 200g)" or "(optional)".
+  text = text.replace(/\s*\(([^)]*)\)/g, (_, inner: string) => {
+    if (inner.trim()) notes.push(inner.trim());
+    return ' ';
+  }).replace(/\s+/g, ' ').trim();
+
+  let quantity: number | null = null;
+  let quantityMax: number | null = null;
+  const quantityMatch = text.match(QUANTITY_REGEX);
+  if (quantityMatch) {
+    quantity = parseAmount(quantityMatch[1]);
+    quantityMax = quantityMatch[2] ? parseAmount(quantityMatch[2]) : null;
+    text = text.slice(quantityMatch[0].length).trim();
+  }
+
+  let unit: IngredientUnit | null = null;
+  const unitMatch = matchUnit(text);
+  // A bare "c" or "l" is only a unit when it follows a quantity.
+  if (unitMatch && (quantity !== null || unitMatch.rest.trim() !== '')) {
+    unit = unitMatch.unit;
+    text = unitMatch.rest.trim().replace(/^of\s+/i, '');
+  }
+
+  // Everything after the first comma is a preparation note: "onion, finely chopped".
+  const commaIndex = text.indexOf(',');
+  if (commaIndex !== -1) {
+    const note = text.slice(commaIndex + 1).trim();
+    if (note) notes.unshift(note);
+    text = text.slice(0, commaIndex).trim();
+  }
+
+  // Trailing qualifiers without a comma: "salt to taste", "parsley for garnish".
+  const qualifierMatch = text.match(/\s+((?:to taste|as needed|for (?:garnish|serving|frying|greasing)|optional)\b.*)$/i);
+  if (qualifierMatch && qualifierMatch.index) {
+    notes.unshift(qualifierMatch[1].trim());
+    text = text.slice(0, qualifierMatch.index).trim();
+  }
+
+  return {
+    raw,
+    quantity,
+    quantity_max: quantityMax,
+    unit,
+    name: text || raw.trim(),
+    notes: notes.length > 0 ? notes.join('; ') : null,
+    group,
+  };
+};
+
+// Parses a list of raw ingredient strings. Lines that look like group headings
+// are not returned themselves but set the group of the ingredients that follow.
+export const parseIngredients = (lines: string[]): StructuredIngredient[] => {
+  const result: StructuredIngredient[] = [];
+  let currentGroup: string | null = null;
+
+  for (const line of lines) {
+    if (!line || !line.trim()) continue;
+    const heading = parseGroupHeading(line.trim());
+    if (heading) {
+      currentGroup = heading;
+      continue;
+    }
+    result.push(parseIngredientLine(line, currentGroup));
+  }
+
+  return result;
+};
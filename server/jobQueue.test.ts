@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createJobQueue } from './jobQueue';
+import { currentRequest, runWithRequestContext } from './requestContext';
+
+// A processItem whose calls stay running until the test settles them.
+const controlledWork = () => {
+  const calls: { url: string; resolve: (value: string) => void; reject: (error: Error) => void }[] = [];
+  const processItem = (url: string) => new Promise<string>((resolve, reject) => calls.push({ url, resolve, reject }));
+  return { calls, processItem };
+};
+
+describe('createJobQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs at most `concurrency` items at a time, in submission order', async () => {
+    const { calls, processItem } = controlledWork();
+    const queue = createJobQueue({ processItem, concurrency: 2, ratePerMinute: 0, retentionMs: 60000 });
+    queue.createJob(['a', 'b', 'c']);
+    queue.createJob(['d']);
+    expect(calls.map(call => call.url)).toEqual(['a', 'b']);
+
+    calls[1].resolve('b');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls.map(call => call.url)).toEqual(['a', 'b', 'c']);
+    calls[0].resolve('a');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls.map(call => call.url)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('starts no more than `ratePerMinute` items per minute', async () => {
+    const { calls, processItem } = controlledWork();
+    const queue = createJobQueue({ processItem, concurrency: 5, ratePerMinute: 2, retentionMs: 60000 });
+    queue.createJob(['a', 'b', 'c']);
+    expect(calls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(29999);
+    expect(calls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('reports progress as items finish', async () => {
+    const { calls, processItem } = controlledWork();
+    const queue = createJobQueue({ processItem, concurrency: 1, ratePerMinute: 0, retentionMs: 60000 });
+    const { id } = queue.createJob(['a', 'b']);
+    expect(queue.getJob(id)).toMatchObject({ status: 'running', total: 2, completed: 0, failed: 0 });
+
+    calls[0].reject(new Error('Not a recipe'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.getJob(id)).toMatchObject({ status: 'running', completed: 0, failed: 1 });
+    expect(queue.getJob(id)?.items[0]).toMatchObject({ status: 'failed', error: 'Not a recipe', result: null });
+    expect(queue.getJob(id)?.items[1].status).toBe('running');
+
+    calls[1].resolve('recipe b');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.getJob(id)).toMatchObject({ status: 'completed', completed: 1, failed: 1, finished_at: expect.any(String) });
+    expect(queue.getJob(id)?.items[1]).toMatchObject({ status: 'succeeded', result: 'recipe b' });
+  });
+
+  it('forgets finished jobs after the retention period', async () => {
+    const queue = createJobQueue({ processItem: async url => url, concurrency: 1, ratePerMinute: 0, retentionMs: 60000 });
+    const { id } = queue.createJob(['a']);
+    await vi.advanceTimersByTimeAsync(59999);
+    expect(queue.getJob(id)?.status).toBe('completed');
+    await vi.advanceTimersByTimeAsync(1);
+    expect(queue.getJob(id)).toBeNull();
+  });
+
+  it('runs each item in its own request context, apart from the request that submitted it', async () => {
+    const seen: (string | undefined)[] = [];
+    const queue = createJobQueue({
+      processItem: async (url) => {
+        seen.push(currentRequest()?.requestId);
+        currentRequest()!.costUsd += 1;
+        return url;
+      },
+      concurrency: 1,
+      ratePerMinute: 0,
+      retentionMs: 60000,
+    });
+    const job = runWithRequestContext('submitter', () => {
+      const created = queue.createJob(['a', 'b']);
+      expect(currentRequest()?.costUsd).toBe(0);
+      return created;
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(seen).toEqual([`batch:${job.id}:0`, `batch:${job.id}:1`]);
+  });
+});
@@ -0,0 +1,121 @@
+import { randomUUID } from 'crypto';
+import { runWithRequestContext } from './requestContext';
+
+export type JobItemStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+export type JobStatus = 'queued' | 'running' | 'completed';
+
+export interface JobItem<T> {
+  url: string;
+  status: JobItemStatus;
+  result: T | null;
+  error: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+export interface Job<T> {
+  id: string;
+  // The id of the API key that submitted the job; null when authentication is disabled.
+  owner: string | null;
+  status: JobStatus;
+  created_at: string;
+  finished_at: string | null;
+  total: number;
+  completed: number;
+  failed: number;
+  items: JobItem<T>[];
+}
+
+export interface JobQueueOptions<T> {
+  processItem: (url: string) => Promise<T>;
+  concurrency: number;
+  // Maximum number of items started per minute across all jobs; 0 means unlimited.
+  ratePerMinute: number;
+  // Finished jobs are forgotten after this long.
+  retentionMs: number;
+}
+
+// A single in-memory worker queue shared by all batch jobs. Items are processed in the
+// order they were submitted, at most `concurrency` at a time, and no faster than
+// `ratePerMinute` so large imports do not exhaust the model quota.
+export const createJobQueue = <T>({ processItem, concurrency, ratePerMinute, retentionMs }: JobQueueOptions<T>) => {
+  const jobs = new Map<string, Job<T>>();
+  const pending: { job: Job<T>; item: JobItem<T> }[] = [];
+  const minIntervalMs = ratePerMinute > 0 ? 60000 / ratePerMinute : 0;
+  let running = 0;
+  let lastStartedAt = 0;
+  let timer: NodeJS.Timeout | null = null;
+
+  const updateJobStatus = (job: Job<T>) => {
+    job.completed = job.items.filter(item => item.status === 'succeeded').length;
+    job.failed = job.items.filter(item => item.status === 'failed').length;
+    if (job.completed + job.failed === job.total) {
+      job.status = 'completed';
+      job.finished_at = new Date().toISOString();
+      setTimeout(() => jobs.delete(job.id), retentionMs).unref();
+    } else if (job.items.some(item => item.status !== 'queued')) {
+      job.status = 'running';
+    }
+  };
+
+  const runItem = async (job: Job<T>, item: JobItem<T>) => {
+    running++;
+    lastStartedAt = Date.now();
+    item.status = 'running';
+    item.started_at = new Date().toISOString();
+    updateJobStatus(job);
+    try {
+      // Items often start from the submitting request's context, which has already been answered.
+      // Each gets its own, so its log lines and model spend are not counted towards that request.
+      const requestId = `batch:${job.id}:${job.items.indexOf(item)}`;
+      item.result = await runWithRequestContext(requestId, () => processItem(item.url));
+      item.status = 'succeeded';
+    } catch (error) {
+      item.error = error instanceof Error ? error.message : 'An unknown error occurred.';
+      item.status = 'failed';
+    } finally {
+      item.finished_at = new Date().toISOString();
+      running--;
+      updateJobStatus(job);
+      drain();
+    }
+  };
+
+  const drain = () => {
+    if (timer) return;
+    while (pending.length > 0 && running < concurrency) {
+      const wait = lastStartedAt + minIntervalMs - Date.now();
+      if (wait > 0) {
+        timer = setTimeout(() => {
+          timer = null;
+          drain();
+        }, wait);
+        return;
+      }
+      const next = pending.shift()!;
+      void runItem(next.job, next.item);
+    }
+  };
+
+  const createJob = (urls: string[], owner: string | null = null): Job<T> => {
+    const job: Job<T> = {
+      id: randomUUID(),
+      owner,
+      status: 'queued',
+      created_at: new Date().toISOString(),
+      finished_at: null,
+      total: urls.length,
+      completed: 0,
+      failed: 0,
+      items: urls.map(url => ({ url, status: 'queued', result: null, error: null, started_at: null, finished_at: null })),
+    };
+    jobs.set(job.id, job);
+    job.items.forEach(item => pending.push({ job, item }));
+    drain();
+    return job;
+  };
+
+  const getJob = (id: string): Job<T> | null => jobs.get(id) ?? null;
+
+  return { createJob, getJob };
+};
@@ -0,0 +1,32 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// The last write queued for each file. Writes to one file run one at a time, so concurrent
+// requests never interleave partial files.
+const writeQueues = new Map<string, Promise<void>>();
+
+// Reads a JSON file, or returns the fallback when it does not exist yet.
+export const readJsonFile = async <T>(file: string, fallback: T): Promise<T> => {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    return fallback;
+  }
+};
+
+// Saves the value as it stands when the write starts, once earlier writes to the file have
+// finished. A failed write rejects only its own caller, which hears of it before the next write
+// starts, so a change it takes back out of the value never reaches the file.
+export const writeJsonFile = (file: string, value: unknown): Promise<void> => {
+  const write = (writeQueues.get(file) ?? Promise.resolve()).catch(() => {}).then(async () => {
+    const snapshot = JSON.stringify(value, null, 2);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // The temporary file is renamed over the store, so a crash never leaves it truncated.
+    const tempFile = `${file}.tmp`;
+    await fs.writeFile(tempFile, snapshot, 'utf8');
+    await fs.rename(tempFile, file);
+  });
+  writeQueues.set(file, write);
+  return write;
+};
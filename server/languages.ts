@@ -0,0 +1,68 @@
+import { Recipe } from './types';
+
+// Language tags such as "es", "ar" or "pt-BR": a primary language, optionally with a region.
+const LANGUAGE_TAG = /^([a-z]{2,3})(?:[-_]([a-z]{2}|\d{3}))?$/i;
+
+// Canonical casing for a language tag ("pt-br" -> "pt-BR"), or null when it is not one.
+// Script and variant subtags, as in "zh-Hant-TW", are dropped.
+export const normalizeLanguage = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const [primary, region] = value.trim().split(/[-_]/).filter(part => !/^[a-z]{4}$/i.test(part));
+  const match = [primary, region].filter(Boolean).join('-').match(LANGUAGE_TAG);
+  if (!match) return null;
+  return match[2] ? `${match[1].toLowerCase()}-${match[2].toUpperCase()}` : match[1].toLowerCase();
+};
+
+const DISPLAY_NAMES = new Intl.DisplayNames(['en'], { type: 'language' });
+
+// The English name of a language tag, e.g. "Spanish" or "Brazilian Portuguese".
+export const languageName = (tag: string): string => {
+  try {
+    return DISPLAY_NAMES.of(tag) ?? tag;
+  } catch (error) {
+    return tag;
+  }
+};
+
+const primaryLanguage = (tag: string) => tag.split('-')[0];
+
+export const sameLanguage = (a: string | null, b: string | null) =>
+  a !== null && b !== null && primaryLanguage(a) === primaryLanguage(b);
+
+// US recipes use cups and Fahrenheit; nearly everywhere else cooks in metric and Celsius.
+const usesUsUnits = (tag: string) => tag === 'en' || tag === 'en-US' || tag === 'es-US';
+
+const unitInstructions = (tag: string) => usesUsUnits(tag)
+  ? 'Use US customary units (cups, tablespoons, ounces, pounds, °F), converting metric amounts where needed.'
+  : 'Use the metric units customary in that language (grams, millilitres, °C), converting cups, ounces, pounds and °F where needed. Spoon measures may stay as spoons.';
+
+// Appended to extraction prompts: either keep the source language or translate to the target.
+export const languageInstructions = (targetLanguage: string | null): string => {
+  const detect = 'Report the language the source is in as an ISO 639-1 code (e.g. "es", "ar", "ko") in the sourceLanguage field.';
+  if (!targetLanguage) {
+    return `${detect} Write the recipe in that same language; do not translate it.`;
+  }
+  return `${detect} Write every text field of the recipe in ${languageName(targetLanguage)} (${targetLanguage}), translating where needed. ${unitInstructions(targetLanguage)} Keep the timestamps and the number and order of ingredients and instructions unchanged.`;
+};
+
+// The fields of a recipe that get translated, in the same shape as the extraction schema.
+export const translatableFields = (recipe: Recipe): Recipe => ({
+  recipeName: recipe.recipeName,
+  description: recipe.description,
+  prepTime: recipe.prepTime,
+  cookTime: recipe.cookTime,
+  totalTime: recipe.totalTime,
+  servings: recipe.servings,
+  ingredients: recipe.ingredients,
+  instructions: recipe.instructions,
+});
+
+export const buildTranslationPrompt = (recipe: Recipe, targetLanguage: string) => ({
+  systemInstruction: 'You are an expert culinary translator. Translate recipes faithfully, using the natural cooking vocabulary of the target language. Respond only with the translated recipe in a structured JSON format that adheres to the provided schema. Do not include any other text, greetings, or explanations.',
+  prompt: `Translate this recipe into ${languageName(targetLanguage)} (${targetLanguage}).
+
+Translate the name, description, times, servings, ingredients and instructions. ${unitInstructions(targetLanguage)} Round converted amounts to what a cook would measure. Ingredient group headings stay on their own lines ending with a colon. Return exactly one ingredient line for each ingredient line and one instruction for each instruction, in the same order. Report the language of the original recipe as an ISO 639-1 code in sourceLanguage.
+
+Recipe:
+${JSON.stringify(translatableFields(recipe), null, 2)}`,
+});
@@ -0,0 +1,32 @@
+import { currentRequest } from './requestContext';
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// LOG_LEVEL hides less severe lines; read lazily so values loaded by dotenv are respected.
+const minimumLevel = (): number => LEVELS[process.env.LOG_LEVEL as LogLevel] ?? LEVELS.info;
+
+// Errors have no enumerable properties, so they would otherwise serialize as {}.
+const serialize = (value: unknown): unknown => {
+  if (!(value instanceof Error)) return value;
+  const status = (value as { status?: unknown }).status;
+  return { name: value.name, message: value.message, ...(status !== undefined ? { status } : {}), stack: value.stack };
+};
+
+// Writes one JSON object per line, tagged with the id of the request being handled, if any.
+// Warnings and errors go to stderr.
+const write = (level: LogLevel, message: string, fields: LogFields = {}) => {
+  if (LEVELS[level] < minimumLevel()) return;
+  const entry: LogFields = { time: new Date().toISOString(), level, msg: message, request_id: currentRequest()?.requestId };
+  for (const [key, value] of Object.entries(fields)) entry[key] = serialize(value);
+  (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(`${JSON.stringify(entry)}\n`);
+};
+
+export const log = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
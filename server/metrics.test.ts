@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { createCounter, createGauge, createHistogram, renderMetrics } from './metrics';
+
+// Lines of one metric family in the rendered output.
+const linesOf = (name: string) => renderMetrics().split('\n').filter(line => line.includes(` ${name} `) || line.startsWith(name));
+
+describe('renderMetrics', () => {
+  it('writes HELP and TYPE lines before the samples', () => {
+    const counter = createCounter('test_jobs_total', 'Jobs by kind.');
+    counter.inc({ kind: 'batch' });
+    counter.inc({ kind: 'batch' }, 2);
+    counter.inc();
+    createGauge('test_queue_length', 'Items waiting.', () => 7);
+
+    expect(linesOf('test_jobs_total')).toEqual([
+      '# HELP test_jobs_total Jobs by kind.',
+      '# TYPE test_jobs_total counter',
+      'test_jobs_total{kind="batch"} 3',
+      'test_jobs_total 1',
+    ]);
+    expect(linesOf('test_queue_length')).toEqual([
+      '# HELP test_queue_length Items waiting.',
+      '# TYPE test_queue_length gauge',
+      'test_queue_length 7',
+    ]);
+    expect(renderMetrics().endsWith('\n')).toBe(true);
+  });
+
+  it('escapes backslashes, quotes and newlines in label values', () => {
+    const counter = createCounter('test_escaped_total', 'Escaping.');
+    counter.inc({ path: 'C:\\recipes\\"best"\nlist' });
+    expect(linesOf('test_escaped_total')).toContain('test_escaped_total{path="C:\\\\recipes\\\\\\"best\\"\\nlist"} 1');
+  });
+
+  it('counts histogram observations in cumulative buckets', () => {
+    const histogram = createHistogram('test_duration_seconds', 'Durations.', [0.1, 1, 10]);
+    histogram.observe({ route: '/a' }, 0.05);
+    histogram.observe({ route: '/a' }, 1);
+    histogram.observe({ route: '/a' }, 30);
+    histogram.observe({ route: '/b' }, 2);
+
+    expect(linesOf('test_duration_seconds')).toEqual([
+      '# HELP test_duration_seconds Durations.',
+      '# TYPE test_duration_seconds histogram',
+      'test_duration_seconds_bucket{route="/a",le="0.1"} 1',
+      'test_duration_seconds_bucket{route="/a",le="1"} 2',
+      'test_duration_seconds_bucket{route="/a",le="10"} 2',
+      'test_duration_seconds_bucket{route="/a",le="+Inf"} 3',
+      'test_duration_seconds_sum{route="/a"} 31.05',
+      'test_duration_seconds_count{route="/a"} 3',
+      'test_duration_seconds_bucket{route="/b",le="0.1"} 0',
+      'test_duration_seconds_bucket{route="/b",le="1"} 0',
+      'test_duration_seconds_bucket{route="/b",le="10"} 1',
+      'test_duration_seconds_bucket{route="/b",le="+Inf"} 1',
+      'test_duration_seconds_sum{route="/b"} 2',
+      'test_duration_seconds_count{route="/b"} 1',
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+// A minimal in-process metrics registry rendered in the Prometheus text format for /metrics.
+// Values live in memory and restart from zero with the server, as Prometheus expects.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render: () => string[];
+}
+
+const registry: Metric[] = [];
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels) => {
+  const entries = Object.entries(labels);
+  return entries.length ? `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}` : '';
+};
+
+const header = (name: string, help: string, type: string) => [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+
+export const createCounter = (name: string, help: string) => {
+  const values = new Map<string, number>();
+  registry.push({
+    render: () => [...header(name, help, 'counter'), ...[...values].map(([labels, value]) => `${name}${labels} ${value}`)],
+  });
+  return {
+    inc: (labels: Labels = {}, amount = 1) => {
+      const key = formatLabels(labels);
+      values.set(key, (values.get(key) ?? 0) + amount);
+    },
+  };
+};
+
+// A gauge whose value is read when metrics are scraped.
+export const createGauge = (name: string, help: string, collect: () => number) => {
+  registry.push({ render: () => [...header(name, help, 'gauge'), `${name} ${collect()}`] });
+};
+
+export const createHistogram = (name: string, help: string, buckets: number[]) => {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+  registry.push({
+    render: () => [
+      ...header(name, help, 'histogram'),
+      ...[...series.values()].flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map((bucket, index) => `${name}_bucket${formatLabels({ ...labels, le: `${bucket}` })} ${counts[index]}`),
+        `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]),
+    ],
+  });
+  return {
+    observe: (labels: Labels, value: number) => {
+      const key = formatLabels(labels);
+      const entry = series.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+      series.set(key, entry);
+      // Buckets are cumulative: each counts every observation up to its bound.
+      buckets.forEach((bucket, index) => {
+        if (value <= bucket) entry.counts[index]++;
+      });
+      entry.sum += value;
+      entry.count++;
+    },
+  };
+};
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export const renderMetrics = () => `${registry.flatMap(metric => metric.render()).join('\n')}\n`;
+
+export const httpRequests = createCounter('http_requests_total', 'HTTP requests by method, route and status code.');
+export const httpRequestDuration = createHistogram(
+  'http_request_duration_seconds',
+  'HTTP request latency by method and route.',
+  [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120],
+);
+export const recipeAnalyses = createCounter(
+  'recipe_analyses_total',
+  'Recipe analyses by platform and outcome, with the error type of failures. Cache hits are not analyses.',
+);
+export const recipeAnalysisDuration = createHistogram(
+  'recipe_analysis_duration_seconds',
+  'Recipe analysis latency by platform and outcome.',
+  [0.5, 1, 2.5, 5, 10, 20, 30, 60, 120, 300],
+);
+export const modelTokens = createCounter('model_tokens_total', 'Model tokens by provider, model and direction (input or output).');
+export const modelCost = createCounter('model_cost_usd_total', 'Estimated model spend in US dollars by provider and model.');
+
+createGauge('process_uptime_seconds', 'Seconds since the server started.', () => Math.round(process.uptime()));
+createGauge('process_resident_memory_bytes', 'Resident memory of the server process.', () => process.memoryUsage().rss);
@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { ModelProvider } from './modelProvider';
+import { log } from './logger';
+
+// A recorded conversation. Replies are replayed in order, so a fixture whose first reply is
+// invalid also exercises the repair retry. The label "*" matches any request.
+export interface ModelFixture {
+  label: string;
+  responses: string[];
+  recorded_with?: string;
+  recorded_at?: string;
+}
+
+export interface MockOptions {
+  fixturesDir: string;
+  model: string;
+}
+
+// Replies are streamed in small pieces so partial-result events behave as they do live.
+const CHUNK_SIZE = 64;
+
+const readFixtures = async (dir: string): Promise<ModelFixture[]> => {
+  let files: string[];
+  try {
+    files = (await fs.readdir(dir)).filter(file => file.endsWith('.json'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    return [];
+  }
+  return Promise.all(files.map(async file => JSON.parse(await fs.readFile(path.join(dir, file), 'utf8')) as ModelFixture));
+};
+
+// Replays recorded replies instead of calling a model, so the server runs offline.
+// Fixtures are read on every conversation, so new recordings are picked up without a restart.
+export const createMockProvider = ({ fixturesDir, model }: MockOptions): ModelProvider => ({
+  name: 'mock',
+  model,
+  startConversation: async ({ label }) => {
+    const fixtures = await readFixtures(fixturesDir);
+    const fixture = fixtures.find(candidate => candidate.label === label) ?? fixtures.find(candidate => candidate.label === '*');
+    if (!fixture || fixture.responses.length === 0) {
+      throw new Error(`No mock fixture for "${label}" in ${fixturesDir}. Record one by running with MODEL_RECORD_DIR set.`);
+    }
+    let turn = 0;
+    return {
+      send: async function* () {
+        // Conversations longer than the recording keep getting its last reply.
+        const reply = fixture.responses[Math.min(turn, fixture.responses.length - 1)];
+        turn++;
+        for (let index = 0; index < reply.length; index += CHUNK_SIZE) {
+          yield reply.slice(index, index + CHUNK_SIZE);
+        }
+      },
+      // Replays cost nothing.
+      usage: () => ({ inputTokens: 0, outputTokens: 0 }),
+      close: async () => {},
+    };
+  },
+});
+
+// Names a fixture file after its label, with a hash so similar labels do not collide.
+const fixtureFilename = (label: string) => {
+  const slug = label.toLowerCase().replace(/^https?:\/\//, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return `${slug || 'fixture'}-${createHash('sha1').update(label).digest('hex').slice(0, 8)}.json`;
+};
+
+// Wraps a provider so every conversation is saved as a fixture when it closes.
+export const recordFixtures = (provider: ModelProvider, dir: string): ModelProvider => ({
+  ...provider,
+  startConversation: async (request) => {
+    const conversation = await provider.startConversation(request);
+    const responses: string[] = [];
+    return {
+      send: async function* (text: string) {
+        let reply = '';
+        for await (const delta of conversation.send(text)) {
+          reply += delta;
+          yield delta;
+        }
+        responses.push(reply);
+      },
+      usage: () => conversation.usage(),
+      close: async () => {
+        await conversation.close();
+        if (responses.length === 0) return;
+        const fixture: ModelFixture = {
+          label: request.label,
+          responses,
+          recorded_with: `${provider.name}/${provider.model}`,
+          recorded_at: new Date().toISOString(),
+        };
+        try {
+          await fs.mkdir(dir, { recursive: true });
+          await fs.writeFile(path.join(dir, fixtureFilename(request.label)), JSON.stringify(fixture, null, 2), 'utf8');
+        } catch (error) {
+          log.warn('Failed to record a fixture', { label: request.label, error });
+        }
+      },
+    };
+  },
+});
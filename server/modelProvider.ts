@@ -0,0 +1,123 @@
+import path from 'path';
+import { Schema } from '@google/genai';
+import { envNumber } from './env';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiProvider } from './openAiProvider';
+import { createMockProvider, recordFixtures } from './mockProvider';
+
+export const PROVIDER_NAMES = ['gemini', 'openai', 'mock'] as const;
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+export const isProviderName = (value: unknown): value is ProviderName =>
+  typeof value === 'string' && (PROVIDER_NAMES as readonly string[]).includes(value);
+
+// Content sent to the model ahead of the first message, such as an uploaded video or transcript.
+export type ModelAttachment =
+  | { kind: 'text'; text: string }
+  | { kind: 'video'; data: Blob; mimeType: string; filename: string };
+
+export interface ConversationRequest {
+  systemInstruction: string;
+  // The structure every reply must follow, in the OpenAPI subset Gemini accepts.
+  schema: Schema;
+  attachments: ModelAttachment[];
+  // Names the source in logs. The mock provider also picks its fixture by it.
+  label: string;
+}
+
+// Tokens billed for a conversation, as reported by the provider. Output includes thinking tokens.
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// A conversation with a model whose replies are JSON matching the request's schema.
+// Each reply joins the conversation, so follow-up messages can ask for corrections.
+export interface ModelConversation {
+  // Sends a message and streams the text of the reply as it is generated.
+  send: (text: string) => AsyncIterable<string>;
+  // The tokens used by every reply so far.
+  usage: () => TokenUsage;
+  // Releases anything held for the conversation, such as uploaded files.
+  close: () => Promise<void>;
+}
+
+export interface ModelProvider {
+  name: ProviderName;
+  model: string;
+  startConversation: (request: ConversationRequest) => Promise<ModelConversation>;
+}
+
+// A provider and model picked for one request; anything left out comes from the environment.
+export interface ProviderSelection {
+  provider?: ProviderName | null;
+  model?: string | null;
+}
+
+// MODEL_PROVIDER picks the provider used when a request does not name one.
+export const defaultProviderName = (): ProviderName => {
+  const configured = process.env.MODEL_PROVIDER || 'gemini';
+  if (!isProviderName(configured)) {
+    throw new Error(`MODEL_PROVIDER must be one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+  return configured;
+};
+
+// The mock provider stands in for every outside service, not only the model: analyses that
+// use it skip DNS checks, oEmbed lookups, page fetches and image downloads, and run offline.
+export const isOffline = ({ provider }: ProviderSelection = {}): boolean =>
+  (provider ?? process.env.MODEL_PROVIDER) === 'mock';
+
+// The model each provider uses when a request does not name one.
+const defaultModel = (name: ProviderName): string | undefined => {
+  switch (name) {
+    case 'gemini': return process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+    case 'openai': return process.env.OPENAI_MODEL;
+    case 'mock': return 'fixtures';
+  }
+};
+
+const DEFAULT_ALLOWED_MODELS = ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'];
+
+// Requests may only name models on this list, so a client cannot pick a costlier model than the
+// operator meant to pay for. ALLOWED_MODELS replaces it with comma-separated names; each
+// provider's default model is always allowed.
+export const isAllowedModel = ({ provider, model }: ProviderSelection): boolean => {
+  if (!model) return true;
+  const name = provider ?? (process.env.MODEL_PROVIDER || 'gemini');
+  if (!isProviderName(name)) return false;
+  const allowed = process.env.ALLOWED_MODELS
+    ? process.env.ALLOWED_MODELS.split(',').map(entry => entry.trim())
+    : DEFAULT_ALLOWED_MODELS;
+  return model === defaultModel(name) || allowed.includes(model);
+};
+
+export const fixturesDir = () => process.env.MOCK_FIXTURES_DIR || path.join(__dirname, 'fixtures');
+
+// Creates the selected provider. Throws when it is not configured, e.g. Gemini without API_KEY.
+// With MODEL_RECORD_DIR set, replies from real providers are saved as fixtures for the mock.
+export const getModelProvider = ({ provider, model }: ProviderSelection = {}): ModelProvider => {
+  const name = provider ?? defaultProviderName();
+  let selected: ModelProvider;
+  switch (name) {
+    case 'gemini':
+      selected = createGeminiProvider({
+        apiKey: process.env.API_KEY,
+        model: model || defaultModel(name)!,
+        videoTimeoutMs: envNumber('GEMINI_FILE_TIMEOUT_SECONDS', 300) * 1000,
+      });
+      break;
+    case 'openai':
+      selected = createOpenAiProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: process.env.OPENAI_API_KEY,
+        model: model || defaultModel(name),
+        timeoutMs: envNumber('OPENAI_TIMEOUT_SECONDS', 300) * 1000,
+      });
+      break;
+    case 'mock':
+      return createMockProvider({ fixturesDir: fixturesDir(), model: model || defaultModel(name)! });
+  }
+  const recordDir = process.env.MODEL_RECORD_DIR;
+  return recordDir ? recordFixtures(selected, recordDir) : selected;
+};
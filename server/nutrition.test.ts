@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { parseIngredients } from './ingredients';
+import { estimateNutrition } from './nutrition';
+
+const estimate = (lines: string[], yields = 1) => estimateNutrition(parseIngredients(lines), yields);
+
+// Expected values are worked out by hand from foods.json.
+describe('estimateNutrition', () => {
+  it('scales weights by the per-100 g values', () => {
+    // Flour: 364 kcal, 10.3 g protein, 76.3 g carbs, 1 g fat, 2.7 g fiber, 2 mg sodium.
+    expect(estimate(['200 g flour']).total).toEqual({ calories: 728, protein: 20.6, carbs: 152.6, fat: 2, fiber: 5.4, sodium: 4 });
+    expect(estimate(['1 lb flour']).total.calories).toBe(Math.round(3.64 * 453.592));
+  });
+
+  it('converts volumes with the food density', () => {
+    // 1 cup is 236.588 ml; milk weighs 1.03 g/ml, so 243.7 g at 61 kcal and 43 mg sodium per 100 g.
+    expect(estimate(['1 cup milk']).total).toMatchObject({ calories: 149, protein: 7.8, fat: 8, sodium: 105 });
+  });
+
+  it('uses per-piece weights for counted and packaged ingredients', () => {
+    // Two 50 g eggs, a 113 g stick of butter and a 0.4 g pinch of salt.
+    expect(estimate(['2 eggs']).total.calories).toBe(143);
+    expect(estimate(['1 stick butter']).total).toMatchObject({ calories: 810, fat: 91.6 });
+    expect(estimate(['1 pinch salt']).total.sodium).toBe(155);
+  });
+
+  it('lists what it could not count, with the reason', () => {
+    const result = estimate(['unicorn tears', 'salt to taste', '1 cup tortillas', '100 g flour']);
+    expect(result.unmatched_ingredients).toEqual([
+      { ingredient: 'unicorn tears', reason: 'no_match' },
+      { ingredient: 'salt to taste', reason: 'no_quantity' },
+      { ingredient: '1 cup tortillas', reason: 'unknown_unit' },
+    ]);
+    expect(result.total.calories).toBe(364);
+  });
+
+  it('divides the total by the servings', () => {
+    const result = estimate(['200 g flour', '2 eggs', '1 cup milk'], 4);
+    expect(result.servings).toBe(4);
+    expect(result.total.calories).toBe(1020);
+    expect(result.per_serving).toEqual({ calories: 255, protein: 10.2, carbs: 41.2, fat: 4.9, fiber: 1.4, sodium: 63 });
+  });
+
+  it('reports a recipe without a yield as one serving', () => {
+    const result = estimate(['200 g flour'], 0);
+    expect(result.servings).toBe(1);
+    expect(result.per_serving).toEqual(result.total);
+  });
+});
@@ -0,0 +1,133 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { IngredientUnit, StructuredIngredient } from './ingredients';
+
+// Calories in kcal, sodium in mg, everything else in grams.
+export interface NutritionFacts {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sodium: number;
+}
+
+// Why an ingredient was left out of the estimate.
+export type UnmatchedReason = 'no_match' | 'no_quantity' | 'unknown_unit';
+
+export interface UnmatchedIngredient {
+  ingredient: string;
+  reason: UnmatchedReason;
+}
+
+export interface NutritionEstimate {
+  per_serving: NutritionFacts;
+  total: NutritionFacts;
+  servings: number;
+  unmatched_ingredients: UnmatchedIngredient[];
+}
+
+interface FoodEntry {
+  name: string;
+  aliases: string[];
+  per_100g: NutritionFacts;
+  grams_per_ml?: number;
+  grams_per_unit?: Partial<Record<IngredientUnit, number>>;
+}
+
+const ML_PER_UNIT: Partial<Record<IngredientUnit, number>> = {
+  'tsp': 4.92892, 'tbsp': 14.7868, 'cup': 236.588, 'fl oz': 29.5735,
+  'pint': 473.176, 'quart': 946.353, 'gallon': 3785.41, 'ml': 1, 'l': 1000,
+  'pinch': 0.31, 'dash': 0.62,
+};
+
+const GRAMS_PER_UNIT: Partial<Record<IngredientUnit, number>> = {
+  'g': 1, 'kg': 1000, 'oz': 28.3495, 'lb': 453.592,
+};
+
+const normalizeName = (text: string) =>
+  ` ${text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z]+/g, ' ').trim()} `;
+
+// The bundled food table, with every alias normalized for matching. Loaded once at startup.
+const FOOD_ALIASES: { alias: string; pattern: RegExp; food: FoodEntry }[] = (() => {
+  const table = JSON.parse(readFileSync(path.join(__dirname, 'foods.json'), 'utf8')) as { foods: FoodEntry[] };
+  return table.foods
+    .flatMap(food => [food.name, ...food.aliases].map(alias => normalizeName(alias).trim()).map(alias => ({
+      alias,
+      // Aliases match whole words, optionally pluralized: "tomato" matches "ripe tomatoes".
+      pattern: new RegExp(` ${alias}(?:e?s)? `),
+      food,
+    })))
+    // Longer aliases first so "brown sugar" wins over "sugar" and "garlic powder" over "garlic".
+    .sort((a, b) => b.alias.length - a.alias.length);
+})();
+
+const findFood = (name: string): FoodEntry | null => {
+  const normalized = normalizeName(name);
+  const match = FOOD_ALIASES.find(({ pattern }) => pattern.test(normalized));
+  return match ? match.food : null;
+};
+
+const toGrams = (ingredient: StructuredIngredient, food: FoodEntry, quantity: number): number | null => {
+  const unit = ingredient.unit;
+  if (unit && GRAMS_PER_UNIT[unit]) return quantity * GRAMS_PER_UNIT[unit]!;
+  const unitWeight = food.grams_per_unit?.[unit ?? 'piece'];
+  if (unitWeight !== undefined) return quantity * unitWeight;
+  if (unit && ML_PER_UNIT[unit] && food.grams_per_ml) return quantity * ML_PER_UNIT[unit]! * food.grams_per_ml;
+  return null;
+};
+
+const emptyFacts = (): NutritionFacts => ({ calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sodium: 0 });
+
+const roundFacts = (facts: NutritionFacts): NutritionFacts => ({
+  calories: Math.round(facts.calories),
+  protein: Math.round(facts.protein * 10) / 10,
+  carbs: Math.round(facts.carbs * 10) / 10,
+  fat: Math.round(facts.fat * 10) / 10,
+  fiber: Math.round(facts.fiber * 10) / 10,
+  sodium: Math.round(facts.sodium),
+});
+
+// Estimates nutrition from the bundled food table. Ranges like "2-3 carrots" count their
+// midpoint. Recipes without a yield are reported as a single serving.
+export const estimateNutrition = (ingredients: StructuredIngredient[], yields: number): NutritionEstimate => {
+  const total = emptyFacts();
+  const unmatched: UnmatchedIngredient[] = [];
+
+  for (const ingredient of ingredients) {
+    const food = findFood(ingredient.name);
+    if (!food) {
+      unmatched.push({ ingredient: ingredient.raw, reason: 'no_match' });
+      continue;
+    }
+    // A unit without a number, as in "pinch of salt", means one of that unit.
+    const quantity = ingredient.quantity === null
+      ? (ingredient.unit !== null ? 1 : null)
+      : ingredient.quantity_max !== null ? (ingredient.quantity + ingredient.quantity_max) / 2 : ingredient.quantity;
+    if (quantity === null) {
+      unmatched.push({ ingredient: ingredient.raw, reason: 'no_quantity' });
+      continue;
+    }
+    const grams = toGrams(ingredient, food, quantity);
+    if (grams === null) {
+      unmatched.push({ ingredient: ingredient.raw, reason: 'unknown_unit' });
+      continue;
+    }
+    for (const key of Object.keys(total) as (keyof NutritionFacts)[]) {
+      total[key] += (food.per_100g[key] * grams) / 100;
+    }
+  }
+
+  const servings = yields > 0 ? yields : 1;
+  const perServing = emptyFacts();
+  for (const key of Object.keys(total) as (keyof NutritionFacts)[]) {
+    perServing[key] = total[key] / servings;
+  }
+
+  return {
+    per_serving: roundFacts(perServing),
+    total: roundFacts(total),
+    servings,
+    unmatched_ingredients: unmatched,
+  };
+};
@@ -0,0 +1,49 @@
+import { Type } from '@google/genai';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createOpenAiProvider } from './openAiProvider';
+
+// Answers the chat completions request with the given Server-Sent Events body.
+const streamReply = (body: string) => {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(body, { headers: { 'Content-Type': 'text/event-stream' } })));
+};
+
+const sendOnce = async (text: string) => {
+  const provider = createOpenAiProvider({ baseUrl: 'http://localhost:11434/v1/', apiKey: undefined, model: 'llama3.1', timeoutMs: 1000 });
+  const conversation = await provider.startConversation({
+    systemInstruction: 'Extract the recipe.',
+    schema: { type: Type.OBJECT, properties: { recipeName: { type: Type.STRING } } },
+    attachments: [],
+    label: 'test',
+  });
+  let reply = '';
+  for await (const delta of conversation.send(text)) reply += delta;
+  return { reply, usage: conversation.usage() };
+};
+
+describe('createOpenAiProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('joins the streamed deltas and reads the token counts', async () => {
+    streamReply([
+      ': keep-alive',
+      'data: {"choices":[{"delta":{"content":"{\\"recipeName\\":"}}]}',
+      'data: {"choices":[{"delta":{"content":"\\"Pancakes\\"}"}}]}',
+      'data: {"choices":[],"usage":{"prompt_tokens":120,"completion_tokens":8}}',
+      'data: [DONE]',
+      '',
+    ].join('\n'));
+    expect(await sendOnce('Pancakes')).toEqual({ reply: '{"recipeName":"Pancakes"}', usage: { inputTokens: 120, outputTokens: 8 } });
+  });
+
+  it('reports a stream event that is not JSON', async () => {
+    streamReply('data: {"choices":[{"delta":{"content":"{"}}]}\ndata: {"choices":[{"del\n\n');
+    await expect(sendOnce('Pancakes')).rejects.toThrow('The model server sent a stream event that is not JSON: {"choices":[{"del');
+  });
+
+  it('reports errors sent in the stream', async () => {
+    streamReply('data: {"error":{"message":"model \\"llama3.1\\" not found"}}\n\n');
+    await expect(sendOnce('Pancakes')).rejects.toThrow('The model server reported an error: model "llama3.1" not found');
+  });
+});
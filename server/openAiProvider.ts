@@ -0,0 +1,123 @@
+import { Schema } from '@google/genai';
+import { ModelProvider, TokenUsage } from './modelProvider';
+
+export interface OpenAiOptions {
+  // e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp.
+  baseUrl: string;
+  apiKey: string | undefined;
+  model: string | null | undefined;
+  timeoutMs: number;
+}
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+type JsonSchema = { [key: string]: unknown };
+
+// Converts a Gemini schema, whose types are upper case, to the JSON Schema that
+// OpenAI-compatible servers expect in response_format.
+export const toJsonSchema = (schema: Schema): JsonSchema => {
+  const result: JsonSchema = {};
+  if (schema.type) result.type = schema.nullable ? [schema.type.toLowerCase(), 'null'] : schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, property]) => [key, toJsonSchema(property)]),
+    );
+  }
+  if (schema.required) result.required = schema.required;
+  return result;
+};
+
+// Yields the content deltas of a streamed chat completion, which arrives as Server-Sent Events.
+// The token counts come in a final chunk without choices.
+const readChatStream = async function* (body: ReadableStream<Uint8Array>, onUsage: (usage: TokenUsage) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop()!;
+    for (const line of lines) {
+      const data = line.match(/^data:\s*(.*)$/)?.[1]?.trim();
+      if (!data || data === '[DONE]') continue;
+      let chunk;
+      try {
+        chunk = JSON.parse(data);
+      } catch (error) {
+        throw new Error(`The model server sent a stream event that is not JSON: ${data.slice(0, 200)}`);
+      }
+      if (chunk.error) throw new Error(`The model server reported an error: ${chunk.error.message ?? JSON.stringify(chunk.error)}`);
+      if (chunk.usage) onUsage({ inputTokens: chunk.usage.prompt_tokens ?? 0, outputTokens: chunk.usage.completion_tokens ?? 0 });
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (typeof delta === 'string' && delta) yield delta;
+    }
+    if (done) return;
+  }
+};
+
+// Talks to any server implementing the OpenAI chat completions API with JSON schema output,
+// such as Ollama, llama.cpp or vLLM. These models cannot watch videos.
+export const createOpenAiProvider = ({ baseUrl, apiKey, model, timeoutMs }: OpenAiOptions): ModelProvider => {
+  if (!model) {
+    throw new Error('OPENAI_MODEL is not configured on the server.');
+  }
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai',
+    model,
+    startConversation: async ({ systemInstruction, schema, attachments }) => {
+      if (attachments.some(attachment => attachment.kind === 'video')) {
+        throw new Error(`${model} cannot watch videos. Upload a transcript instead, or use the gemini provider.`);
+      }
+      const messages: ChatMessage[] = [{ role: 'system', content: systemInstruction }];
+      let pending = attachments.map(attachment => (attachment.kind === 'text' ? attachment.text : '')).join('\n\n');
+      const responseFormat = { type: 'json_schema', json_schema: { name: 'recipe', schema: toJsonSchema(schema) } };
+      const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+      const addUsage = (turn: TokenUsage) => {
+        usage.inputTokens += turn.inputTokens;
+        usage.outputTokens += turn.outputTokens;
+      };
+
+      return {
+        send: async function* (text: string) {
+          // Attachments go with the first message only.
+          messages.push({ role: 'user', content: pending ? `${pending}\n\n${text}` : text });
+          pending = '';
+          let response: globalThis.Response;
+          try {
+            response = await fetch(endpoint, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+              body: JSON.stringify({
+                model, messages, stream: true, stream_options: { include_usage: true }, response_format: responseFormat,
+              }),
+              signal: AbortSignal.timeout(timeoutMs),
+            });
+          } catch (error) {
+            throw new Error(`Could not reach the model server at ${baseUrl}: ${error instanceof Error ? error.message : error}`);
+          }
+          if (!response.ok || !response.body) {
+            const detail = (await response.text().catch(() => '')).slice(0, 200);
+            throw new Error(`The model server responded with ${response.status}${detail ? `: ${detail}` : ''}`);
+          }
+          let reply = '';
+          for await (const delta of readChatStream(response.body, addUsage)) {
+            reply += delta;
+            yield delta;
+          }
+          messages.push({ role: 'assistant', content: reply });
+        },
+        usage: () => ({ ...usage }),
+        close: async () => {},
+      };
+    },
+  };
+};
@@ -0,0 +1,78 @@
+// Parses the prefix of a JSON document as it streams in from the model, e.g.
+// `{"recipeName": "Pancakes", "ingredients": ["1 cup fl` becomes
+// `{ recipeName: 'Pancakes', ingredients: [] }`. Unfinished strings, keys and
+// values are dropped so only complete values are reported. Returns null when
+// nothing usable has arrived yet.
+export const parsePartialJson = (text: string): unknown => {
+  const stack: ('{' | '[')[] = [];
+  let inString = false;
+  let escaped = false;
+  // Index just after the last position where the document could be cut and closed.
+  let safeEnd = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') {
+        inString = false;
+        // A finished string inside an array is a complete value; inside an object it
+        // may be a key, which only becomes complete together with its value.
+        if (stack[stack.length - 1] === '[') safeEnd = i + 1;
+        else if (isValuePosition(text, i)) safeEnd = i + 1;
+      }
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') {
+      stack.push(char);
+      safeEnd = i + 1;
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      safeEnd = i + 1;
+    } else if (char === ',') {
+      safeEnd = i;
+    } else if (/[\d.eE+\-truefalsn]/.test(char) && /[\d}\],\s]/.test(text[i + 1] ?? '')) {
+      // The end of a number or literal is only certain once the next character arrives.
+      safeEnd = i + 1;
+    }
+  }
+
+  if (safeEnd <= 0) return null;
+  const prefix = text.slice(0, safeEnd).replace(/[,:]\s*$/, '');
+
+  // Recount the open containers in the cut prefix and close them.
+  const open: string[] = [];
+  inString = false;
+  escaped = false;
+  for (const char of prefix) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{') open.push('}');
+    else if (char === '[') open.push(']');
+    else if (char === '}' || char === ']') open.pop();
+  }
+
+  try {
+    return JSON.parse(prefix.replace(/,\s*$/, '') + open.reverse().join(''));
+  } catch (e) {
+    return null;
+  }
+};
+
+// True when the string that closes at `quoteIndex` is a value rather than an object key,
+// i.e. the previous non-whitespace character before its opening quote is a colon.
+const isValuePosition = (text: string, quoteIndex: number): boolean => {
+  let i = quoteIndex - 1;
+  // Walk back to the opening quote, skipping escaped quotes.
+  while (i >= 0 && !(text[i] === '"' && text[i - 1] !== '\\')) i--;
+  i--;
+  while (i >= 0 && /\s/.test(text[i])) i--;
+  return text[i] === ':';
+};
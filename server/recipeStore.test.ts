@@ -0,0 +1,86 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecipeAPIResponseData } from './types';
+
+type RecipeStore = typeof import('./recipeStore');
+
+const recipe = (title: string): RecipeAPIResponseData => ({
+  title,
+  ingredients: ['2 eggs'],
+  instructions: ['Whisk the eggs.'],
+} as RecipeAPIResponseData);
+
+describe('recipeStore', () => {
+  let dir: string;
+  let file: string;
+  // A fresh module per test, so each starts with nothing loaded.
+  let store: RecipeStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'recipes-'));
+    file = path.join(dir, 'recipes.json');
+    vi.stubEnv('RECIPES_DB_PATH', file);
+    vi.resetModules();
+    store = await import('./recipeStore');
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('saves, updates and deletes recipes per owner', async () => {
+    const { createRecipe, deleteRecipe, getRecipe, listRecipes, updateRecipe } = store;
+    const saved = await createRecipe('key-1', recipe('Omelette'), 'website');
+    expect(await getRecipe('key-1', saved.id)).toMatchObject({ title: 'Omelette', owner: 'key-1' });
+    expect(await getRecipe('key-2', saved.id)).toBeNull();
+
+    expect(await updateRecipe('key-1', saved.id, { title: 'Folded omelette' })).toMatchObject({ title: 'Folded omelette' });
+    expect(await listRecipes('key-1', 'folded')).toHaveLength(1);
+    expect(JSON.parse(await fs.readFile(file, 'utf8'))[0].title).toBe('Folded omelette');
+
+    expect(await deleteRecipe('key-2', saved.id)).toBe(false);
+    expect(await deleteRecipe('key-1', saved.id)).toBe(true);
+    expect(await listRecipes('key-1')).toEqual([]);
+  });
+
+  it('drops a change that could not be saved and keeps accepting writes', async () => {
+    const { createRecipe, getRecipe, listRecipes } = store;
+    const first = await createRecipe(null, recipe('Pancakes'), 'website');
+    vi.spyOn(fs, 'rename').mockRejectedValueOnce(Object.assign(new Error('No space left on device'), { code: 'ENOSPC' }));
+
+    await expect(createRecipe(null, recipe('Waffles'), 'website')).rejects.toThrow('No space left');
+    expect((await listRecipes(null)).map(saved => saved.title)).toEqual(['Pancakes']);
+
+    await createRecipe(null, recipe('Crêpes'), 'website');
+    const onDisk = JSON.parse(await fs.readFile(file, 'utf8')) as { title: string }[];
+    expect(onDisk.map(saved => saved.title)).toEqual(['Pancakes', 'Crêpes']);
+    expect(await getRecipe(null, first.id)).not.toBeNull();
+  });
+
+  it('keeps both recipes when the first two saves arrive together', async () => {
+    await Promise.all([
+      store.createRecipe(null, recipe('Pancakes'), 'website'),
+      store.createRecipe(null, recipe('Waffles'), 'website'),
+    ]);
+    const onDisk = JSON.parse(await fs.readFile(file, 'utf8')) as { title: string }[];
+    expect(onDisk.map(saved => saved.title)).toEqual(['Pancakes', 'Waffles']);
+  });
+
+  it('keeps a failed change out of a write queued behind it', async () => {
+    await store.createRecipe(null, recipe('Pancakes'), 'website');
+    vi.spyOn(fs, 'rename').mockRejectedValueOnce(Object.assign(new Error('No space left on device'), { code: 'ENOSPC' }));
+    const [failed, saved] = await Promise.allSettled([
+      store.createRecipe(null, recipe('Waffles'), 'website'),
+      store.createRecipe(null, recipe('Crêpes'), 'website'),
+    ]);
+    expect(failed.status).toBe('rejected');
+    expect(saved.status).toBe('fulfilled');
+    const onDisk = JSON.parse(await fs.readFile(file, 'utf8')) as { title: string }[];
+    expect(onDisk.map(recipe => recipe.title)).toEqual(['Pancakes', 'Crêpes']);
+    expect((await store.listRecipes(null)).map(recipe => recipe.title).sort()).toEqual(['Crêpes', 'Pancakes']);
+  });
+});
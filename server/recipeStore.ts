@@ -0,0 +1,119 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Allergen, classifyDietary, Diet, DietaryInfo } from './dietary';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+import { Platform, RecipeAPIResponseData } from './types';
+
+export interface SavedRecipe extends RecipeAPIResponseData {
+  id: string;
+  platform: Platform;
+  // The id of the API key that saved the recipe; null when authentication is disabled.
+  owner?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Fields a client may change with PATCH. Identity, source and timestamps are managed here.
+export type RecipeUpdate = Partial<Omit<SavedRecipe, 'id' | 'platform' | 'owner' | 'created_at' | 'updated_at' | 'url' | 'host'>>;
+
+// Read lazily so values loaded by dotenv after import are respected.
+const storePath = () => process.env.RECIPES_DB_PATH || path.join(__dirname, 'data', 'recipes.json');
+
+// The store is read once. Concurrent first requests share the read, so they all change the
+// same array; a failed read is tried again on next use.
+let loading: Promise<SavedRecipe[]> | null = null;
+
+const load = (): Promise<SavedRecipe[]> => {
+  loading ??= readJsonFile<SavedRecipe[]>(storePath(), []).catch(error => {
+    loading = null;
+    throw error;
+  });
+  return loading;
+};
+
+// Changes are made in memory first. When saving one fails, `undo` takes it back out of the
+// array before writes queued behind it serialize the store, so it never reaches the file.
+const persist = async (all: SavedRecipe[], undo: () => void): Promise<void> => {
+  try {
+    await writeJsonFile(storePath(), all);
+  } catch (error) {
+    undo();
+    throw error;
+  }
+};
+
+const matchesQuery = (recipe: SavedRecipe, query: string) => {
+  const needle = query.toLowerCase();
+  return recipe.title.toLowerCase().includes(needle)
+    || recipe.ingredients.some(ingredient => ingredient.toLowerCase().includes(needle));
+};
+
+export interface RecipeFilters {
+  diets?: Diet[];
+  freeOf?: Allergen[];
+}
+
+// Recipes saved before dietary tags existed are classified on the fly.
+const dietaryOf = (recipe: SavedRecipe): DietaryInfo =>
+  recipe.dietary ?? classifyDietary((recipe.structured_ingredients ?? []).map(ingredient => ingredient.raw));
+
+const matchesFilters = (recipe: SavedRecipe, filters: RecipeFilters) => {
+  if (!filters.diets?.length && !filters.freeOf?.length) return true;
+  const dietary = dietaryOf(recipe);
+  return (filters.diets ?? []).every(diet => dietary.diets.some(result => result.diet === diet && result.compatible))
+    && (filters.freeOf ?? []).every(allergen => !dietary.allergens.some(warning => warning.allergen === allergen));
+};
+
+// Each API key only sees the recipes it saved.
+const ownedBy = (recipe: SavedRecipe, owner: string | null) => (recipe.owner ?? null) === owner;
+
+// Returns an owner's saved recipes, newest first, optionally filtered by title or ingredient and dietary tags.
+export const listRecipes = async (owner: string | null, query?: string, filters: RecipeFilters = {}): Promise<SavedRecipe[]> => {
+  const all = await load();
+  const needle = query?.trim();
+  const filtered = all.filter(recipe => ownedBy(recipe, owner) && (!needle || matchesQuery(recipe, needle)) && matchesFilters(recipe, filters));
+  return filtered.sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+export const getRecipe = async (owner: string | null, id: string): Promise<SavedRecipe | null> => {
+  const all = await load();
+  return all.find(recipe => recipe.id === id && ownedBy(recipe, owner)) ?? null;
+};
+
+export const createRecipe = async (owner: string | null, data: RecipeAPIResponseData, platform: Platform): Promise<SavedRecipe> => {
+  const all = await load();
+  const now = new Date().toISOString();
+  const saved: SavedRecipe = { ...data, id: randomUUID(), platform, owner, created_at: now, updated_at: now };
+  all.push(saved);
+  await persist(all, () => {
+    const index = all.indexOf(saved);
+    if (index !== -1) all.splice(index, 1);
+  });
+  return saved;
+};
+
+export const updateRecipe = async (owner: string | null, id: string, update: RecipeUpdate): Promise<SavedRecipe | null> => {
+  const all = await load();
+  const index = all.findIndex(recipe => recipe.id === id && ownedBy(recipe, owner));
+  if (index === -1) return null;
+  const previous = all[index];
+  const updated: SavedRecipe = { ...previous, ...update, updated_at: new Date().toISOString() };
+  all[index] = updated;
+  await persist(all, () => {
+    // Other changes may have moved the recipe since; an edit made after this one stands.
+    const current = all.indexOf(updated);
+    if (current !== -1) all[current] = previous;
+  });
+  return updated;
+};
+
+export const deleteRecipe = async (owner: string | null, id: string): Promise<boolean> => {
+  const all = await load();
+  const index = all.findIndex(recipe => recipe.id === id && ownedBy(recipe, owner));
+  if (index === -1) return false;
+  const [removed] = all.splice(index, 1);
+  await persist(all, () => {
+    if (!all.some(recipe => recipe.id === removed.id)) all.splice(Math.min(index, all.length), 0, removed);
+  });
+  return true;
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { cleanRecipe, parseRecipeJson, repairRecipe } from './recipeValidation';
+import { Recipe } from './types';
+
+const recipe = (fields: Partial<Recipe>): Recipe => ({
+  recipeName: 'Brioche',
+  description: '',
+  ingredients: ['500 g flour'],
+  instructions: ['Knead.'],
+  ...fields,
+});
+
+describe('cleanRecipe', () => {
+  it('strips list markers and drops empty and repeated lines', () => {
+    const { recipe: cleaned, warnings } = cleanRecipe(recipe({
+      ingredients: ['- 500 g flour', '  ', '500 g flour', '2 eggs'],
+      instructions: ['1. Knead.', 'Step 2: Rest.', '1.5 cups water is fine.'],
+    }));
+    expect(cleaned.ingredients).toEqual(['500 g flour', '2 eggs']);
+    expect(cleaned.instructions).toEqual(['Knead.', 'Rest.', '1.5 cups water is fine.']);
+    expect(warnings.map(({ message }) => message)).toEqual([
+      'Removed list markers from 1 ingredient',
+      'Removed 1 empty ingredient',
+      'Removed 1 duplicate ingredient',
+      'Removed list markers from 2 instructions',
+    ]);
+  });
+
+  it('keeps the same line in different groups', () => {
+    const { recipe: cleaned, warnings } = cleanRecipe(recipe({
+      ingredients: ['For the dough:', '500 g flour', '1 egg', 'For the egg wash:', '1 egg', '1 egg'],
+    }));
+    expect(cleaned.ingredients).toEqual(['For the dough:', '500 g flour', '1 egg', 'For the egg wash:', '1 egg']);
+    expect(warnings).toEqual([{ field: 'ingredients', message: 'Removed 1 duplicate ingredient' }]);
+  });
+
+  it('moves step timestamps along with their instruction', () => {
+    const { recipe: cleaned } = cleanRecipe(recipe({
+      instructions: ['Knead.', '', 'Rest.'],
+      stepTimestamps: [{ step: 1, start: '0:05' }, { step: 2, start: '0:20' }, { step: 3, start: '0:40' }],
+    }));
+    expect(cleaned.stepTimestamps).toEqual([{ step: 1, start: '0:05' }, { step: 2, start: '0:40' }]);
+  });
+
+  it('moves step images along with their instruction', () => {
+    const { recipe: cleaned } = cleanRecipe(recipe({
+      instructions: ['1.', 'Knead.', 'Rest.'],
+      images: [
+        { url: 'https://example.com/a.jpg', description: '', category: 'step', step: 1 },
+        { url: 'https://example.com/b.jpg', description: '', category: 'step', step: 3 },
+        { url: 'https://example.com/c.jpg', description: '', category: 'main' },
+      ],
+    }));
+    expect(cleaned.images).toEqual([
+      { url: 'https://example.com/a.jpg', description: '', category: 'step' },
+      { url: 'https://example.com/b.jpg', description: '', category: 'step', step: 2 },
+      { url: 'https://example.com/c.jpg', description: '', category: 'main' },
+    ]);
+  });
+});
+
+describe('repairRecipe', () => {
+  it('reports field-level errors', () => {
+    const { recipe: repaired, errors } = repairRecipe({ recipeName: '', description: 'x', ingredients: [], instructions: [3] });
+    expect(repaired).toBeNull();
+    expect(errors).toEqual([
+      { field: 'recipeName', message: 'must not be empty' },
+      { field: 'ingredients', message: 'must contain at least 1 item' },
+      { field: 'instructions[0]', message: 'must be a string' },
+    ]);
+  });
+});
+
+describe('parseRecipeJson', () => {
+  it('reports empty and malformed responses', () => {
+    expect(parseRecipeJson('  ').errors).toEqual([{ field: 'recipe', message: 'is missing: the response was empty' }]);
+    expect(parseRecipeJson('{"recipeName":').errors[0].message).toMatch(/^is not valid JSON/);
+  });
+});
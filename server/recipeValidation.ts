@@ -0,0 +1,236 @@
+import { Recipe } from './types';
+
+// A problem with one field of a recipe, e.g. `{ field: 'instructions[2]', message: 'must not be empty' }`.
+// Used both for validation errors and for warnings about repairs.
+export interface FieldIssue {
+  field: string;
+  message: string;
+}
+
+type Schema =
+  | { type: 'string'; nonEmpty?: boolean }
+  | { type: 'integer'; min?: number }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'array'; items: Schema; minItems?: number }
+  | { type: 'object'; properties: Record<string, Schema>; required?: string[] };
+
+const RECIPE_SCHEMA: Schema = {
+  type: 'object',
+  required: ['recipeName', 'description', 'ingredients', 'instructions'],
+  properties: {
+    recipeName: { type: 'string', nonEmpty: true },
+    description: { type: 'string' },
+    prepTime: { type: 'string' },
+    cookTime: { type: 'string' },
+    totalTime: { type: 'string' },
+    servings: { type: 'string' },
+    sourceLanguage: { type: 'string' },
+    ingredients: { type: 'array', minItems: 1, items: { type: 'string', nonEmpty: true } },
+    instructions: { type: 'array', minItems: 1, items: { type: 'string', nonEmpty: true } },
+    images: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['url', 'category'],
+        properties: {
+          url: { type: 'string', nonEmpty: true },
+          description: { type: 'string' },
+          category: { type: 'enum', values: ['main', 'step', 'additional'] },
+          step: { type: 'integer', min: 1 },
+        },
+      },
+    },
+    stepTimestamps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['step', 'start'],
+        properties: {
+          step: { type: 'integer', min: 1 },
+          start: { type: 'string', nonEmpty: true },
+          end: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+const validate = (schema: Schema, value: unknown, path: string, errors: FieldIssue[]) => {
+  const fail = (message: string) => errors.push({ field: path || 'recipe', message });
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') fail('must be a string');
+      else if (schema.nonEmpty && value.trim() === '') fail('must not be empty');
+      return;
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) fail('must be an integer');
+      else if (schema.min !== undefined && value < schema.min) fail(`must be at least ${schema.min}`);
+      return;
+    case 'enum':
+      if (typeof value !== 'string' || !schema.values.includes(value)) fail(`must be one of: ${schema.values.join(', ')}`);
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        fail('must be an array');
+        return;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        fail(`must contain at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`);
+      }
+      value.forEach((item, index) => validate(schema.items, item, `${path}[${index}]`, errors));
+      return;
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        fail('must be an object');
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined || record[key] === null) errors.push({ field: path ? `${path}.${key}` : key, message: 'is required' });
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        if (record[key] === undefined || record[key] === null) continue;
+        validate(propertySchema, record[key], path ? `${path}.${key}` : key, errors);
+      }
+      return;
+    }
+  }
+};
+
+// Checks a value against the Recipe schema. The recipe is only returned when there are no errors.
+export const validateRecipe = (value: unknown): { recipe: Recipe | null; errors: FieldIssue[] } => {
+  const errors: FieldIssue[] = [];
+  validate(RECIPE_SCHEMA, value, '', errors);
+  return { recipe: errors.length === 0 ? value as Recipe : null, errors };
+};
+
+// "1. Preheat", "1) Preheat", "Step 1: Preheat", "- Preheat", "• Preheat", but not "1.5 cups" or "2-3 minutes".
+const INSTRUCTION_MARKER = /^(?:step\s*\d+\s*[.):-]?\s*|\d+[.):](?=\s|$)\s*|[-•*–]\s+)/i;
+// Ingredients keep leading numbers, which are quantities, so only bullets are stripped.
+const INGREDIENT_MARKER = /^[-•*–]\s+/;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Trims lines, strips list markers and drops empty lines and lines repeated within a group,
+// reporting each repair. `kept` holds the original index of every line that remains.
+const cleanLines = (
+  lines: string[],
+  field: string,
+  marker: RegExp,
+  noun: string,
+  warnings: FieldIssue[],
+): { lines: string[]; kept: number[] } => {
+  let stripped = 0;
+  let empty = 0;
+  let duplicates = 0;
+  const seen = new Set<string>();
+  const result: string[] = [];
+  const kept: number[] = [];
+
+  lines.forEach((line, index) => {
+    let text = line.replace(/\s+/g, ' ').trim();
+    if (marker.test(text)) {
+      text = text.replace(marker, '').trim();
+      stripped++;
+    }
+    if (!text) {
+      empty++;
+      return;
+    }
+    // Each group heading, e.g. "For the glaze:", starts a new group. Headings may repeat, and
+    // so may lines in different groups, like "1 egg" in the dough and again in the egg wash.
+    if (text.endsWith(':')) {
+      seen.clear();
+    } else {
+      const key = text.toLowerCase();
+      if (seen.has(key)) {
+        duplicates++;
+        return;
+      }
+      seen.add(key);
+    }
+    result.push(text);
+    kept.push(index);
+  });
+
+  if (stripped > 0) warnings.push({ field, message: `Removed list markers from ${plural(stripped, noun)}` });
+  if (empty > 0) warnings.push({ field, message: `Removed ${plural(empty, `empty ${noun}`)}` });
+  if (duplicates > 0) warnings.push({ field, message: `Removed ${plural(duplicates, `duplicate ${noun}`)}` });
+  return { lines: result, kept };
+};
+
+const cleanText = (text: string | undefined) => (typeof text === 'string' ? text.replace(/\s+/g, ' ').trim() : text);
+
+// Deterministic repairs applied to every recipe before validation. Step timestamps and step
+// images follow their instruction when lines are dropped. Non-string lines are left for the validator to report.
+export const cleanRecipe = (recipe: Recipe): { recipe: Recipe; warnings: FieldIssue[] } => {
+  const warnings: FieldIssue[] = [];
+  const isLineList = (lines: unknown): lines is string[] =>
+    Array.isArray(lines) && lines.every(line => typeof line === 'string');
+
+  const cleaned: Recipe = {
+    ...recipe,
+    recipeName: cleanText(recipe.recipeName) as string,
+    description: cleanText(recipe.description) as string,
+    prepTime: cleanText(recipe.prepTime),
+    cookTime: cleanText(recipe.cookTime),
+    totalTime: cleanText(recipe.totalTime),
+    servings: cleanText(recipe.servings),
+  };
+
+  if (isLineList(recipe.ingredients)) {
+    cleaned.ingredients = cleanLines(recipe.ingredients, 'ingredients', INGREDIENT_MARKER, 'ingredient', warnings).lines;
+  }
+  if (isLineList(recipe.instructions)) {
+    const { lines, kept } = cleanLines(recipe.instructions, 'instructions', INSTRUCTION_MARKER, 'instruction', warnings);
+    cleaned.instructions = lines;
+    if (Array.isArray(recipe.stepTimestamps) && kept.length < recipe.instructions.length) {
+      cleaned.stepTimestamps = recipe.stepTimestamps
+        .filter(entry => entry && kept.includes(entry.step - 1))
+        .map(entry => ({ ...entry, step: kept.indexOf(entry.step - 1) + 1 }));
+    }
+    // An image of a dropped instruction stays with the recipe, just without a step.
+    if (Array.isArray(recipe.images) && kept.length < recipe.instructions.length) {
+      cleaned.images = recipe.images.map(image => {
+        if (!image || typeof image.step !== 'number') return image;
+        const { step, ...rest } = image;
+        return kept.includes(step - 1) ? { ...rest, step: kept.indexOf(step - 1) + 1 } : rest;
+      });
+    }
+  }
+
+  return { recipe: cleaned, warnings };
+};
+
+export interface RecipeCheck {
+  recipe: Recipe | null;
+  errors: FieldIssue[];
+  warnings: FieldIssue[];
+}
+
+// Cleans up and validates a recipe from any source. Cleanup runs first so that, for example,
+// an instruction list holding only "1." is reported as empty.
+export const repairRecipe = (value: unknown): RecipeCheck => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { recipe: null, errors: validateRecipe(value).errors, warnings: [] };
+  }
+  const cleaned = cleanRecipe(value as Recipe);
+  const { recipe, errors } = validateRecipe(cleaned.recipe);
+  return { recipe, errors, warnings: cleaned.warnings };
+};
+
+// Parses a model response and repairs the recipe in it.
+export const parseRecipeJson = (text: string): RecipeCheck => {
+  if (!text.trim()) {
+    return { recipe: null, errors: [{ field: 'recipe', message: 'is missing: the response was empty' }], warnings: [] };
+  }
+  try {
+    return repairRecipe(JSON.parse(text));
+  } catch (parseError) {
+    const reason = parseError instanceof Error ? parseError.message : String(parseError);
+    return { recipe: null, errors: [{ field: 'recipe', message: `is not valid JSON (${reason})` }], warnings: [] };
+  }
+};
+
+// Formats validation errors for logs, error messages and the repair prompt.
+export const describeIssues = (issues: FieldIssue[]) => issues.map(issue => `${issue.field} ${issue.message}`).join('; ');
@@ -0,0 +1,18 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// State that follows one HTTP request through every await, so log lines and model spend can
+// be attributed to the request without passing it through each call.
+export interface RequestContext {
+  requestId: string;
+  // Tokens used and estimated spend of every model call made while handling the request.
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export const runWithRequestContext = <T>(requestId: string, fn: () => T): T =>
+  storage.run({ requestId, inputTokens: 0, outputTokens: 0, costUsd: 0 }, fn);
+
+export const currentRequest = (): RequestContext | undefined => storage.getStore();
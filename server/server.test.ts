@@ -0,0 +1,165 @@
+import { promises as fs } from 'fs';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createApiKey } from './apiKeys';
+import { app } from './server';
+
+let dir: string;
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'server-'));
+  vi.stubEnv('RECIPES_DB_PATH', path.join(dir, 'recipes.json'));
+  vi.stubEnv('API_KEYS_PATH', path.join(dir, 'api-keys.json'));
+  vi.stubEnv('API_USAGE_PATH', path.join(dir, 'api-usage.json'));
+  vi.stubEnv('IMAGES_DIR', path.join(dir, 'images'));
+  vi.stubEnv('MODEL_PROVIDER', 'mock');
+  server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  vi.unstubAllEnvs();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+const request = async (method: string, route: string, body?: unknown) => {
+  const response = await fetch(`${baseUrl}${route}`, {
+    method,
+    headers: body === undefined ? {} : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, headers: response.headers, body: await response.json() };
+};
+
+const clientRecipe = (fields: Record<string, unknown> = {}) => ({
+  title: 'Scrambled eggs',
+  ingredients: ['2 eggs', '1 tbsp butter'],
+  instructions: ['Whisk the eggs.', 'Cook them in the butter.'],
+  url: 'https://example.com/eggs',
+  ...fields,
+});
+
+describe('POST /recipes', () => {
+  it('derives structured ingredients and dietary tags from the ingredient lines', async () => {
+    const { status, body } = await request('POST', '/recipes', {
+      data: clientRecipe({ structured_ingredients: [{ raw: '1 cup tofu', name: 'tofu' }] }),
+    });
+    expect(status).toBe(201);
+    expect(body.data.structured_ingredients.map((ingredient: { name: string }) => ingredient.name)).toEqual(['eggs', 'butter']);
+    expect(body.data.dietary.allergens.map((warning: { allergen: string }) => warning.allergen)).toEqual(['dairy', 'egg']);
+  });
+
+  it('keeps video spans but takes step text from the instructions', async () => {
+    const { status, body } = await request('POST', '/recipes', {
+      data: clientRecipe({ steps: [{ text: 'other', start_time: 5, end_time: 12 }, { start_time: 12, end_time: null }] }),
+    });
+    expect(status).toBe(201);
+    expect(body.data.steps).toEqual([
+      { text: 'Whisk the eggs.', start_time: 5, end_time: 12 },
+      { text: 'Cook them in the butter.', start_time: 12, end_time: null },
+    ]);
+  });
+
+  it.each([
+    ['steps that are not a list', { steps: 'soon' }, 'Invalid steps in recipe'],
+    ['a step per instruction missing', { steps: [{ start_time: 1 }] }, 'steps must have one entry per instruction'],
+    ['malformed images', { images: [{ url: 'javascript:alert(1)', category: 'main' }] }, 'Invalid images in recipe'],
+    ['an unknown video platform', { video: { platform: 'myspace' } }, 'Invalid video in recipe'],
+  ])('rejects %s', async (_, fields, error) => {
+    const { status, body } = await request('POST', '/recipes', { data: clientRecipe(fields) });
+    expect(status).toBe(400);
+    expect(body.error).toBe(error);
+  });
+});
+
+describe('PATCH /recipes/:id', () => {
+  it('checks steps against the number of instructions', async () => {
+    const { body: created } = await request('POST', '/recipes', { data: clientRecipe() });
+    const route = `/recipes/${created.data.id}`;
+
+    const mismatched = await request('PATCH', route, { steps: [{ start_time: 3 }] });
+    expect(mismatched.status).toBe(400);
+
+    const edited = await request('PATCH', route, { instructions: ['Cook everything.'], steps: [{ start_time: 3, end_time: 9 }] });
+    expect(edited.status).toBe(200);
+    expect(edited.body.data.steps).toEqual([{ text: 'Cook everything.', start_time: 3, end_time: 9 }]);
+  });
+
+  it('recomputes structured ingredients, nutrition and tags from edited lines', async () => {
+    const { body: created } = await request('POST', '/recipes', { data: clientRecipe() });
+    const { status, body } = await request('PATCH', `/recipes/${created.data.id}`, {
+      ingredients: ['200 g tofu'],
+      structured_ingredients: 'ignored',
+    });
+    expect(status).toBe(200);
+    expect(body.data.structured_ingredients).toMatchObject([{ quantity: 200, unit: 'g', name: 'tofu' }]);
+    expect(body.data.dietary.allergens.map((warning: { allergen: string }) => warning.allergen)).toEqual(['soy']);
+  });
+});
+
+describe('POST /analyze', () => {
+  it('runs offline with the mock provider', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    try {
+      const { status, body } = await request('POST', '/analyze', { sourceUrl: 'https://youtu.be/abc123XYZ?si=share' });
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ success: true, source: 'youtube', extraction: 'model', model: 'mock/fixtures' });
+      expect(body.data.title).toBe('Garlic Butter Pasta');
+      // The only request made is the test's own call to the server.
+      expect(fetchSpy.mock.calls.map(([url]) => String(url))).toEqual([`${baseUrl}/analyze`]);
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it('rejects models that are not allowed', async () => {
+    const { status } = await request('POST', '/analyze', { sourceUrl: 'https://example.com/eggs', provider: 'gemini', model: 'gemini-ultra-max' });
+    expect(status).toBe(400);
+  });
+});
+
+describe('GET /analyze/stream', () => {
+  it('sends refusals as an error event that EventSource can read', async () => {
+    const response = await fetch(`${baseUrl}/analyze/stream?url=${encodeURIComponent('file:///etc/passwd')}`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+    const [, data] = (await response.text()).match(/^event: error\ndata: (.*)$/m) ?? [];
+    expect(JSON.parse(data)).toMatchObject({ success: false, code: 'unsupported_scheme' });
+  });
+});
+
+describe('GET /healthz', () => {
+  it('only needs API_KEY for the gemini provider', async () => {
+    vi.stubEnv('API_KEY', '');
+    expect((await request('GET', '/healthz')).body.data).toMatchObject({ status: 'ok', model_provider: 'mock' });
+    vi.stubEnv('MODEL_PROVIDER', 'gemini');
+    try {
+      expect((await request('GET', '/healthz')).body.data).toMatchObject({ status: 'degraded', model_provider: 'gemini' });
+    } finally {
+      vi.stubEnv('MODEL_PROVIDER', 'mock');
+    }
+  });
+});
+
+// Runs last: once a key exists, every request needs one.
+describe('API keys in the query string', () => {
+  it('are only accepted for public keys, on routes that cannot send headers', async () => {
+    const partner = await createApiKey({ name: 'partner', dailyQuota: 0, ratePerMinute: 0 });
+    const browser = await createApiKey({ name: 'web app', dailyQuota: 0, ratePerMinute: 0, public: true });
+    const stream = (key: string) => fetch(`${baseUrl}/analyze/stream?url=file%3A%2F%2F%2Fx&api_key=${key}`);
+
+    expect((await stream(browser.key)).status).toBe(200);
+    expect((await stream(partner.key)).status).toBe(401);
+    expect((await request('GET', `/recipes?api_key=${browser.key}`)).status).toBe(401);
+
+    const { status } = await fetch(`${baseUrl}/recipes`, { headers: { Authorization: `Bearer ${partner.key}` } });
+    expect(status).toBe(200);
+  });
+});
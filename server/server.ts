@@ -1,8 +1,43 @@
 // Fix: Correctly import Request and Response types from express.
-import express, { Request, Response } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import cors from 'cors';
-import { GoogleGenAI, Type } from '@google/genai';
+import { randomUUID } from 'crypto';
+import { ApiError, Schema } from '@google/genai';
 import { config } from 'dotenv';
+import { envNumber } from './env';
+import { parseAmountRange, parseIngredients } from './ingredients';
+import { parseDuration, parseTimestamp } from './durations';
+import { createRecipe, deleteRecipe, getRecipe, listRecipes, RecipeUpdate, updateRecipe } from './recipeStore';
+import { CacheLookup, createTtlCache } from './cache';
+import { EXPORT_FORMATS, ExportFormat, exportRecipe, isExportFormat } from './exporters';
+import { createJobQueue } from './jobQueue';
+import { intakeSourceUrl, parseSourceUrl, SourceUrl, UrlIntakeError } from './urls';
+import { parsePartialJson } from './partialJson';
+import { estimateNutrition } from './nutrition';
+import { ALLERGENS, classifyDietary, DIETS } from './dietary';
+import {
+  buildUploadPrompt, getExtractor, isKnownPlatform, PlatformExtractor, RecipePrompt, recipeTextSchema, SourceMetadata,
+  videoRecipeSchema,
+} from './extractors';
+import { readUpload, RecipeUpload } from './uploads';
+import {
+  defaultProviderName, getModelProvider, isAllowedModel, isOffline, isProviderName, ModelAttachment, ModelProvider, PROVIDER_NAMES, ProviderSelection,
+} from './modelProvider';
+import { describeIssues, FieldIssue, parseRecipeJson, repairRecipe } from './recipeValidation';
+import { buildShoppingList, ShoppingListRecipe } from './shoppingList';
+import { buildTranslationPrompt, languageInstructions, normalizeLanguage, sameLanguage } from './languages';
+import { getStoredImage, getThumbnail, isImageId, THUMBNAIL_WIDTHS, ThumbnailWidth, verifyImages } from './images';
+import { ApiKeyRecord, consumeRequest, findApiKey, getUsage, isAuthEnabled, LimitExceeded } from './apiKeys';
+import { log } from './logger';
+import {
+  httpRequestDuration, httpRequests, METRICS_CONTENT_TYPE, recipeAnalyses, recipeAnalysisDuration, renderMetrics,
+} from './metrics';
+import { runWithRequestContext } from './requestContext';
+import { recordTokenUsage, requestUsage } from './tokenUsage';
+import {
+  AnalysisResult, BatchItemResult, ExtractionMethod, Platform, ProgressListener, Recipe, RecipeAPIResponseData, RecipeImageData,
+  RecipeRawValues, RecipeStep, VideoDetails,
+} from './types';
 
 // Load environment variables from .env file
 config();
@@ -10,233 +45,1302 @@ config();
 const app = express();
 const port = 3001;
 
-app.use(cors());
+// Browsers may only call the API from these origins, e.g. CORS_ORIGINS=https://app.example.com.
+// "*" allows any origin. Server-to-server calls send no Origin and are unaffected.
+const corsOrigins = (process.env.CORS_ORIGINS || 'http://localhost:3000').split(',').map(origin => origin.trim()).filter(Boolean);
+
+// Content-Disposition is exposed so the frontend can name export downloads.
+app.use(cors({
+  origin: corsOrigins.includes('*') ? true : corsOrigins,
+  exposedHeaders: ['Content-Disposition', 'Retry-After', 'X-Request-Id'],
+}));
+
+// A request id supplied by a proxy is kept so log lines can be matched across services.
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+// Tags every request with an id, echoed in X-Request-Id and attached to its log lines, and
+// records one access log line and the HTTP metrics once the response is sent.
+app.use((req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get('X-Request-Id');
+  const requestId = incoming && REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  const startTime = process.hrtime.bigint();
+  res.set('X-Request-Id', requestId);
+  res.on('finish', () => {
+    const seconds = Number(process.hrtime.bigint() - startTime) / 1e9;
+    // Route patterns rather than paths keep the label count bounded.
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    httpRequests.inc({ method: req.method, route, status: `${res.statusCode}` });
+    httpRequestDuration.observe({ method: req.method, route }, seconds);
+    runWithRequestContext(requestId, () => log.info('Request finished', {
+      method: req.method,
+      route,
+      path: req.path,
+      status: res.statusCode,
+      duration_ms: Math.round(seconds * 1000),
+    }));
+  });
+  runWithRequestContext(requestId, next);
+});
+
 app.use(express.json());
 
-type Platform = 'tiktok' | 'youtube' | 'website';
+// Scraped by Prometheus. Like /healthz it is open without an API key, so restrict it at the proxy if needed.
+app.get('/metrics', (req: Request, res: Response) => {
+  res.type(METRICS_CONTENT_TYPE).send(renderMetrics());
+});
+
+// Liveness check for load balancers. The server runs without API_KEY, but then only the
+// openai and mock providers work, so the status follows the provider in use.
+app.get('/healthz', (req: Request, res: Response) => {
+  const apiKeyConfigured = Boolean(process.env.API_KEY);
+  let modelProvider: string | null = null;
+  try {
+    modelProvider = defaultProviderName();
+  } catch (error) {
+    // An invalid MODEL_PROVIDER is reported as a null provider.
+  }
+  const ready = modelProvider !== null && (modelProvider !== 'gemini' || apiKeyConfigured);
+  res.json({
+    success: true,
+    data: {
+      status: ready ? 'ok' : 'degraded',
+      api_key_configured: apiKeyConfigured,
+      model_provider: modelProvider,
+      uptime_seconds: Math.round(process.uptime()),
+    },
+  });
+});
+
+// EventSource and image tags cannot set headers, so these routes also take ?api_key=.
+const QUERY_KEY_ROUTES = /^\/(?:analyze\/stream|images\/[^/]+)$/;
+
+// Reads the key from `Authorization: Bearer <key>`, or from ?api_key= on the routes above.
+const readApiKey = (req: Request): { key: string | null; fromQuery: boolean } => {
+  const match = req.get('Authorization')?.match(/^Bearer\s+(\S+)\s*$/i);
+  if (match) return { key: match[1], fromQuery: false };
+  if (req.method === 'GET' && QUERY_KEY_ROUTES.test(req.path) && typeof req.query.api_key === 'string') {
+    return { key: req.query.api_key, fromQuery: true };
+  }
+  return { key: null, fromQuery: false };
+};
+
+// Every route requires a valid API key once any key exists in the key store.
+app.use(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!(await isAuthEnabled())) return next();
+    const { key, fromQuery } = readApiKey(req);
+    const record = key ? await findApiKey(key) : null;
+    if (!record) {
+      res.set('WWW-Authenticate', 'Bearer');
+      const error = key ? 'Invalid API key' : 'Missing API key. Send it as "Authorization: Bearer <key>".';
+      return res.status(401).json({ success: false, error });
+    }
+    // Query strings end up in access logs and Referer headers, which is only harmless for a key
+    // that is public anyway.
+    if (fromQuery && !record.public) {
+      res.set('WWW-Authenticate', 'Bearer');
+      return res.status(401).json({ success: false, error: 'Only public keys may be sent as ?api_key=. Send this one as "Authorization: Bearer <key>".' });
+    }
+    res.locals.apiKey = record;
+    next();
+  } catch (error) {
+    log.error('Failed to check API key', { error });
+    res.status(500).json({ success: false, error: 'Failed to check API key.' });
+  }
+});
+
+const apiKeyOf = (res: Response): ApiKeyRecord | null => res.locals.apiKey ?? null;
+
+// Recipes and batch jobs belong to the key that created them.
+const ownerOf = (res: Response): string | null => apiKeyOf(res)?.id ?? null;
+
+// Counts an analysis request against the caller's rate limit and daily quota. Cache hits
+// count too. Returns the limit that was exhausted, or null to proceed.
+const consumeLimits = async (res: Response, cost = 1): Promise<LimitExceeded | null> => {
+  const key = apiKeyOf(res);
+  return key ? consumeRequest(key, cost) : null;
+};
+
+// Like consumeLimits, but answers 429 with Retry-After itself. Returns whether to proceed.
+const checkLimits = async (res: Response, cost = 1): Promise<boolean> => {
+  const exceeded = await consumeLimits(res, cost);
+  if (!exceeded) return true;
+  res.set('Retry-After', String(exceeded.retryAfterSeconds));
+  res.status(429).json({ success: false, error: exceeded.message });
+  return false;
+};
+
+// Analyses are cached by canonical source URL; ANALYSIS_CACHE_TTL_SECONDS=0 disables reuse.
+const analysisCache = createTtlCache<AnalysisResult>({
+  ttlMs: envNumber('ANALYSIS_CACHE_TTL_SECONDS', 60 * 60) * 1000,
+  maxEntries: envNumber('ANALYSIS_CACHE_MAX_ENTRIES', 500),
+});
+
+// Helper to parse durations like "1 hour 30 minutes" or "PT1H30M" into minutes.
+// Ranges such as "20-25 min" report their upper bound so plans allow for the full time.
+const parseMinutes = (text?: string): number => parseDuration(text)?.max ?? 0;
+
+// How many times an invalid model response is sent back to the model with its errors
+// before the analysis fails. 0 disables repair.
+const MAX_REPAIR_ATTEMPTS = envNumber('GEMINI_REPAIR_ATTEMPTS', 1);
+
+const buildRepairPrompt = (errors: FieldIssue[]) =>
+  `The recipe JSON you returned failed validation:\n${errors.map(error => `- ${error.field} ${error.message}`).join('\n')}\n\n` +
+  'Return the complete corrected recipe as JSON matching the schema. Every ingredient and instruction must be ' +
+  'a non-empty string without list numbering or bullets, and the recipe must have a name.';
+
+const describeModel = (provider: ModelProvider) => `${provider.name}/${provider.model}`;
+
+// One recipe extraction request to a model.
+interface ModelRequest {
+  prompt: RecipePrompt;
+  schema: Schema;
+  // Content sent ahead of the prompt, such as an uploaded video or transcript.
+  attachments?: ModelAttachment[];
+  // Names the source in logs.
+  label: string;
+  // Extra checks beyond the schema; any issues are sent back to the model like schema errors.
+  validate?: (recipe: Recipe) => FieldIssue[];
+}
+
+// Sends a request to a model and returns the validated recipe along with any repairs made
+// to it. Used for videos, uploads and websites without structured recipe data.
+const analyzeWithModel = async (
+  provider: ModelProvider,
+  { prompt: { systemInstruction, prompt }, schema, attachments = [], label, validate }: ModelRequest,
+  onProgress?: ProgressListener,
+): Promise<{ recipe: Recipe; warnings: FieldIssue[] }> => {
+  onProgress?.({ type: 'model_started', provider: provider.name, model: provider.model });
+  const conversation = await provider.startConversation({ systemInstruction, schema, attachments, label });
+
+  try {
+    // Each repair attempt continues the conversation so the model sees its own answer.
+    let message = prompt;
+    for (let attempt = 0; ; attempt++) {
+      // Accumulate the streamed JSON, reporting fields as soon as they are complete.
+      let recipeJsonString = '';
+      let lastPartial = '';
+      for await (const delta of conversation.send(message)) {
+        recipeJsonString += delta;
+        if (!onProgress) continue;
+        const partial = parsePartialJson(recipeJsonString);
+        const serialized = JSON.stringify(partial);
+        if (partial && typeof partial === 'object' && serialized !== lastPartial) {
+          lastPartial = serialized;
+          onProgress({ type: 'partial', recipe: partial as Partial<Recipe> });
+        }
+      }
+
+      const { recipe, errors, warnings } = parseRecipeJson(recipeJsonString);
+      if (recipe && validate) errors.push(...validate(recipe));
+      if (recipe && errors.length === 0) {
+        if (attempt > 0) {
+          warnings.unshift({ field: 'recipe', message: `Regenerated after ${attempt} invalid AI response${attempt === 1 ? '' : 's'}` });
+        }
+        return { recipe, warnings };
+      }
+
+      log.warn('Invalid recipe from the model', {
+        model: describeModel(provider),
+        label,
+        attempt: attempt + 1,
+        issues: describeIssues(errors),
+      });
+      if (attempt >= MAX_REPAIR_ATTEMPTS) {
+        throw new Error(`The AI returned an invalid recipe: ${describeIssues(errors)}.`);
+      }
+      onProgress?.({ type: 'repairing', attempt: attempt + 1, errors });
+      message = buildRepairPrompt(errors);
+    }
+  } finally {
+    recordTokenUsage(provider, conversation.usage());
+    await conversation.close();
+  }
+};
+
+// Pairs each instruction with the video span the model reported for it, if any.
+const buildSteps = (recipe: Recipe): RecipeStep[] =>
+  recipe.instructions.map((text, index) => {
+    const timestamp = recipe.stepTimestamps?.find(entry => entry.step === index + 1);
+    const start = parseTimestamp(timestamp?.start);
+    const end = parseTimestamp(timestamp?.end);
+    return { text, start_time: start, end_time: start !== null && end !== null && end > start ? end : null };
+  });
+
+const buildVideoDetails = (platform: Platform, metadata: SourceMetadata | null): VideoDetails | null => {
+  if (!metadata) return null;
+  return {
+    platform,
+    thumbnail_url: metadata.thumbnailUrl || null,
+    author_name: metadata.author || null,
+    embed_html: metadata.embedHtml || null,
+  };
+};
+
+const buildRecipeData = (
+  recipe: Recipe,
+  sourceUrl: string,
+  platform: Platform,
+  metadata: SourceMetadata | null,
+  targetLanguage: string | null = null,
+): RecipeAPIResponseData => {
+  const mainImage = recipe.images?.find(img => img.category === 'main') || recipe.images?.[0] || null;
+
+  const prepTime = parseMinutes(recipe.prepTime);
+  const cookTime = parseMinutes(recipe.cookTime);
+  // Many recipes only state prep and cook times, so derive the total from them.
+  const totalTime = parseMinutes(recipe.totalTime) || prepTime + cookTime;
+  const yields = parseAmountRange(recipe.servings);
+  const structuredIngredients = parseIngredients(recipe.ingredients);
+
+  return {
+    title: recipe.recipeName,
+    description: recipe.description,
+    prep_time: prepTime,
+    cook_time: cookTime,
+    total_time: totalTime,
+    yields: yields?.min ?? 0,
+    yields_max: yields?.max ?? 0,
+    ingredients: recipe.ingredients,
+    structured_ingredients: structuredIngredients,
+    nutrition: estimateNutrition(structuredIngredients, yields?.min ?? 0),
+    dietary: classifyDietary(structuredIngredients.map(ingredient => ingredient.raw)),
+    instructions: recipe.instructions,
+    steps: buildSteps(recipe),
+    image: mainImage?.url || metadata?.thumbnailUrl || null,
+    images: (recipe.images ?? []).map(image => ({
+      url: image.url,
+      description: image.description,
+      category: image.category,
+      step: image.step && image.step <= recipe.instructions.length ? image.step : null,
+      id: null,
+      width: null,
+      height: null,
+    })),
+    video: buildVideoDetails(platform, metadata),
+    language: targetLanguage ?? normalizeLanguage(recipe.sourceLanguage),
+    source_language: normalizeLanguage(recipe.sourceLanguage),
+    url: sourceUrl,
+    host: sourceUrl ? new URL(sourceUrl).hostname : '',
+    raw: {
+      prep_time: recipe.prepTime || null,
+      cook_time: recipe.cookTime || null,
+      total_time: recipe.totalTime || null,
+      yields: recipe.servings || null,
+    },
+  };
+};
+
+// Replaces a recipe's images with the verified ones. The main image falls back to the video
+// thumbnail when the original main image did not survive verification.
+const withImages = (data: RecipeAPIResponseData, images: RecipeImageData[]): RecipeAPIResponseData => {
+  const mainImage = images.find(image => image.category === 'main') ?? images[0] ?? null;
+  const dropped = data.image !== null && data.images.some(image => image.url === data.image);
+  return {
+    ...data,
+    image: mainImage?.url ?? (dropped ? data.video?.thumbnail_url ?? null : data.image),
+    images,
+  };
+};
+
+// Adds the language detection and translation instructions to an extraction prompt.
+const withLanguage = ({ systemInstruction, prompt }: RecipePrompt, targetLanguage: string | null): RecipePrompt => ({
+  systemInstruction,
+  prompt: `${prompt}\n\n${languageInstructions(targetLanguage)}`,
+});
+
+// Per-request choices that change the analysis result, so each combination is cached separately.
+interface AnalysisOptions {
+  targetLanguage: string | null;
+  model: ProviderSelection;
+}
+
+const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = { targetLanguage: null, model: {} };
+
+// Translates an extracted recipe. The translation must keep every ingredient and instruction
+// so step timestamps, images and nutrition still line up with it.
+const translateRecipe = async (
+  provider: ModelProvider,
+  recipe: Recipe,
+  targetLanguage: string,
+  onProgress?: ProgressListener,
+): Promise<{ recipe: Recipe; warnings: FieldIssue[] }> => {
+  const countIssue = (field: 'ingredients' | 'instructions', translated: Recipe): FieldIssue[] =>
+    translated[field].length === recipe[field].length
+      ? []
+      : [{ field, message: `must have ${recipe[field].length} entries, one per original entry, but has ${translated[field].length}` }];
+  const result = await analyzeWithModel(provider, {
+    prompt: buildTranslationPrompt(recipe, targetLanguage),
+    schema: recipeTextSchema(),
+    label: `translation of "${recipe.recipeName}" to ${targetLanguage}`,
+    validate: translated => [...countIssue('ingredients', translated), ...countIssue('instructions', translated)],
+  }, onProgress);
+  return {
+    // Everything not translated, like timestamps and images, carries over from the original.
+    recipe: { ...recipe, ...result.recipe, sourceLanguage: recipe.sourceLanguage ?? result.recipe.sourceLanguage },
+    warnings: result.warnings,
+  };
+};
+
+// Groups failures for the recipe_analyses_total metric.
+const errorType = (error: unknown): string => {
+  if (error instanceof UrlIntakeError) return 'url_rejected';
+  if (error instanceof ApiError) return 'model_api';
+  if (!(error instanceof Error)) return 'internal';
+  if (error.name === 'TimeoutError' || error.name === 'AbortError') return 'timeout';
+  if (error.message.includes('is not configured')) return 'not_configured';
+  if (error.message.startsWith('The AI returned an invalid recipe')) return 'invalid_model_output';
+  if (/^(Could not reach|The model server responded)/.test(error.message)) return 'model_api';
+  return 'internal';
+};
+
+// Counts and times an analysis by platform and outcome.
+const measureAnalysis = async <T>(platform: Platform, analysis: () => Promise<T>): Promise<T> => {
+  const startTime = process.hrtime.bigint();
+  const elapsed = () => Number(process.hrtime.bigint() - startTime) / 1e9;
+  try {
+    const result = await analysis();
+    recipeAnalyses.inc({ platform, outcome: 'success' });
+    recipeAnalysisDuration.observe({ platform, outcome: 'success' }, elapsed());
+    return result;
+  } catch (error) {
+    recipeAnalyses.inc({ platform, outcome: 'failure', error_type: errorType(error) });
+    recipeAnalysisDuration.observe({ platform, outcome: 'failure' }, elapsed());
+    throw error;
+  }
+};
+
+// Runs the full extraction for a URL: structured page data when the extractor supports it, a model otherwise.
+// With a target language the recipe is translated, either by the model while extracting or afterwards.
+const analyzeSource = (
+  sourceUrl: string,
+  options: AnalysisOptions,
+  onProgress?: ProgressListener,
+): Promise<AnalysisResult> => {
+  const extractor = getExtractor(sourceUrl);
+  return measureAnalysis(extractor.platform, () => extractFromSource(extractor, sourceUrl, options, onProgress));
+};
+
+const extractFromSource = async (
+  extractor: PlatformExtractor,
+  sourceUrl: string,
+  { targetLanguage, model }: AnalysisOptions,
+  onProgress?: ProgressListener,
+): Promise<AnalysisResult> => {
+  const { platform } = extractor;
+  onProgress?.({ type: 'platform', platform });
+  let recipe: Recipe | null = null;
+  let warnings: FieldIssue[] = [];
+  let extraction: ExtractionMethod = 'model';
+  let provider: ModelProvider | null = null;
+
+  // Offline, the model is a recording, so nothing else is fetched either.
+  const offline = isOffline(model);
+  let metadata: SourceMetadata | null = null;
+  if (extractor.fetchMetadata && !offline) {
+    metadata = await extractor.fetchMetadata(sourceUrl);
+    onProgress?.({ type: 'metadata', title: metadata.title, author: metadata.author });
+  }
+
+  // Structured data that fails validation, e.g. a recipe card without ingredients, is
+  // ignored in favour of asking the model.
+  const structured = offline ? null : await extractor.extractStructured?.(sourceUrl);
+  if (structured) {
+    const check = repairRecipe(structured.recipe);
+    if (check.recipe) {
+      recipe = check.recipe;
+      warnings = check.warnings;
+      extraction = structured.method;
+    } else {
+      log.warn('Ignoring invalid structured recipe', {
+        method: structured.method,
+        url: sourceUrl,
+        issues: describeIssues(check.errors),
+      });
+    }
+  }
+
+  if (!recipe) {
+    provider = getModelProvider(model);
+    const request = {
+      prompt: withLanguage(extractor.buildPrompt(sourceUrl, metadata), targetLanguage),
+      schema: extractor.buildSchema(),
+      label: sourceUrl,
+    };
+    ({ recipe, warnings } = await analyzeWithModel(provider, request, onProgress));
+    recipe = extractor.postProcess ? extractor.postProcess(recipe, sourceUrl) : recipe;
+  } else if (targetLanguage && !sameLanguage(normalizeLanguage(recipe.sourceLanguage), targetLanguage)) {
+    provider = getModelProvider(model);
+    const translation = await translateRecipe(provider, recipe, targetLanguage, onProgress);
+    recipe = translation.recipe;
+    warnings = [...warnings, ...translation.warnings];
+  }
+
+  onProgress?.({ type: 'post_processing', extraction });
+  const data = buildRecipeData(recipe, sourceUrl, platform, metadata, targetLanguage);
+  const verified = offline ? { images: data.images, warnings: [] } : await verifyImages(data.images, sourceUrl);
+  return {
+    platform,
+    extraction,
+    model: provider ? describeModel(provider) : null,
+    warnings: [...warnings, ...verified.warnings],
+    data: withImages(data, verified.images),
+  };
+};
+
+// Runs the same extraction as analyzeSource on an uploaded video or transcript. Uploads are
+// not cached, and providers discard uploaded videos once the recipe has been extracted.
+const analyzeUpload = (upload: RecipeUpload, options: AnalysisOptions): Promise<AnalysisResult> =>
+  measureAnalysis('upload', () => extractFromUpload(upload, options));
+
+const extractFromUpload = async (upload: RecipeUpload, { targetLanguage, model }: AnalysisOptions): Promise<AnalysisResult> => {
+  const provider = getModelProvider(model);
+  const attachment: ModelAttachment = upload.kind === 'video'
+    ? { kind: 'video', data: upload.data, mimeType: upload.mimeType, filename: upload.filename }
+    : { kind: 'text', text: `Transcript:\n${upload.text}` };
+  const { recipe, warnings } = await analyzeWithModel(provider, {
+    prompt: withLanguage(buildUploadPrompt(upload.kind, upload.title), targetLanguage),
+    schema: videoRecipeSchema(),
+    attachments: [attachment],
+    label: upload.filename,
+  });
+
+  return {
+    platform: 'upload',
+    extraction: 'model',
+    model: describeModel(provider),
+    warnings,
+    data: buildRecipeData(recipe, '', 'upload', null, targetLanguage),
+  };
+};
+
+// Shares one cache entry (and one in-flight model call) across spellings of the same URL.
+// Progress is only reported to the request that actually runs the analysis. Each target
+// language and model choice gets its own entry. The URL must have been through intakeSourceUrl.
+const analyzeWithCache = async (
+  { url, canonicalUrl }: SourceUrl,
+  refresh = false,
+  onProgress?: ProgressListener,
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS,
+): Promise<CacheLookup<AnalysisResult>> => {
+  const { targetLanguage, model } = options;
+  const cacheKey = [
+    canonicalUrl,
+    targetLanguage ? `#lang=${targetLanguage}` : '',
+    model.provider || model.model ? `#model=${model.provider ?? ''}/${model.model ?? ''}` : '',
+  ].join('');
+  return analysisCache.getOrCompute(cacheKey, () => analyzeSource(url, options, onProgress), refresh);
+};
+
+const batchQueue = createJobQueue<BatchItemResult>({
+  processItem: async (url) => {
+    const { value, cacheHit } = await analyzeWithCache(await intakeSourceUrl(url, { offline: isOffline() }));
+    return {
+      source: value.platform,
+      extraction: value.extraction,
+      model: value.model,
+      cache_hit: cacheHit,
+      warnings: value.warnings,
+      data: value.data,
+    };
+  },
+  concurrency: Math.max(1, envNumber('BATCH_CONCURRENCY', 2)),
+  ratePerMinute: envNumber('BATCH_RATE_LIMIT_PER_MINUTE', 20),
+  retentionMs: envNumber('BATCH_JOB_RETENTION_MINUTES', 60) * 60 * 1000,
+});
+
+const MAX_BATCH_SIZE = 100;
+
+// The body of a successful /analyze response, also sent as the final event of /analyze/stream.
+const buildAnalyzeResponse = (result: AnalysisResult, cacheHit: boolean, startTime: number) => {
+  // Fix: Replaced process.hrtime() with Date.now() and updated calculation.
+  const endTime = Date.now();
+  const processingTime = parseFloat(((endTime - startTime) / 1000).toFixed(3));
+
+  return {
+    success: true,
+    source: result.platform,
+    extraction: result.extraction,
+    model: result.model,
+    cache_hit: cacheHit,
+    processing_time: processingTime,
+    warnings: result.warnings,
+    // Model tokens spent on this request; zero for cache hits and structured page data.
+    usage: requestUsage(),
+    data: result.data,
+  };
+};
+
+const INVALID_LANGUAGE = 'must be a language code such as "es" or "pt-BR"';
+
+// Reads an optional target language. Returns undefined when the value is not a language code.
+const parseTargetLanguage = (value: unknown): string | null | undefined => {
+  if (value === undefined || value === null || value === '') return null;
+  return normalizeLanguage(value) ?? undefined;
+};
+
+const INVALID_MODEL = `provider must be one of: ${PROVIDER_NAMES.join(', ')}, and model one of the models this server allows`;
+
+// Reads an optional provider and model. Returns undefined when either is invalid or the model
+// is not allowed.
+const parseModelSelection = (provider: unknown, model: unknown): ProviderSelection | undefined => {
+  if (provider !== undefined && provider !== '' && !isProviderName(provider)) return undefined;
+  if (model !== undefined && typeof model !== 'string') return undefined;
+  const selection = { provider: isProviderName(provider) ? provider : null, model: typeof model === 'string' && model.trim() ? model.trim() : null };
+  return isAllowedModel(selection) ? selection : undefined;
+};
+
+// Validates and canonicalizes a client-supplied source URL, answering 400 with a
+// machine-readable code when the server will not fetch it. Returns null once it has responded.
+const acceptSourceUrl = async (res: Response, input: unknown, model: ProviderSelection): Promise<SourceUrl | null> => {
+  try {
+    return await intakeSourceUrl(input, { offline: isOffline(model) });
+  } catch (error) {
+    if (!(error instanceof UrlIntakeError)) throw error;
+    res.status(400).json({ success: false, error: error.message, code: error.code });
+    return null;
+  }
+};
+
+// Fix: Use the imported Request and Response types for the route handler.
+app.post('/analyze', async (req: Request, res: Response) => {
+  // Fix: Replaced process.hrtime() with Date.now() for better portability.
+  const startTime = Date.now();
+  const { sourceUrl } = req.body;
+  const refresh = req.query.refresh === 'true';
+  const targetLanguage = parseTargetLanguage(req.body.targetLanguage);
+  const model = parseModelSelection(req.body.provider, req.body.model);
+
+  if (!sourceUrl) {
+    return res.status(400).json({ success: false, error: 'Missing sourceUrl in request body', code: 'missing_url' });
+  }
+  if (targetLanguage === undefined) {
+    return res.status(400).json({ success: false, error: `targetLanguage ${INVALID_LANGUAGE}` });
+  }
+  if (!model) {
+    return res.status(400).json({ success: false, error: INVALID_MODEL });
+  }
+
+  try {
+    const source = await acceptSourceUrl(res, sourceUrl, model);
+    if (!source) return;
+    if (!(await checkLimits(res))) return;
+    const { value: result, cacheHit } = await analyzeWithCache(source, refresh, undefined, { targetLanguage, model });
+    res.json(buildAnalyzeResponse(result, cacheHit, startTime));
+
+  } catch (error) {
+    log.error('Error while extracting recipe', { error });
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    res.status(500).json({ success: false, error: `Failed to get recipe. ${errorMessage}` });
+  }
+});
+
+const SSE_KEEP_ALIVE_MS = 15000;
+
+// Streams progress for a single analysis as Server-Sent Events: platform, metadata,
+// model_started, partial, post_processing, and finally done or error.
+app.get('/analyze/stream', async (req: Request, res: Response) => {
+  const startTime = Date.now();
+  const sourceUrl = typeof req.query.url === 'string' ? req.query.url : '';
+  const refresh = req.query.refresh === 'true';
+  const targetLanguage = parseTargetLanguage(req.query.target_language);
+  const model = parseModelSelection(req.query.provider, req.query.model);
+
+  // EventSource cannot read the body of an error response, so the stream opens before anything
+  // is checked and refusals arrive as an error event, with the code a JSON response would carry.
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
+
+  let closed = false;
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), SSE_KEEP_ALIVE_MS);
+  req.on('close', () => {
+    closed = true;
+    clearInterval(keepAlive);
+  });
+
+  const send = (event: string, data: unknown) => {
+    if (closed) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    if (!sourceUrl) {
+      return send('error', { success: false, error: 'Missing url query parameter', code: 'missing_url' });
+    }
+    if (targetLanguage === undefined) {
+      return send('error', { success: false, error: `target_language ${INVALID_LANGUAGE}` });
+    }
+    if (!model) {
+      return send('error', { success: false, error: INVALID_MODEL });
+    }
+    let source: SourceUrl;
+    try {
+      source = await intakeSourceUrl(sourceUrl, { offline: isOffline(model) });
+    } catch (error) {
+      if (!(error instanceof UrlIntakeError)) throw error;
+      return send('error', { success: false, error: error.message, code: error.code });
+    }
+    const exceeded = await consumeLimits(res);
+    if (exceeded) {
+      return send('error', { success: false, error: exceeded.message, code: exceeded.reason, retry_after_seconds: exceeded.retryAfterSeconds });
+    }
+
+    const { value: result, cacheHit } = await analyzeWithCache(
+      source,
+      refresh,
+      ({ type, ...data }) => send(type, data),
+      { targetLanguage, model },
+    );
+    send('done', buildAnalyzeResponse(result, cacheHit, startTime));
+  } catch (error) {
+    log.error('Error while streaming recipe extraction', { error });
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    send('error', { success: false, error: `Failed to get recipe. ${errorMessage}` });
+  } finally {
+    clearInterval(keepAlive);
+    res.end();
+  }
+});
+
+// Uploads are held in memory while they are read, so keep the limit modest.
+const UPLOAD_MAX_MB = envNumber('UPLOAD_MAX_MB', 200);
+const readMultipartBody = express.raw({ type: 'multipart/form-data', limit: `${UPLOAD_MAX_MB}mb` });
+
+// Extracts a recipe from an unpublished source: a multipart upload of a `video` file, a
+// `transcript` (.srt, .vtt or .txt) file or pasted `captions` text, with an optional `title`.
+app.post('/analyze/upload', (req: Request, res: Response, next: NextFunction) => {
+  readMultipartBody(req, res, (error?: unknown) => {
+    if (!error) return next();
+    // body-parser errors carry the HTTP status to answer with and a `type` naming the failure.
+    const details: Record<string, unknown> = isObject(error) ? error : {};
+    const message = details.type === 'entity.too.large' ? `Uploads may be at most ${UPLOAD_MAX_MB} MB` : 'Failed to read the upload';
+    res.status(typeof details.status === 'number' ? details.status : 400).json({ success: false, error: message });
+  });
+}, async (req: Request, res: Response) => {
+  const startTime = Date.now();
+  if (!req.is('multipart/form-data') || !Buffer.isBuffer(req.body)) {
+    return res.status(400).json({ success: false, error: 'Request body must be multipart/form-data' });
+  }
+
+  try {
+    const { upload, error } = await readUpload(req.body, req.get('Content-Type')!);
+    if (!upload) {
+      return res.status(400).json({ success: false, error });
+    }
+    if (!(await checkLimits(res))) return;
+    const result = await analyzeUpload(upload, { targetLanguage: upload.targetLanguage, model: upload.model });
+    res.json(buildAnalyzeResponse(result, false, startTime));
+  } catch (error) {
+    log.error('Error while extracting recipe from upload', { error });
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    res.status(500).json({ success: false, error: `Failed to get recipe. ${errorMessage}` });
+  }
+});
+
+app.post('/analyze/batch', async (req: Request, res: Response) => {
+  const { urls } = req.body ?? {};
+  if (!Array.isArray(urls) || urls.some(url => typeof url !== 'string')) {
+    return res.status(400).json({ success: false, error: 'Request body must contain a urls array of strings' });
+  }
+  const cleanedUrls = urls.map((url: string) => url.trim()).filter(Boolean);
+  if (cleanedUrls.length === 0) {
+    return res.status(400).json({ success: false, error: 'The urls array is empty' });
+  }
+  if (cleanedUrls.length > MAX_BATCH_SIZE) {
+    return res.status(400).json({ success: false, error: `A batch may contain at most ${MAX_BATCH_SIZE} URLs` });
+  }
+  // Only the form of each URL is checked here; hosts are resolved and checked as items run.
+  for (const [index, url] of cleanedUrls.entries()) {
+    try {
+      parseSourceUrl(url);
+    } catch (error) {
+      if (!(error instanceof UrlIntakeError)) throw error;
+      return res.status(400).json({ success: false, error: `urls[${index}]: ${error.message}`, code: error.code });
+    }
+  }
+
+  try {
+    // Each URL counts as one analysis towards the daily quota.
+    if (!(await checkLimits(res, cleanedUrls.length))) return;
+  } catch (error) {
+    log.error('Failed to check usage limits', { error });
+    return res.status(500).json({ success: false, error: 'Failed to check usage limits.' });
+  }
+
+  const job = batchQueue.createJob(cleanedUrls, ownerOf(res));
+  res.status(202).json({ success: true, data: { job_id: job.id, status_url: `/jobs/${job.id}` } });
+});
+
+app.get('/jobs/:id', (req: Request, res: Response) => {
+  const job = batchQueue.getJob(req.params.id);
+  if (!job || job.owner !== ownerOf(res)) {
+    return res.status(404).json({ success: false, error: 'Job not found' });
+  }
+  res.json({ success: true, data: job });
+});
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
 
-// This is the internal representation from Gemini
-interface RecipeImage {
+// Links are rendered, so only http(s) URLs are accepted from clients.
+const isHttpUrl = (value: unknown): value is string =>
+  typeof value === 'string' && /^https?:\/\//i.test(value) && URL.canParse(value);
+
+const isOptional = (value: unknown, isValid: (value: unknown) => boolean) => value === undefined || value === null || isValid(value);
+
+const isSeconds = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isPositiveInteger = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 1;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNonNegativeNumber = (value: unknown): value is number => typeof value === 'number' && value >= 0;
+
+// A video span, image or video sent by a client. Optional fields may be missing or null.
+interface ClientStep {
+  start_time?: number | null;
+  end_time?: number | null;
+}
+
+interface ClientImage {
   url: string;
-  description: string;
-  category: 'main' | 'step' | 'additional';
+  category: RecipeImageData['category'];
+  description?: string | null;
+  step?: number | null;
+  id?: string | null;
+  width?: number | null;
+  height?: number | null;
 }
 
-interface Recipe {
-  recipeName: string;
-  description: string;
-  prepTime?: string; // e.g., "15 minutes"
-  cookTime?: string; // e.g., "30 minutes"
-  totalTime?: string; // e.g., "45 minutes"
-  servings?: string; // e.g., "4 servings"
-  ingredients: string[];
-  instructions: string[];
-  images?: RecipeImage[];
+interface ClientVideo {
+  platform: Platform;
+  thumbnail_url?: string | null;
+  author_name?: string | null;
+  embed_html?: string | null;
 }
 
-// This is the structure for the final API response data
-interface RecipeAPIResponseData {
+// The recipe fields a client may send and edit.
+interface ClientRecipeFields {
   title: string;
   description: string;
   prep_time: number;
   cook_time: number;
   total_time: number;
   yields: number;
+  yields_max: number;
   ingredients: string[];
   instructions: string[];
   image: string | null;
-  url: string;
-  host: string;
+  steps: ClientStep[];
+  images: ClientImage[];
+  video: ClientVideo | null;
 }
 
-const getPlatform = (url: string): Platform => {
-  if (url.includes('tiktok.com')) return 'tiktok';
-  if (url.includes('youtube.com') || url.includes('youtu.be')) return 'youtube';
-  return 'website';
-}
+// Only the video span of each step is kept from the client; the text comes from the instructions.
+const isStepList = (value: unknown): value is ClientStep[] => Array.isArray(value)
+  && value.every(step => isObject(step) && isOptional(step.start_time, isSeconds) && isOptional(step.end_time, isSeconds));
+
+const IMAGE_CATEGORIES: readonly string[] = ['main', 'step', 'additional'] satisfies RecipeImageData['category'][];
+
+const isImageList = (value: unknown): value is ClientImage[] => Array.isArray(value) && value.every(image => isObject(image)
+  && isHttpUrl(image.url)
+  && isString(image.category) && IMAGE_CATEGORIES.includes(image.category)
+  && isOptional(image.description, isString)
+  && isOptional(image.step, isPositiveInteger)
+  && isOptional(image.id, id => isString(id) && isImageId(id))
+  && isOptional(image.width, isPositiveInteger)
+  && isOptional(image.height, isPositiveInteger));
+
+const isVideoDetails = (value: unknown): value is ClientVideo | null => value === null || (isObject(value)
+  && isKnownPlatform(value.platform)
+  && isOptional(value.thumbnail_url, isHttpUrl)
+  && isOptional(value.author_name, isString)
+  && isOptional(value.embed_html, isString));
 
-// Helper to parse strings like "15 minutes" into a number
-const parseNumericValue = (text?: string): number => {
-    if (!text) return 0;
-    const match = text.match(/\d+/);
-    return match ? parseInt(match[0], 10) : 0;
+const RECIPE_FIELD_CHECKS: { [Field in keyof ClientRecipeFields]: (value: unknown) => value is ClientRecipeFields[Field] } = {
+  title: (value): value is string => isString(value) && value.trim() !== '',
+  description: isString,
+  ingredients: isStringArray,
+  instructions: isStringArray,
+  prep_time: isNonNegativeNumber,
+  cook_time: isNonNegativeNumber,
+  total_time: isNonNegativeNumber,
+  yields: isNonNegativeNumber,
+  yields_max: isNonNegativeNumber,
+  image: (value): value is string | null => value === null || isString(value),
+  steps: isStepList,
+  images: isImageList,
+  video: isVideoDetails,
 };
 
-// Fix: Use the imported Request and Response types for the route handler.
-app.post('/analyze', async (req: Request, res: Response) => {
-  // Fix: Replaced process.hrtime() with Date.now() for better portability.
-  const startTime = Date.now();
-  const { sourceUrl } = req.body;
+const REQUIRED_RECIPE_FIELDS: (keyof ClientRecipeFields)[] = ['title', 'ingredients', 'instructions'];
 
-  if (!sourceUrl) {
-    return res.status(400).json({ success: false, error: 'Missing sourceUrl in request body' });
+// Copies one field into `fields` if its value is valid. Returns whether it was.
+const copyRecipeField = <Field extends keyof ClientRecipeFields>(
+  fields: Partial<ClientRecipeFields>,
+  field: Field,
+  value: unknown,
+): boolean => {
+  const isValid: (value: unknown) => value is ClientRecipeFields[Field] = RECIPE_FIELD_CHECKS[field];
+  if (!isValid(value)) return false;
+  fields[field] = value;
+  return true;
+};
+
+// Checks the fields of a recipe sent by a client and returns the recognized ones. With
+// `partial`, as for edits, required fields may be left out.
+const validateRecipeFields = (
+  body: Record<string, unknown>,
+  partial: boolean,
+): { fields: Partial<ClientRecipeFields>; error: null } | { fields: null; error: string } => {
+  const fields: Partial<ClientRecipeFields> = {};
+  for (const field of Object.keys(RECIPE_FIELD_CHECKS) as (keyof ClientRecipeFields)[]) {
+    if (body[field] === undefined) {
+      if (!partial && REQUIRED_RECIPE_FIELDS.includes(field)) return { fields: null, error: `Missing ${field} in recipe` };
+      continue;
+    }
+    if (!copyRecipeField(fields, field, body[field])) return { fields: null, error: `Invalid ${field} in recipe` };
   }
+  return { fields, error: null };
+};
 
-  if (!process.env.API_KEY) {
-    return res.status(500).json({ success: false, error: 'API_KEY is not configured on the server.' });
+// Steps without video timestamps, for instructions that were not matched to a video.
+const untimedSteps = (instructions: string[]): RecipeStep[] =>
+  instructions.map(text => ({ text, start_time: null, end_time: null }));
+
+// Pairs each instruction with the video span a client sent for it. There must be one span per instruction.
+const clientSteps = (instructions: string[], steps: ClientStep[]): RecipeStep[] =>
+  instructions.map((text, index) => ({ text, start_time: steps[index].start_time ?? null, end_time: steps[index].end_time ?? null }));
+
+const STEP_COUNT_MISMATCH = 'steps must have one entry per instruction';
+
+const isRawValues = (value: unknown): value is RecipeRawValues => isObject(value)
+  && (['prep_time', 'cook_time', 'total_time', 'yields'] as const).every(field => value[field] === null || isString(value[field]));
+
+// Validates a full recipe sent by a client, including its source url, and builds complete
+// recipe data from it. Structured ingredients, nutrition and dietary tags are always derived
+// from the ingredient lines here rather than trusted from the client.
+const readClientRecipe = (data: unknown): { recipe: RecipeAPIResponseData; error: null } | { recipe: null; error: string } => {
+  if (!isObject(data)) return { recipe: null, error: 'Missing recipe data in request body' };
+  const { fields, error } = validateRecipeFields(data, false);
+  if (error !== null) return { recipe: null, error };
+  const { title, ingredients, instructions } = fields;
+  // Required fields were checked above; this narrows their types.
+  if (title === undefined || ingredients === undefined || instructions === undefined) {
+    return { recipe: null, error: 'Missing title, ingredients or instructions in recipe' };
   }
+  // Recipes extracted from uploads have an empty url. Others must be http(s), since the url is rendered as a link.
+  const url = data.url === '' || isHttpUrl(data.url) ? data.url : null;
+  if (url === null) return { recipe: null, error: 'Missing or invalid url in recipe' };
+  if (fields.steps && fields.steps.length !== instructions.length) return { recipe: null, error: STEP_COUNT_MISMATCH };
+
+  const structuredIngredients = parseIngredients(ingredients);
+  const yields = fields.yields ?? 0;
+  const { video } = fields;
+  const recipe: RecipeAPIResponseData = {
+    title,
+    description: fields.description ?? '',
+    prep_time: fields.prep_time ?? 0,
+    cook_time: fields.cook_time ?? 0,
+    total_time: fields.total_time ?? 0,
+    yields,
+    yields_max: fields.yields_max ?? yields,
+    ingredients,
+    structured_ingredients: structuredIngredients,
+    nutrition: estimateNutrition(structuredIngredients, yields),
+    dietary: classifyDietary(structuredIngredients.map(ingredient => ingredient.raw)),
+    instructions,
+    steps: fields.steps ? clientSteps(instructions, fields.steps) : untimedSteps(instructions),
+    image: fields.image ?? null,
+    images: (fields.images ?? []).map((image): RecipeImageData => ({
+      url: image.url,
+      description: image.description ?? '',
+      category: image.category,
+      step: image.step && image.step <= instructions.length ? image.step : null,
+      id: image.id ?? null,
+      width: image.width ?? null,
+      height: image.height ?? null,
+    })),
+    video: video
+      ? {
+        platform: video.platform,
+        thumbnail_url: video.thumbnail_url ?? null,
+        author_name: video.author_name ?? null,
+        embed_html: video.embed_html ?? null,
+      }
+      : null,
+    language: isString(data.language) ? data.language : null,
+    source_language: isString(data.source_language) ? data.source_language : null,
+    url,
+    host: isString(data.host) && data.host ? data.host : url ? new URL(url).hostname : '',
+    raw: isRawValues(data.raw) ? data.raw : { prep_time: null, cook_time: null, total_time: null, yields: null },
+  };
+  return { recipe, error: null };
+};
 
-  const platform = getPlatform(sourceUrl);
+app.post('/recipes', async (req: Request, res: Response) => {
+  const { data, source } = req.body ?? {};
+  const { recipe, error: validationError } = readClientRecipe(data);
+  if (validationError !== null) {
+    return res.status(400).json({ success: false, error: validationError });
+  }
 
   try {
-    let prompt = '';
-    let systemInstruction = '';
+    const platform: Platform = isKnownPlatform(source) ? source : recipe.url ? getExtractor(recipe.url).platform : 'upload';
+    const saved = await createRecipe(ownerOf(res), recipe, platform);
+    res.status(201).json({ success: true, data: saved });
+  } catch (error) {
+    log.error('Failed to save recipe', { error });
+    res.status(500).json({ success: false, error: 'Failed to save recipe.' });
+  }
+});
 
-    if (platform === 'tiktok' || platform === 'youtube') {
-      systemInstruction = "You are an expert recipe bot. Your task is to analyze a video and extract the recipe from it. Respond only with the recipe in a structured JSON format that adheres to the provided schema. Do not include any other text, greetings, or explanations.";
-      
-      let videoTitle = '';
-      let videoAuthor = '';
-      
-      try {
-        const oembedUrl = platform === 'tiktok'
-          ? `https://www.tiktok.com/oembed?url=${encodeURIComponent(sourceUrl)}`
-          : `https://www.youtube.com/oembed?url=${encodeURIComponent(sourceUrl)}`;
-          
-        const oembedResponse = await fetch(oembedUrl);
-        if (oembedResponse.ok) {
-          const oembedData = await oembedResponse.json();
-          videoTitle = oembedData.title || '';
-          videoAuthor = oembedData.author_name || '';
-        }
-      } catch (oembedError) {
-        console.warn(`Failed to fetch or parse ${platform} oEmbed data:`, oembedError);
+// Splits a comma-separated query parameter, returning null if any value is not allowed.
+const parseListParam = <T extends string>(value: unknown, allowed: readonly T[]): T[] | null => {
+  if (typeof value !== 'string' || value.trim() === '') return [];
+  const items = value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+  return items.every(item => (allowed as readonly string[]).includes(item)) ? items as T[] : null;
+};
+
+// Supports ?q= text search, ?diet=vegan,keto (all must fit) and ?free_of=nuts,dairy (none may be present).
+app.get('/recipes', async (req: Request, res: Response) => {
+  const query = typeof req.query.q === 'string' ? req.query.q : undefined;
+  const diets = parseListParam(req.query.diet, DIETS);
+  if (!diets) {
+    return res.status(400).json({ success: false, error: `diet must be a comma-separated list of: ${DIETS.join(', ')}` });
+  }
+  const freeOf = parseListParam(req.query.free_of, ALLERGENS);
+  if (!freeOf) {
+    return res.status(400).json({ success: false, error: `free_of must be a comma-separated list of: ${ALLERGENS.join(', ')}` });
+  }
+  try {
+    const recipes = await listRecipes(ownerOf(res), query, { diets, freeOf });
+    res.json({ success: true, data: recipes });
+  } catch (error) {
+    log.error('Failed to list recipes', { error });
+    res.status(500).json({ success: false, error: 'Failed to list recipes.' });
+  }
+});
+
+app.get('/recipes/:id', async (req: Request, res: Response) => {
+  try {
+    const recipe = await getRecipe(ownerOf(res), req.params.id);
+    if (!recipe) {
+      return res.status(404).json({ success: false, error: 'Recipe not found' });
+    }
+    res.json({ success: true, data: recipe });
+  } catch (error) {
+    log.error('Failed to load recipe', { error });
+    res.status(500).json({ success: false, error: 'Failed to load recipe.' });
+  }
+});
+
+app.patch('/recipes/:id', async (req: Request, res: Response) => {
+  const body: unknown = req.body ?? {};
+  if (!isObject(body)) {
+    return res.status(400).json({ success: false, error: 'Request body must be a JSON object' });
+  }
+  const { fields, error: validationError } = validateRecipeFields(body, true);
+  if (validationError !== null) {
+    return res.status(400).json({ success: false, error: validationError });
+  }
+
+  // Steps, images and the video are not edited directly; steps follow the instructions below.
+  const { steps, images, video, ...editable } = fields;
+  const update: RecipeUpdate = { ...editable };
+  // Structured ingredients always follow the raw lines.
+  if (update.ingredients) {
+    update.structured_ingredients = parseIngredients(update.ingredients);
+  }
+
+  try {
+    const existing = await getRecipe(ownerOf(res), req.params.id);
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Recipe not found' });
+    }
+    const instructions = update.instructions ?? existing.instructions;
+    if (steps !== undefined) {
+      if (steps.length !== instructions.length) {
+        return res.status(400).json({ success: false, error: STEP_COUNT_MISMATCH });
       }
+      update.steps = clientSteps(instructions, steps);
+    } else if (update.instructions) {
+      // Edited instructions can no longer be matched to the video's timestamps.
+      update.steps = untimedSteps(update.instructions);
+    }
+    if (update.structured_ingredients || update.yields !== undefined) {
+      update.nutrition = estimateNutrition(
+        update.structured_ingredients ?? parseIngredients(existing.ingredients),
+        update.yields ?? existing.yields,
+      );
+    }
+    if (update.structured_ingredients) {
+      update.dietary = classifyDietary(update.structured_ingredients.map(ingredient => ingredient.raw));
+    }
+    const updated = await updateRecipe(ownerOf(res), req.params.id, update);
+    if (!updated) {
+      return res.status(404).json({ success: false, error: 'Recipe not found' });
+    }
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    log.error('Failed to update recipe', { error });
+    res.status(500).json({ success: false, error: 'Failed to update recipe.' });
+  }
+});
 
-      const platformName = platform.charAt(0).toUpperCase() + platform.slice(1);
-      const titleAuthorInfo = (videoTitle && videoAuthor) ? `titled "${videoTitle}" by author "${videoAuthor}"` : '';
-
-      prompt = `Your primary task is to extract a recipe from the ${platformName} video located at the URL: ${sourceUrl}. The video is reportedly ${titleAuthorInfo}.
-
-Carefully analyze the video's content from beginning to end. Your analysis must be based *only* on the visual and audio information present in the video itself. Do not infer or guess details not shown or mentioned.
-
-From the video, extract the following information with the highest possible accuracy:
-1.  **Recipe Name:** The name of the dish being made.
-2.  **Description:** A short summary of the final dish.
-3.  **Ingredients:** A complete list of all ingredients shown or mentioned, including precise quantities and measurements (e.g., "1 cup flour", "2 tbsp olive oil").
-4.  **Instructions:** A step-by-step guide on how to make the recipe, as demonstrated in the video.
-5.  **Prep Time:** The preparation time, if mentioned (e.g., "15 minutes").
-6.  **Cook Time:** The cooking time, if mentioned (e.g., "30 minutes").
-7.  **Total Time:** The total time (prep + cook) to make the recipe, if mentioned.
-8.  **Servings:** The number of servings the recipe makes, if mentioned (e.g., "4 servings").`;
-
-    } else { // 'website'
-      systemInstruction = "You are an expert recipe web scraper and formatter. Your task is to extract only the core recipe content from the provided URL's webpage, including all relevant images. You MUST ignore all non-recipe content like headers, footers, navigation bars, ads, user comments, and any sections containing links to other recipes (e.g., 'More Recipes', 'You Might Also Like'). Respond only with the recipe in a structured JSON format that adheres to the provided schema. Do not include any other text, greetings, or explanations.";
-      prompt = `Scrape the recipe from the webpage at this URL: ${sourceUrl}. Extract the exact step-by-step instructions and ingredients from the main body of the page. Extract the following details: the recipe's name, a brief description of the dish, the preparation time, the cooking time, the total time, the number of servings, and all relevant images. You must categorize each image found: 1. The primary 'main' image of the finished dish (the hero or thumbnail image). 2. Any 'step' images that visually correspond to a specific instruction. 3. Any other 'additional' photos of the dish. For each image, provide its full, direct URL, a concise description, and its category ('main', 'step', or 'additional').`;
-    }
-    
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    const properties: any = {
-      recipeName: { type: Type.STRING, description: "The title or name of the recipe." },
-      description: { type: Type.STRING, description: "A brief, enticing description of the dish." },
-      prepTime: { type: Type.STRING, description: "Preparation time, e.g., '15 minutes'." },
-      cookTime: { type: Type.STRING, description: "Cooking time, e.g., '30 minutes'." },
-      totalTime: { type: Type.STRING, description: "Total time (prep + cook), e.g., '45 minutes'." },
-      servings: { type: Type.STRING, description: "Number of servings the recipe makes, e.g., '4 servings'." },
-      ingredients: { type: Type.ARRAY, description: "A list of all ingredients with quantities.", items: { type: Type.STRING } },
-      instructions: { type: Type.ARRAY, description: "A step-by-step list of instructions.", items: { type: Type.STRING } },
-    };
+app.delete('/recipes/:id', async (req: Request, res: Response) => {
+  try {
+    const deleted = await deleteRecipe(ownerOf(res), req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ success: false, error: 'Recipe not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    log.error('Failed to delete recipe', { error });
+    res.status(500).json({ success: false, error: 'Failed to delete recipe.' });
+  }
+});
 
-    if (platform === 'website') {
-      properties.images = { 
-        type: Type.ARRAY, 
-        description: "A list of relevant images from the webpage. Each image must be categorized as 'main', 'step', or 'additional'.",
-        items: { 
-          type: Type.OBJECT, 
-          properties: {
-            url: { type: Type.STRING, description: "The full, direct URL to the image file." },
-            description: { type: Type.STRING, description: "A brief description of the image content." },
-            category: { 
-              type: Type.STRING, 
-              description: "The category of the image: 'main' for the primary dish photo, 'step' for an instructional photo, or 'additional' for other relevant photos.",
-              enum: ['main', 'step', 'additional']
-            }
-          },
-          required: ["url", "description", "category"]
-        } 
-      };
-    }
-
-    const recipeSchema = {
-      type: Type.OBJECT,
-      properties,
-      required: ["recipeName", "description", "ingredients", "instructions"],
-    };
+const sendExport = (res: Response, recipe: RecipeAPIResponseData, format: ExportFormat) => {
+  const file = exportRecipe(recipe, format);
+  res.setHeader('Content-Type', file.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+  res.send(file.body);
+};
 
-    const genAIResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: recipeSchema,
-      },
+const invalidFormatError = `Invalid export format. Use one of: ${EXPORT_FORMATS.join(', ')}`;
+
+app.get('/recipes/:id/export', async (req: Request, res: Response) => {
+  const format = req.query.format ?? 'markdown';
+  if (!isExportFormat(format)) {
+    return res.status(400).json({ success: false, error: invalidFormatError });
+  }
+  try {
+    const recipe = await getRecipe(ownerOf(res), req.params.id);
+    if (!recipe) {
+      return res.status(404).json({ success: false, error: 'Recipe not found' });
+    }
+    sendExport(res, recipe, format);
+  } catch (error) {
+    log.error('Failed to export recipe', { error });
+    res.status(500).json({ success: false, error: 'Failed to export recipe.' });
+  }
+});
+
+// Exports a recipe that has not been saved, e.g. straight from an /analyze response.
+app.post('/export', (req: Request, res: Response) => {
+  const { data, format = 'markdown' } = req.body ?? {};
+  if (!isExportFormat(format)) {
+    return res.status(400).json({ success: false, error: invalidFormatError });
+  }
+  const { recipe, error: validationError } = readClientRecipe(data);
+  if (validationError !== null) {
+    return res.status(400).json({ success: false, error: validationError });
+  }
+  try {
+    sendExport(res, recipe, format);
+  } catch (error) {
+    log.error('Failed to export recipe', { error });
+    res.status(500).json({ success: false, error: 'Failed to export recipe.' });
+  }
+});
+
+// Rebuilds the extraction fields of stored recipe data so it can be translated.
+const toRecipe = (data: RecipeAPIResponseData): Recipe => {
+  const minutes = (value: number) => (value > 0 ? `${value} minutes` : undefined);
+  return {
+    recipeName: data.title,
+    description: data.description,
+    prepTime: data.raw?.prep_time ?? minutes(data.prep_time),
+    cookTime: data.raw?.cook_time ?? minutes(data.cook_time),
+    totalTime: data.raw?.total_time ?? minutes(data.total_time),
+    servings: data.raw?.yields ?? (data.yields > 0 ? String(data.yields) : undefined),
+    ingredients: data.ingredients,
+    instructions: data.instructions,
+    sourceLanguage: data.source_language ?? data.language ?? undefined,
+  };
+};
+
+// Applies a translated recipe to the data it came from. Amounts, nutrition and diet tags
+// describe the same dish, so they are kept rather than re-derived from translated text.
+const applyTranslation = (data: RecipeAPIResponseData, translated: Recipe, targetLanguage: string): RecipeAPIResponseData => ({
+  ...data,
+  title: translated.recipeName,
+  description: translated.description,
+  ingredients: translated.ingredients,
+  structured_ingredients: parseIngredients(translated.ingredients),
+  instructions: translated.instructions,
+  steps: data.steps.map((step, index) => ({ ...step, text: translated.instructions[index] ?? step.text })),
+  language: targetLanguage,
+  source_language: data.source_language ?? normalizeLanguage(translated.sourceLanguage),
+  raw: {
+    prep_time: translated.prepTime || null,
+    cook_time: translated.cookTime || null,
+    total_time: translated.totalTime || null,
+    yields: translated.servings || null,
+  },
+});
+
+const DEFAULT_THUMBNAIL_WIDTH: ThumbnailWidth = 640;
+
+const parseThumbnailWidth = (value: unknown): ThumbnailWidth | null => {
+  if (value === undefined) return DEFAULT_THUMBNAIL_WIDTH;
+  const width = Number(value);
+  return THUMBNAIL_WIDTHS.find(allowed => allowed === width) ?? null;
+};
+
+// Serves a verified recipe image, scaled to ?w= pixels wide as WebP. Ids never change what
+// they point to, so browsers may cache the response for good.
+app.get('/images/:id', async (req: Request, res: Response) => {
+  const width = parseThumbnailWidth(req.query.w);
+  if (width === null) {
+    return res.status(400).json({ success: false, error: `w must be one of: ${THUMBNAIL_WIDTHS.join(', ')}` });
+  }
+  try {
+    const image = await getStoredImage(req.params.id);
+    if (!image) {
+      return res.status(404).json({ success: false, error: 'Image not found' });
+    }
+    const thumbnail = await getThumbnail(image, width);
+    res.set({
+      'Content-Type': 'image/webp',
+      'Cache-Control': 'private, max-age=31536000, immutable',
+      'X-Content-Type-Options': 'nosniff',
     });
+    res.send(thumbnail);
+  } catch (error) {
+    log.error('Failed to serve image', { error });
+    res.status(500).json({ success: false, error: 'Failed to load image.' });
+  }
+});
 
-    const recipeJsonString = genAIResponse.text;
-    
-    if (!recipeJsonString) {
-      throw new Error('Failed to get recipe data from AI. The response was empty.');
+// Translates a saved recipe (`recipeId`) or unsaved recipe data (`data`) into `targetLanguage`
+// without analyzing the source again. The translation is returned, not saved.
+app.post('/translate', async (req: Request, res: Response) => {
+  const { recipeId, data, targetLanguage: requestedLanguage, provider: requestedProvider, model: requestedModel } = req.body ?? {};
+  const targetLanguage = parseTargetLanguage(requestedLanguage);
+  if (!targetLanguage) {
+    return res.status(400).json({ success: false, error: `targetLanguage ${targetLanguage === null ? 'is required' : INVALID_LANGUAGE}` });
+  }
+  const model = parseModelSelection(requestedProvider, requestedModel);
+  if (!model) {
+    return res.status(400).json({ success: false, error: INVALID_MODEL });
+  }
+  let clientRecipe: RecipeAPIResponseData | null = null;
+  if (recipeId === undefined) {
+    const { recipe, error: validationError } = readClientRecipe(data);
+    if (validationError !== null) {
+      return res.status(400).json({ success: false, error: validationError });
     }
+    clientRecipe = recipe;
+  } else if (typeof recipeId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Invalid recipeId' });
+  }
 
-    let recipe: Recipe;
-    try {
-      recipe = JSON.parse(recipeJsonString);
-    } catch (parseError) {
-      console.error('Failed to parse Gemini response:', recipeJsonString, parseError);
-      throw new Error('Failed to parse recipe data from AI. The format was invalid.');
-    }
-
-    if (recipe.images && platform === 'website') {
-      recipe.images = recipe.images
-        .map(image => {
-          if (!image.url) return null;
-          try {
-            const absoluteUrl = new URL(image.url, sourceUrl).href;
-            return { ...image, url: absoluteUrl };
-          } catch (e) {
-            console.warn(`Invalid image URL found and skipped: ${image.url}`);
-            return null;
-          }
-        })
-        .filter((image): image is RecipeImage => image !== null);
-    }
-
-    // Fix: Replaced process.hrtime() with Date.now() and updated calculation.
-    const endTime = Date.now();
-    const processingTime = parseFloat(((endTime - startTime) / 1000).toFixed(3));
-
-    const mainImage = recipe.images?.find(img => img.category === 'main') || recipe.images?.[0] || null;
-
-    const data: RecipeAPIResponseData = {
-      title: recipe.recipeName,
-      description: recipe.description,
-      prep_time: parseNumericValue(recipe.prepTime),
-      cook_time: parseNumericValue(recipe.cookTime),
-      total_time: parseNumericValue(recipe.totalTime),
-      yields: parseNumericValue(recipe.servings),
-      ingredients: recipe.ingredients,
-      instructions: recipe.instructions,
-      image: mainImage?.url || null,
-      url: sourceUrl,
-      host: new URL(sourceUrl).hostname,
-    };
+  try {
+    let source: RecipeAPIResponseData;
+    if (clientRecipe) {
+      source = clientRecipe;
+    } else {
+      const saved = await getRecipe(ownerOf(res), recipeId);
+      if (!saved) {
+        return res.status(404).json({ success: false, error: 'Recipe not found' });
+      }
+      const { id, platform, owner, created_at, updated_at, ...stored } = saved;
+      source = stored;
+    }
+    if (!(await checkLimits(res))) return;
 
+    const provider = getModelProvider(model);
+    const { recipe, warnings } = await translateRecipe(provider, toRecipe(source), targetLanguage);
     res.json({
       success: true,
-      source: platform,
-      processing_time: processingTime,
-      data: data,
+      model: describeModel(provider),
+      warnings,
+      usage: requestUsage(),
+      data: applyTranslation(source, recipe, targetLanguage),
     });
-
   } catch (error) {
-    console.error('Error during Gemini API call:', error);
+    log.error('Failed to translate recipe', { error });
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
-    res.status(500).json({ success: false, error: `Failed to get recipe. ${errorMessage}` });
+    res.status(500).json({ success: false, error: `Failed to translate recipe. ${errorMessage}` });
   }
 });
 
-app.listen(port, () => {
-  console.log(`Server is running on http://localhost:${port}`);
-});
\ No newline at end of file
+const MAX_SHOPPING_LIST_RECIPES = 50;
+
+// Merges the ingredients of saved recipes (`recipeIds`) and unsaved recipe data (`recipes`)
+// into one shopping list grouped by aisle.
+app.post('/shopping-list', async (req: Request, res: Response) => {
+  const { recipeIds = [], recipes = [] } = req.body ?? {};
+  if (!isStringArray(recipeIds) || !Array.isArray(recipes)) {
+    return res.status(400).json({ success: false, error: 'Request body must contain a recipeIds array of strings and/or a recipes array' });
+  }
+  const count = recipeIds.length + recipes.length;
+  if (count === 0) {
+    return res.status(400).json({ success: false, error: 'Add at least one recipe to the shopping list' });
+  }
+  if (count > MAX_SHOPPING_LIST_RECIPES) {
+    return res.status(400).json({ success: false, error: `A shopping list may combine at most ${MAX_SHOPPING_LIST_RECIPES} recipes` });
+  }
+  const clientRecipes: RecipeAPIResponseData[] = [];
+  for (const [index, data] of recipes.entries()) {
+    const { recipe, error: validationError } = readClientRecipe(data);
+    if (validationError !== null) {
+      return res.status(400).json({ success: false, error: `recipes[${index}]: ${validationError}` });
+    }
+    clientRecipes.push(recipe);
+  }
+
+  try {
+    const sources: ShoppingListRecipe[] = [];
+    for (const id of recipeIds) {
+      const saved = await getRecipe(ownerOf(res), id);
+      if (!saved) {
+        return res.status(404).json({ success: false, error: `Recipe ${id} not found` });
+      }
+      sources.push({ title: saved.title, ingredients: saved.structured_ingredients });
+    }
+    for (const recipe of clientRecipes) {
+      sources.push({ title: recipe.title, ingredients: recipe.structured_ingredients });
+    }
+    res.json({ success: true, data: buildShoppingList(sources) });
+  } catch (error) {
+    log.error('Failed to build shopping list', { error });
+    res.status(500).json({ success: false, error: 'Failed to build shopping list.' });
+  }
+});
+
+// Reports the caller's analyses today and overall; admin keys see every key.
+app.get('/usage', async (req: Request, res: Response) => {
+  const key = apiKeyOf(res);
+  if (!key) {
+    return res.status(404).json({ success: false, error: 'API keys are not configured on this server.' });
+  }
+  try {
+    res.json({ success: true, data: await getUsage(key) });
+  } catch (error) {
+    log.error('Failed to load usage', { error });
+    res.status(500).json({ success: false, error: 'Failed to load usage.' });
+  }
+});
+
+// `npm start` runs this file directly. Tests import the app and listen on a port of their own.
+if (require.main === module) {
+  app.listen(port, () => {
+    log.info(`Server is running on http://localhost:${port}`);
+    try {
+      log.info(`Recipes are extracted with the ${defaultProviderName()} model provider unless a request picks another.`);
+    } catch (error) {
+      log.error(error instanceof Error ? error.message : String(error));
+    }
+    isAuthEnabled().then(enabled => {
+      if (!enabled) log.warn('No API keys configured, so the API is open to anyone. Create one with `npm run create-key`.');
+    }).catch(error => log.error('Failed to read the API key store', { error }));
+  });
+}
+
+export { app };
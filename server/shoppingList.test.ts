@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { parseIngredients } from './ingredients';
+import { aisleOf, buildShoppingList, ShoppingList } from './shoppingList';
+
+const recipe = (title: string, lines: string[]) => ({ title, ingredients: parseIngredients(lines) });
+
+const itemNamed = (list: ShoppingList, name: string) =>
+  list.aisles.flatMap(group => group.items).find(item => item.name === name);
+
+describe('buildShoppingList', () => {
+  it('converts volumes to one unit before adding them', () => {
+    const list = buildShoppingList([recipe('Pancakes', ['1 cup milk']), recipe('Custard', ['200 ml milk'])]);
+    // 236.588 ml + 200 ml, reported in millilitres because one recipe used them.
+    expect(itemNamed(list, 'milk')?.amounts).toEqual([{ quantity: 437, quantity_max: null, unit: 'ml' }]);
+  });
+
+  it('reports US volumes in the largest unit used', () => {
+    const list = buildShoppingList([recipe('Cake', ['1 cup sugar']), recipe('Glaze', ['4 tbsp sugar'])]);
+    expect(itemNamed(list, 'sugar')?.amounts).toEqual([{ quantity: 1.25, quantity_max: null, unit: 'cup' }]);
+  });
+
+  it('keeps amounts apart when their units cannot be converted', () => {
+    const list = buildShoppingList([
+      recipe('Stir fry', ['2 cloves garlic', '1 onion']),
+      recipe('Dressing', ['1 tsp garlic', '1 cup onions']),
+    ]);
+    expect(itemNamed(list, 'garlic')?.amounts).toEqual([
+      { quantity: 2, quantity_max: null, unit: 'clove' },
+      { quantity: 1, quantity_max: null, unit: 'tsp' },
+    ]);
+    expect(itemNamed(list, 'onion')?.amounts).toEqual([
+      { quantity: 1, quantity_max: null, unit: null },
+      { quantity: 1, quantity_max: null, unit: 'cup' },
+    ]);
+  });
+
+  it('merges singular and plural names and adds ranges up to a range', () => {
+    const list = buildShoppingList([recipe('Soup', ['2-3 carrots']), recipe('Salad', ['1 carrot', 'salt to taste'])]);
+    const carrots = itemNamed(list, 'carrots');
+    expect(carrots?.amounts).toEqual([{ quantity: 3, quantity_max: 4, unit: null }]);
+    expect(carrots?.sources).toEqual([
+      { recipe: 'Soup', ingredient: '2-3 carrots' },
+      { recipe: 'Salad', ingredient: '1 carrot' },
+    ]);
+    expect(itemNamed(list, 'salt')?.amounts).toEqual([]);
+  });
+
+  it('groups items by aisle in store order, sorted by name within each aisle', () => {
+    const list = buildShoppingList([recipe('Dinner', ['1 tsp cumin', '2 tomatoes', '1 lb chicken breast', '1 onion', '2 eggs'])]);
+    expect(list.recipes).toEqual(['Dinner']);
+    expect(list.aisles.map(group => [group.aisle, group.items.map(item => item.name)])).toEqual([
+      ['produce', ['onion', 'tomatoes']],
+      ['meat_seafood', ['chicken breast']],
+      ['dairy_eggs', ['eggs']],
+      ['spices', ['cumin']],
+    ]);
+  });
+});
+
+describe('aisleOf', () => {
+  it('prefers the longest keyword', () => {
+    expect(aisleOf('garlic powder')).toBe('spices');
+    expect(aisleOf('garlic')).toBe('produce');
+    expect(aisleOf('coconut milk')).toBe('pantry');
+    expect(aisleOf('frozen peas')).toBe('frozen');
+    expect(aisleOf('dragon fruit')).toBe('other');
+  });
+});
@@ -0,0 +1,221 @@
+import { IngredientUnit, StructuredIngredient } from './ingredients';
+
+export const AISLES = [
+  'produce', 'meat_seafood', 'dairy_eggs', 'bakery', 'pantry', 'spices', 'frozen', 'beverages', 'other',
+] as const;
+export type Aisle = typeof AISLES[number];
+
+export interface ShoppingAmount {
+  quantity: number;
+  quantity_max: number | null;
+  unit: IngredientUnit | null;
+}
+
+export interface ShoppingListItem {
+  // Stable across rebuilds of the list, so clients can remember checked items.
+  key: string;
+  name: string;
+  aisle: Aisle;
+  // One amount per unit that cannot be converted into another, e.g. "2 cloves" and "1 tsp"
+  // of garlic. Empty when no recipe gives an amount, as with "salt to taste".
+  amounts: ShoppingAmount[];
+  // The ingredient lines that were merged into this item.
+  sources: { recipe: string; ingredient: string }[];
+}
+
+export interface ShoppingList {
+  recipes: string[];
+  aisles: { aisle: Aisle; items: ShoppingListItem[] }[];
+}
+
+export interface ShoppingListRecipe {
+  title: string;
+  ingredients: StructuredIngredient[];
+}
+
+// Volumes in millilitres and weights in grams. Pinches and dashes stay as they are.
+const ML_PER_UNIT: Partial<Record<IngredientUnit, number>> = {
+  'tsp': 4.92892, 'tbsp': 14.7868, 'cup': 236.588, 'fl oz': 29.5735,
+  'pint': 473.176, 'quart': 946.353, 'gallon': 3785.41, 'ml': 1, 'l': 1000,
+};
+const GRAMS_PER_UNIT: Partial<Record<IngredientUnit, number>> = {
+  'g': 1, 'kg': 1000, 'oz': 28.3495, 'lb': 453.592,
+};
+const METRIC_UNITS = new Set<IngredientUnit>(['ml', 'l', 'g', 'kg']);
+
+// Keywords match whole words, optionally pluralized. The longest match across all aisles
+// wins, so "garlic powder" is a spice, "coconut milk" is pantry and "frozen peas" are frozen.
+const AISLE_KEYWORDS: Record<Exclude<Aisle, 'other'>, string[]> = {
+  produce: [
+    'apple', 'avocado', 'banana', 'basil', 'bean sprout', 'beet', 'bell pepper', 'berry', 'blueberry', 'bok choy',
+    'broccoli', 'cabbage', 'carrot', 'cauliflower', 'celery', 'chili', 'chile', 'cilantro', 'coriander leaves',
+    'corn on the cob', 'cucumber', 'dill', 'eggplant', 'aubergine', 'fennel', 'garlic', 'ginger', 'grape',
+    'green bean', 'green onion', 'herb', 'jalapeno', 'kale', 'leek', 'lemon', 'lettuce', 'lime', 'mango', 'mint',
+    'mushroom', 'onion', 'orange', 'parsley', 'peach', 'pear', 'pepper', 'pineapple', 'potato', 'pumpkin',
+    'radish', 'raspberry', 'rosemary', 'sage', 'scallion', 'shallot', 'spinach', 'squash', 'strawberry',
+    'sweet potato', 'thyme', 'tomato', 'zucchini', 'courgette', 'arugula', 'lemongrass', 'chive',
+  ],
+  meat_seafood: [
+    'bacon', 'beef', 'chicken', 'chorizo', 'cod', 'crab', 'duck', 'fish', 'ham', 'lamb', 'lobster', 'meat',
+    'mince', 'mussel', 'pancetta', 'pork', 'prawn', 'prosciutto', 'salmon', 'sausage', 'scallop', 'shrimp',
+    'steak', 'tilapia', 'tuna', 'turkey', 'veal', 'ground beef', 'chicken breast', 'chicken thigh',
+  ],
+  dairy_eggs: [
+    'butter', 'buttermilk', 'cheddar', 'cheese', 'cream', 'cream cheese', 'egg', 'feta', 'ghee', 'milk',
+    'mozzarella', 'parmesan', 'ricotta', 'sour cream', 'yogurt', 'yoghurt', 'heavy cream', 'mascarpone',
+    'creme fraiche', 'halloumi', 'paneer',
+  ],
+  bakery: ['bagel', 'baguette', 'bread', 'brioche', 'bun', 'croissant', 'pita', 'roll', 'tortilla', 'naan', 'flatbread'],
+  pantry: [
+    'baking powder', 'baking soda', 'bean', 'breadcrumb', 'broth', 'chickpea', 'chocolate', 'cocoa', 'coconut milk',
+    'cornstarch', 'flour', 'honey', 'ketchup', 'lentil', 'maple syrup', 'mayonnaise', 'mustard', 'noodle', 'nut',
+    'almond', 'oat', 'oil', 'olive oil', 'pasta', 'peanut butter', 'quinoa', 'rice', 'soy sauce', 'spaghetti',
+    'stock', 'sugar', 'brown sugar', 'tomato paste', 'canned tomato', 'crushed tomato', 'diced tomato', 'vinegar',
+    'yeast', 'sesame seed', 'tahini', 'fish sauce', 'oyster sauce', 'hot sauce', 'sriracha', 'jam', 'panko',
+    'vanilla extract', 'gelatin', 'raisin', 'chicken broth', 'chicken stock', 'beef broth', 'vegetable broth',
+  ],
+  spices: [
+    'allspice', 'bay leaf', 'black pepper', 'cardamom', 'cayenne', 'chili flake', 'chili powder', 'cinnamon',
+    'clove', 'cumin', 'curry powder', 'garam masala', 'garlic powder', 'ground ginger', 'nutmeg', 'onion powder',
+    'oregano', 'paprika', 'pepper flake', 'red pepper flake', 'salt', 'sea salt', 'smoked paprika', 'turmeric',
+    'dried thyme', 'dried oregano', 'dried basil', 'italian seasoning', 'seasoning', 'peppercorn', 'saffron',
+    'star anise', 'five spice', 'za atar', 'sumac',
+  ],
+  frozen: ['frozen', 'ice cream', 'puff pastry', 'frozen pea', 'frozen corn', 'frozen spinach', 'ice'],
+  beverages: ['beer', 'coffee', 'juice', 'soda', 'sparkling water', 'tea', 'wine', 'orange juice', 'lemon juice', 'lime juice'],
+};
+
+// Lowercases, strips accents and punctuation, and pads with spaces for whole-word matching.
+const normalize = (text: string) =>
+  ` ${text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+const AISLE_PATTERNS: { keyword: string; pattern: RegExp; aisle: Aisle }[] = (
+  Object.entries(AISLE_KEYWORDS) as [Aisle, string[]][]
+)
+  .flatMap(([aisle, keywords]) => keywords.map(keyword => ({
+    keyword,
+    pattern: new RegExp(` ${normalize(keyword).trim()}(?:e?s)? `),
+    aisle,
+  })))
+  .sort((a, b) => b.keyword.length - a.keyword.length);
+
+export const aisleOf = (name: string): Aisle => {
+  const normalized = normalize(name);
+  return AISLE_PATTERNS.find(({ pattern }) => pattern.test(normalized))?.aisle ?? 'other';
+};
+
+// Singular form of the last word, so "tomatoes" and "tomato" merge. Deliberately simple:
+// it only has to make the same ingredient from two recipes agree.
+const singularize = (word: string) => {
+  if (/ies$/.test(word)) return `${word.slice(0, -3)}y`;
+  if (/(?:oes|ches|shes|sses|xes)$/.test(word)) return word.slice(0, -2);
+  if (/[^s]s$/.test(word)) return word.slice(0, -1);
+  return word;
+};
+
+export const ingredientKey = (name: string) => {
+  const words = normalize(name).trim().split(' ');
+  words[words.length - 1] = singularize(words[words.length - 1]);
+  return words.join(' ');
+};
+
+// Amounts are summed per family: all volumes together, all weights together, and every
+// other unit (or no unit, for counted items like "2 onions") on its own.
+type Family = 'volume' | 'weight' | IngredientUnit | 'count';
+
+const familyOf = (unit: IngredientUnit | null): Family => {
+  if (unit === null) return 'count';
+  if (ML_PER_UNIT[unit]) return 'volume';
+  if (GRAMS_PER_UNIT[unit]) return 'weight';
+  return unit;
+};
+
+// Millilitres or grams per unit; 1 for units that are summed as they are.
+const baseFactor = (unit: IngredientUnit | null) => (unit && (ML_PER_UNIT[unit] ?? GRAMS_PER_UNIT[unit])) || 1;
+
+interface Total {
+  // In millilitres or grams for volumes and weights, otherwise in the unit itself.
+  min: number;
+  max: number;
+  hasRange: boolean;
+  units: IngredientUnit[];
+}
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+// Picks the unit a total is reported in: the recipes' own unit when they agree, metric when
+// any recipe used metric, and otherwise the largest US unit used.
+const outputUnit = (family: Family, units: IngredientUnit[], base: number): IngredientUnit | null => {
+  if (family !== 'volume' && family !== 'weight') return family === 'count' ? null : family;
+  const distinct = [...new Set(units)];
+  if (distinct.length === 1) return distinct[0];
+  const table = family === 'volume' ? ML_PER_UNIT : GRAMS_PER_UNIT;
+  if (distinct.some(unit => METRIC_UNITS.has(unit))) {
+    return family === 'volume' ? (base >= 1000 ? 'l' : 'ml') : (base >= 1000 ? 'kg' : 'g');
+  }
+  return distinct.sort((a, b) => table[b]! - table[a]!)[0];
+};
+
+const toAmount = (family: Family, total: Total): ShoppingAmount => {
+  const unit = outputUnit(family, total.units, total.min);
+  const factor = baseFactor(unit);
+  // Whole millilitres and grams; two decimals for everything else.
+  const places = unit === 'ml' || unit === 'g' ? 0 : 2;
+  return {
+    quantity: round(total.min / factor, places),
+    quantity_max: total.hasRange ? round(total.max / factor, places) : null,
+    unit,
+  };
+};
+
+interface Entry {
+  name: string;
+  totals: Map<Family, Total>;
+  sources: { recipe: string; ingredient: string }[];
+}
+
+// Merges the ingredients of several recipes into one list grouped by aisle. Ingredients
+// merge when their names agree after normalization; their amounts are converted and summed
+// where the units allow it. Ranges such as "2-3 carrots" add up to a range.
+export const buildShoppingList = (recipes: ShoppingListRecipe[]): ShoppingList => {
+  const entries = new Map<string, Entry>();
+
+  for (const recipe of recipes) {
+    for (const ingredient of recipe.ingredients) {
+      const key = ingredientKey(ingredient.name);
+      if (!key) continue;
+      const entry: Entry = entries.get(key) ?? { name: ingredient.name.trim(), totals: new Map(), sources: [] };
+      entries.set(key, entry);
+      entry.sources.push({ recipe: recipe.title, ingredient: ingredient.raw });
+
+      // A unit without a number, as in "pinch of salt", means one of that unit.
+      const quantity = ingredient.quantity ?? (ingredient.unit !== null ? 1 : null);
+      if (quantity === null) continue;
+      const family = familyOf(ingredient.unit);
+      const total = entry.totals.get(family) ?? { min: 0, max: 0, hasRange: false, units: [] };
+      total.min += quantity * baseFactor(ingredient.unit);
+      total.max += (ingredient.quantity_max ?? quantity) * baseFactor(ingredient.unit);
+      total.hasRange ||= ingredient.quantity_max !== null;
+      if (ingredient.unit) total.units.push(ingredient.unit);
+      entry.totals.set(family, total);
+    }
+  }
+
+  const items: ShoppingListItem[] = [...entries].map(([key, entry]) => ({
+    key,
+    name: entry.name,
+    aisle: aisleOf(entry.name),
+    amounts: [...entry.totals].map(([family, total]) => toAmount(family, total)),
+    sources: entry.sources,
+  }));
+
+  return {
+    recipes: recipes.map(recipe => recipe.title),
+    aisles: AISLES
+      .map(aisle => ({
+        aisle,
+        items: items.filter(item => item.aisle === aisle).sort((a, b) => a.name.localeCompare(b.name)),
+      }))
+      .filter(group => group.items.length > 0),
+  };
+};
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { safeFetch } from './urls';
+import { extractStructuredRecipe, fetchPageHtml } from './structuredData';
+
+vi.mock('./urls', async (importOriginal) => ({ ...(await importOriginal<typeof import('./urls')>()), safeFetch: vi.fn() }));
+
+const PAGE_URL = 'https://example.com/recipes/pancakes';
+
+const jsonLdPage = (recipe: object, lang = 'en') => `<html lang="${lang}"><head>
+<script type="application/ld+json">${JSON.stringify({ '@context': 'https://schema.org', '@graph': [{ '@type': 'WebPage' }, recipe] })}</script>
+</head><body></body></html>`;
+
+describe('extractStructuredRecipe', () => {
+  it('reads a JSON-LD recipe from a @graph, with sections and step images', () => {
+    const html = jsonLdPage({
+      '@type': 'Recipe',
+      'name': 'Pancakes &amp; Syrup',
+      'recipeIngredient': ['2 cups flour', '2 eggs'],
+      'recipeYield': ['4', '4 servings'],
+      'image': ['/img/main.jpg'],
+      'recipeInstructions': [
+        { '@type': 'HowToSection', 'itemListElement': [{ '@type': 'HowToStep', 'text': 'Mix.' }] },
+        { '@type': 'HowToStep', 'text': '<p>Fry.</p>', 'image': 'https://cdn.example.com/fry.jpg' },
+      ],
+    }, 'de');
+    const result = extractStructuredRecipe(html, PAGE_URL);
+    expect(result?.method).toBe('json-ld');
+    expect(result?.recipe).toMatchObject({
+      recipeName: 'Pancakes & Syrup',
+      servings: '4 servings',
+      sourceLanguage: 'de',
+      ingredients: ['2 cups flour', '2 eggs'],
+      instructions: ['Mix.', 'Fry.'],
+      images: [
+        { url: 'https://example.com/img/main.jpg', category: 'main' },
+        { url: 'https://cdn.example.com/fry.jpg', category: 'step', step: 2 },
+      ],
+    });
+  });
+
+  it('falls back to microdata', () => {
+    const html = `<div itemscope itemtype="https://schema.org/Recipe">
+      <h1 itemprop="name">Toast</h1>
+      <span itemprop="recipeIngredient">1 slice bread</span>
+      <ol itemprop="recipeInstructions"><li>Toast the bread.</li><li>Butter it.</li></ol>
+    </div>`;
+    const result = extractStructuredRecipe(html, PAGE_URL);
+    expect(result?.method).toBe('microdata');
+    expect(result?.recipe.instructions).toEqual(['Toast the bread.', 'Butter it.']);
+  });
+
+  it('keeps numeric entities past the last code point as written', () => {
+    const html = jsonLdPage({
+      '@type': 'Recipe',
+      'name': 'Odd &#x110000; toast &#9999999999;',
+      'recipeIngredient': ['1 slice bread'],
+      'recipeInstructions': ['Toast &#x1F35E;.'],
+    });
+    expect(extractStructuredRecipe(html, PAGE_URL)?.recipe).toMatchObject({
+      recipeName: 'Odd &#x110000; toast &#9999999999;',
+      instructions: ['Toast 🍞.'],
+    });
+  });
+
+  it('stops the microdata scope where the recipe element closes', () => {
+    const html = `<div itemscope itemtype="https://schema.org/Recipe">
+      <h1 itemprop="name">Toast</h1>
+      <div><span itemprop="recipeIngredient">1 slice bread</span></div>
+      <p itemprop="recipeInstructions">Toast the bread.</p>
+    </div>
+    <div itemscope itemtype="https://schema.org/Product">
+      <span itemprop="name">Toaster</span>
+      <span itemprop="recipeIngredient">1 warranty card</span>
+    </div>`;
+    expect(extractStructuredRecipe(html, PAGE_URL)?.recipe).toMatchObject({
+      recipeName: 'Toast',
+      ingredients: ['1 slice bread'],
+    });
+  });
+
+  it('ignores recipes without ingredients or instructions', () => {
+    expect(extractStructuredRecipe(jsonLdPage({ '@type': 'Recipe', 'name': 'Empty' }), PAGE_URL)).toBeNull();
+  });
+});
+
+describe('fetchPageHtml', () => {
+  afterEach(() => vi.mocked(safeFetch).mockReset());
+
+  it('returns the HTML of a page', async () => {
+    vi.mocked(safeFetch).mockResolvedValue(new Response('<html></html>', { headers: { 'Content-Type': 'text/html' } }));
+    expect(await fetchPageHtml(PAGE_URL)).toBe('<html></html>');
+  });
+
+  it('gives up on pages over the size limit', async () => {
+    const huge = new Uint8Array(6 * 1024 * 1024).fill(32);
+    vi.mocked(safeFetch).mockResolvedValue(new Response(huge, { headers: { 'Content-Type': 'text/html' } }));
+    expect(await fetchPageHtml(PAGE_URL)).toBeNull();
+  });
+
+  it('skips responses that are not HTML', async () => {
+    vi.mocked(safeFetch).mockResolvedValue(new Response('{}', { headers: { 'Content-Type': 'application/json' } }));
+    expect(await fetchPageHtml(PAGE_URL)).toBeNull();
+  });
+});
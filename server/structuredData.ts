@@ -0,0 +1,304 @@
+import { normalizeLanguage } from './languages';
+import { ExtractionMethod, Recipe, RecipeImage } from './types';
+import { readLimited, safeFetch } from './urls';
+import { log } from './logger';
+
+export interface StructuredRecipeResult {
+  recipe: Recipe;
+  method: Exclude<ExtractionMethod, 'model'>;
+}
+
+const FETCH_TIMEOUT_MS = 10000;
+// Recipe pages with all their inline scripts stay well below this.
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+
+// Some recipe sites serve a stripped-down page to unknown clients, so we send a browser-style User-Agent.
+const FETCH_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (compatible; RecipeFinder/1.0; +https://schema.org/Recipe)',
+  'Accept': 'text/html,application/xhtml+xml',
+};
+
+// Redirects are followed through safeFetch, so a page cannot send us to a private address.
+export const fetchPageHtml = async (url: string): Promise<string | null> => {
+  try {
+    const response = await safeFetch(url, { headers: FETCH_HEADERS, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!response.ok) {
+      log.warn('Fetching page HTML failed', { url, status: response.status });
+      return null;
+    }
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType && !contentType.includes('html')) return null;
+    const html = await readLimited(response, MAX_PAGE_BYTES);
+    if (!html) {
+      log.warn('Page HTML is empty or over the size limit', { url, max_bytes: MAX_PAGE_BYTES });
+      return null;
+    }
+    return html.toString('utf8');
+  } catch (fetchError) {
+    log.warn('Failed to fetch page HTML', { url, error: fetchError });
+    return null;
+  }
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', frac12: '½', frac14: '¼', frac34: '¾', deg: '°',
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z0-9]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      // fromCodePoint throws past the last Unicode code point, so such entities stay as written.
+      return Number.isNaN(value) || value > 0x10ffff ? entity : String.fromCodePoint(value);
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+// Strips tags and entities from text that may contain HTML, and collapses whitespace.
+const cleanText = (text: unknown): string => {
+  if (typeof text !== 'string' && typeof text !== 'number') return '';
+  return decodeEntities(String(text).replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+};
+
+const asArray = <T>(value: T | T[] | undefined | null): T[] => {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+// Structured data comes from the page as it is, so every value is checked before use.
+type JsonObject = Record<string, unknown>;
+
+const isJsonObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const hasType = (node: unknown, type: string): boolean =>
+  isJsonObject(node) && asArray(node['@type']).some(value => isString(value) && value.replace(/^.*[/#]/, '') === type);
+
+// HowToSection objects, and lists that only group further steps.
+const isStepGroup = (item: JsonObject) => hasType(item, 'HowToSection') || (Boolean(item.itemListElement) && !item.text);
+
+// Walks a parsed JSON-LD document (including @graph arrays and nested entities) looking for a Recipe.
+const findRecipeNode = (node: unknown, depth = 0): JsonObject | null => {
+  if (!node || typeof node !== 'object' || depth > 6) return null;
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const found = findRecipeNode(item, depth + 1);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (!isJsonObject(node)) return null;
+  if (hasType(node, 'Recipe')) return node;
+  for (const key of ['@graph', 'mainEntity', 'mainEntityOfPage', 'itemListElement', 'item']) {
+    const found = findRecipeNode(node[key], depth + 1);
+    if (found) return found;
+  }
+  return null;
+};
+
+// Flattens recipeInstructions, which may be a string, a list of strings,
+// HowToStep objects or HowToSection objects containing further steps.
+const flattenInstructions = (value: unknown): string[] => {
+  if (typeof value === 'string') {
+    const html = value.includes('<li') ? value.split(/<li[^>]*>/i).slice(1) : value.split(/\n+|<br\s*\/?>|<\/p>/i);
+    return html.map(cleanText).filter(Boolean);
+  }
+  return asArray(value).flatMap((item): string[] => {
+    if (isString(item)) return flattenInstructions(item);
+    if (!isJsonObject(item)) return [];
+    if (isStepGroup(item)) return flattenInstructions(item.itemListElement);
+    const text = cleanText(item.text || item.name || item.description);
+    return text ? [text] : [];
+  });
+};
+
+const imageUrls = (value: unknown): string[] =>
+  asArray(value).flatMap((item): string[] => {
+    if (isString(item)) return [item];
+    if (isJsonObject(item)) return asArray(item.url || item.contentUrl || item['@id']).filter(isString);
+    return [];
+  });
+
+const toAbsoluteUrl = (url: string, baseUrl: string): string | null => {
+  try {
+    return new URL(url, baseUrl).href;
+  } catch (e) {
+    return null;
+  }
+};
+
+interface StepImage {
+  url: string;
+  step: number;
+}
+
+const buildImages = (urls: string[], stepImages: StepImage[], pageUrl: string): RecipeImage[] => {
+  const seen = new Set<string>();
+  const images: RecipeImage[] = [];
+  const add = (url: string, category: RecipeImage['category'], step?: number) => {
+    const absoluteUrl = toAbsoluteUrl(url, pageUrl);
+    if (!absoluteUrl || seen.has(absoluteUrl)) return;
+    seen.add(absoluteUrl);
+    images.push({ url: absoluteUrl, description: '', category, ...(step ? { step } : {}) });
+  };
+  urls.forEach((url, index) => add(url, index === 0 ? 'main' : 'additional'));
+  stepImages.forEach(({ url, step }) => add(url, 'step', step));
+  return images;
+};
+
+// Images of HowToStep items, numbered the way flattenInstructions numbers the steps.
+const stepImages = (value: unknown): StepImage[] => {
+  const images: StepImage[] = [];
+  let step = 0;
+  const visit = (items: unknown) => asArray(items).forEach(item => {
+    if (isString(item)) {
+      step += flattenInstructions(item).length;
+      return;
+    }
+    if (!isJsonObject(item)) return;
+    if (isStepGroup(item)) {
+      visit(item.itemListElement);
+      return;
+    }
+    if (!cleanText(item.text || item.name || item.description)) return;
+    step++;
+    imageUrls(item.image).forEach(url => images.push({ url, step }));
+  });
+  visit(value);
+  return images;
+};
+
+const yieldText = (value: unknown): string | undefined => {
+  const values = asArray(value).map(cleanText).filter(Boolean);
+  // Prefer the entry with a number in it, e.g. ["4", "4 servings"] or ["Serves 4"].
+  return values.find(text => /\d/.test(text) && /[a-z]/i.test(text)) || values[0];
+};
+
+// Scalar properties may repeat in microdata; the first occurrence belongs to the recipe itself.
+const firstText = (value: unknown): string => cleanText(asArray(value)[0]);
+
+const mapRecipeNode = (node: JsonObject, pageUrl: string): Recipe | null => {
+  const ingredients = asArray(node.recipeIngredient || node.ingredients).map(cleanText).filter(Boolean);
+  const instructions = flattenInstructions(node.recipeInstructions);
+  const recipeName = firstText(node.name || node.headline);
+  if (!recipeName || ingredients.length === 0 || instructions.length === 0) return null;
+
+  return {
+    recipeName,
+    description: firstText(node.description),
+    prepTime: firstText(node.prepTime) || undefined,
+    cookTime: firstText(node.cookTime) || undefined,
+    totalTime: firstText(node.totalTime) || undefined,
+    servings: yieldText(node.recipeYield),
+    sourceLanguage: normalizeLanguage(firstText(node.inLanguage)) ?? undefined,
+    ingredients,
+    instructions,
+    images: buildImages(imageUrls(node.image), stepImages(node.recipeInstructions), pageUrl),
+  };
+};
+
+const extractJsonLd = (html: string, pageUrl: string): Recipe | null => {
+  const scriptRegex = /<script[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+  for (const match of html.matchAll(scriptRegex)) {
+    const json = match[1].trim().replace(/^<!--|-->$/g, '').replace(/^\/\/\s*<!\[CDATA\[|\/\/\s*\]\]>$/g, '');
+    let document: unknown;
+    try {
+      document = JSON.parse(json);
+    } catch (parseError) {
+      log.warn('Skipping invalid JSON-LD block', { url: pageUrl });
+      continue;
+    }
+    const node = findRecipeNode(document);
+    const recipe = node ? mapRecipeNode(node, pageUrl) : null;
+    if (recipe) return recipe;
+  }
+  return null;
+};
+
+const attributeValue = (attributes: string, name: string): string | null => {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : null;
+};
+
+// The HTML of the element whose opening tag starts at `start`, up to its matching closing tag.
+// Nested elements with the same tag name are counted; an element never closed runs to the end.
+const elementHtml = (html: string, start: number, tag: string): string => {
+  const tagRegex = new RegExp(`<(/?)${tag}\\b[^>]*>`, 'gi');
+  tagRegex.lastIndex = start;
+  let depth = 0;
+  for (let match = tagRegex.exec(html); match; match = tagRegex.exec(html)) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) return html.slice(start, match.index + match[0].length);
+  }
+  return html.slice(start);
+};
+
+// Reads microdata itemprops from the Recipe scope into a JSON-LD-like object so it
+// can share the JSON-LD mapping. Nested HowToStep scopes contribute their "text".
+const extractMicrodata = (html: string, pageUrl: string): Recipe | null => {
+  const scopeMatch = html.match(/<([a-z][a-z0-9]*)\b[^>]*\bitemtype\s*=\s*["']https?:\/\/schema\.org\/Recipe["'][^>]*>/i);
+  if (!scopeMatch || scopeMatch.index === undefined) return null;
+  const scope = elementHtml(html, scopeMatch.index, scopeMatch[1]);
+
+  const node: JsonObject = { '@type': 'Recipe' };
+  const append = (key: string, value: string) => {
+    if (!value) return;
+    node[key] = node[key] === undefined ? value : [...asArray(node[key]), value];
+  };
+
+  const propRegex = /<([a-z][a-z0-9]*)\b([^>]*\bitemprop\s*=\s*["']([^"']+)["'][^>]*)>/gi;
+  for (const match of scope.matchAll(propRegex)) {
+    const [, tag, attributes, props] = match;
+    // Nested scopes (HowToStep, author, nutrition) only contribute through their own itemprops.
+    if (/\bitemscope\b/i.test(attributes)) continue;
+
+    const lowerTag = tag.toLowerCase();
+    let value = attributeValue(attributes, 'content');
+    if (value === null && (lowerTag === 'img' || lowerTag === 'source')) value = attributeValue(attributes, 'src');
+    if (value === null && (lowerTag === 'a' || lowerTag === 'link')) value = attributeValue(attributes, 'href');
+    if (value === null && lowerTag === 'time') value = attributeValue(attributes, 'datetime');
+
+    let innerHtml: string | null = null;
+    if (value === null) {
+      const start = (match.index ?? 0) + match[0].length;
+      const end = scope.indexOf(`</${tag}`, start);
+      innerHtml = end === -1 ? '' : scope.slice(start, end);
+    }
+
+    for (const prop of props.split(/\s+/)) {
+      const key = prop === 'text' ? 'recipeInstructions' : prop;
+      if (innerHtml === null) {
+        append(key, key === 'image' ? (value ?? '').trim() : cleanText(value));
+      } else if (key === 'recipeInstructions' || /<li/i.test(innerHtml)) {
+        // Keep list and paragraph structure so containers split into separate lines.
+        flattenInstructions(innerHtml).forEach(line => append(key, line));
+      } else {
+        append(key, cleanText(innerHtml));
+      }
+    }
+  }
+
+  return mapRecipeNode(node, pageUrl);
+};
+
+// Recipes without their own inLanguage are assumed to be in the page's language.
+const withPageLanguage = (recipe: Recipe, html: string): Recipe => {
+  if (recipe.sourceLanguage) return recipe;
+  const htmlTag = html.match(/<html\b([^>]*)>/i);
+  const pageLanguage = htmlTag ? normalizeLanguage(attributeValue(htmlTag[1], 'lang')) : null;
+  return pageLanguage ? { ...recipe, sourceLanguage: pageLanguage } : recipe;
+};
+
+// Extracts a recipe from schema.org JSON-LD or microdata embedded in the page.
+// Returns null when the page has no usable structured recipe data.
+export const extractStructuredRecipe = (html: string, pageUrl: string): StructuredRecipeResult | null => {
+  const jsonLdRecipe = extractJsonLd(html, pageUrl);
+  if (jsonLdRecipe) return { recipe: withPageLanguage(jsonLdRecipe, html), method: 'json-ld' };
+
+  const microdataRecipe = extractMicrodata(html, pageUrl);
+  if (microdataRecipe) return { recipe: withPageLanguage(microdataRecipe, html), method: 'microdata' };
+
+  return null;
+};
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { renderMetrics } from './metrics';
+import { ModelProvider } from './modelProvider';
+import { runWithRequestContext } from './requestContext';
+import { estimateCost, recordTokenUsage, requestUsage } from './tokenUsage';
+
+const MILLION = { inputTokens: 1e6, outputTokens: 1e6 };
+
+describe('estimateCost', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('prices input and output tokens per million for each model', () => {
+    expect(estimateCost('gemini-2.5-pro', MILLION)).toBeCloseTo(11.25);
+    expect(estimateCost('gemini-2.5-flash', { inputTokens: 2000, outputTokens: 500 })).toBeCloseTo(0.00185);
+    expect(estimateCost('gemini-2.0-flash-lite', { inputTokens: 1e6, outputTokens: 0 })).toBeCloseTo(0.075);
+  });
+
+  it('prices versioned names like the longest name they start with', () => {
+    expect(estimateCost('gemini-2.5-flash-lite-preview-06-17', MILLION)).toBeCloseTo(0.5);
+    expect(estimateCost('gemini-2.5-flash-preview-05-20', MILLION)).toBeCloseTo(2.8);
+  });
+
+  it('returns null for models without a price', () => {
+    expect(estimateCost('llama3.1', MILLION)).toBeNull();
+  });
+
+  it('takes additional prices from MODEL_PRICES and ignores invalid JSON', () => {
+    vi.stubEnv('MODEL_PRICES', '{"llama3.1": {"input": 0, "output": 0}, "gemini-2.5-pro": {"input": 2, "output": 12}}');
+    expect(estimateCost('llama3.1', MILLION)).toBe(0);
+    expect(estimateCost('gemini-2.5-pro', MILLION)).toBeCloseTo(14);
+    vi.stubEnv('MODEL_PRICES', '{not json');
+    expect(estimateCost('gemini-2.5-pro', MILLION)).toBeCloseTo(11.25);
+  });
+});
+
+describe('recordTokenUsage', () => {
+  const provider = { name: 'gemini', model: 'gemini-2.5-flash' } as ModelProvider;
+
+  it('adds each conversation to the current request and the metrics', () => {
+    const usage = runWithRequestContext('request', () => {
+      recordTokenUsage(provider, { inputTokens: 1000, outputTokens: 200 });
+      recordTokenUsage(provider, { inputTokens: 3000, outputTokens: 800 });
+      return requestUsage();
+    });
+    // 4000 input tokens at $0.30 and 1000 output tokens at $2.50 per million.
+    expect(usage).toEqual({ input_tokens: 4000, output_tokens: 1000, estimated_cost_usd: 0.0037 });
+    expect(renderMetrics()).toContain('model_tokens_total{provider="gemini",model="gemini-2.5-flash",direction="input"} 4000');
+    expect(requestUsage()).toEqual({ input_tokens: 0, output_tokens: 0, estimated_cost_usd: 0 });
+  });
+});
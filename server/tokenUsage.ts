@@ -0,0 +1,82 @@
+import { log } from './logger';
+import { modelCost, modelTokens } from './metrics';
+import { ModelProvider, TokenUsage } from './modelProvider';
+import { currentRequest } from './requestContext';
+
+// US dollars per million tokens.
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices of the Gemini models, for prompts up to 200k tokens. Versioned names such as
+// gemini-2.5-flash-preview-05-20 are priced like the longest name they start with.
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+};
+
+let parsedPrices: { source: string; prices: Record<string, ModelPrice> } | null = null;
+
+// MODEL_PRICES adds or overrides prices as JSON, e.g. {"llama3.1": {"input": 0, "output": 0}}.
+const modelPrices = (): Record<string, ModelPrice> => {
+  const source = process.env.MODEL_PRICES || '';
+  if (parsedPrices?.source === source) return parsedPrices.prices;
+  let overrides: Record<string, ModelPrice> = {};
+  try {
+    overrides = source ? JSON.parse(source) : {};
+  } catch (error) {
+    log.warn('Ignoring MODEL_PRICES, which is not valid JSON', { error });
+  }
+  parsedPrices = { source, prices: { ...DEFAULT_PRICES, ...overrides } };
+  return parsedPrices.prices;
+};
+
+const priceOf = (model: string): ModelPrice | null => {
+  const prices = modelPrices();
+  if (prices[model]) return prices[model];
+  const prefix = Object.keys(prices).filter(name => model.startsWith(name)).sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : null;
+};
+
+// Estimated cost in US dollars, or null when the model's price is unknown.
+export const estimateCost = (model: string, usage: TokenUsage): number | null => {
+  const price = priceOf(model);
+  return price ? (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1e6 : null;
+};
+
+// Counts a finished conversation towards the metrics and the current request's totals.
+export const recordTokenUsage = (provider: ModelProvider, usage: TokenUsage) => {
+  const cost = estimateCost(provider.model, usage);
+  const labels = { provider: provider.name, model: provider.model };
+  modelTokens.inc({ ...labels, direction: 'input' }, usage.inputTokens);
+  modelTokens.inc({ ...labels, direction: 'output' }, usage.outputTokens);
+  if (cost !== null) modelCost.inc(labels, cost);
+
+  const request = currentRequest();
+  if (request) {
+    request.inputTokens += usage.inputTokens;
+    request.outputTokens += usage.outputTokens;
+    request.costUsd += cost ?? 0;
+  }
+  log.info('Model conversation finished', {
+    provider: provider.name,
+    model: provider.model,
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    estimated_cost_usd: cost,
+  });
+};
+
+// The model spend of the current request, as reported in responses. Cache hits cost nothing.
+export const requestUsage = () => {
+  const request = currentRequest();
+  return {
+    input_tokens: request?.inputTokens ?? 0,
+    output_tokens: request?.outputTokens ?? 0,
+    estimated_cost_usd: Math.round((request?.costUsd ?? 0) * 1e6) / 1e6,
+  };
+};
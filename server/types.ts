@@ -0,0 +1,135 @@
+import { StructuredIngredient } from './ingredients';
+import { NutritionEstimate } from './nutrition';
+import { DietaryInfo } from './dietary';
+import { FieldIssue } from './recipeValidation';
+import { ProviderName } from './modelProvider';
+
+// 'upload' covers videos and transcripts sent to /analyze/upload, which have no source URL.
+export type Platform = 'tiktok' | 'youtube' | 'instagram' | 'facebook' | 'pinterest' | 'vimeo' | 'website' | 'upload';
+
+// How the recipe was obtained: parsed from structured page data or generated by a model
+export type ExtractionMethod = 'json-ld' | 'microdata' | 'model';
+
+// This is the internal representation from Gemini or structured page data
+export interface RecipeImage {
+  url: string;
+  description: string;
+  category: 'main' | 'step' | 'additional';
+  step?: number; // 1-based index into instructions, for step images
+}
+
+// When an instruction is shown in a video, as reported by Gemini
+export interface StepTimestamp {
+  step: number; // 1-based index into instructions
+  start: string; // e.g., "1:05"
+  end?: string;
+}
+
+export interface Recipe {
+  recipeName: string;
+  description: string;
+  prepTime?: string; // e.g., "15 minutes"
+  cookTime?: string; // e.g., "30 minutes"
+  totalTime?: string; // e.g., "45 minutes"
+  servings?: string; // e.g., "4 servings"
+  sourceLanguage?: string; // e.g., "es", as reported by Gemini or the page
+  ingredients: string[];
+  instructions: string[];
+  images?: RecipeImage[];
+  stepTimestamps?: StepTimestamp[];
+}
+
+// The original strings the numeric times and yields were parsed from
+export interface RecipeRawValues {
+  prep_time: string | null;
+  cook_time: string | null;
+  total_time: string | null;
+  yields: string | null;
+}
+
+// An instruction with the span of the source video that shows it, in seconds
+export interface RecipeStep {
+  text: string;
+  start_time: number | null;
+  end_time: number | null;
+}
+
+export interface RecipeImageData {
+  // Where the image was found. Clients show the stored copy at /images/:id instead.
+  url: string;
+  description: string;
+  category: 'main' | 'step' | 'additional';
+  // The instruction a step image illustrates, 1-based
+  step: number | null;
+  // Set once the image has been verified and stored; null for images that were not checked
+  id: string | null;
+  width: number | null;
+  height: number | null;
+}
+
+// Details of the source video from the platform's oEmbed endpoint
+export interface VideoDetails {
+  platform: Platform;
+  thumbnail_url: string | null;
+  author_name: string | null;
+  embed_html: string | null;
+}
+
+// This is the structure for the final API response data
+export interface RecipeAPIResponseData {
+  title: string;
+  description: string;
+  prep_time: number;
+  cook_time: number;
+  total_time: number;
+  yields: number; // Lower bound for ranges like "4-6 servings"
+  yields_max: number;
+  ingredients: string[];
+  structured_ingredients: StructuredIngredient[];
+  nutrition: NutritionEstimate;
+  dietary: DietaryInfo;
+  instructions: string[];
+  steps: RecipeStep[];
+  image: string | null;
+  images: RecipeImageData[];
+  video: VideoDetails | null;
+  // The language the recipe text is in and the language of the original, e.g. "en" and "es"
+  language: string | null;
+  source_language: string | null;
+  // Empty for uploads, which have no source URL
+  url: string;
+  host: string;
+  raw: RecipeRawValues;
+}
+
+// The outcome of analyzing one source URL, as cached and shared between requests
+export interface AnalysisResult {
+  platform: Platform;
+  extraction: ExtractionMethod;
+  // The provider and model that generated or translated the recipe, e.g. "gemini/gemini-2.5-flash"
+  model: string | null;
+  // Repairs made to the extracted recipe, such as stripped list numbering
+  warnings: FieldIssue[];
+  data: RecipeAPIResponseData;
+}
+
+// A batch item's result carries the same fields as a single /analyze response
+export interface BatchItemResult {
+  source: Platform;
+  extraction: ExtractionMethod;
+  model: string | null;
+  cache_hit: boolean;
+  warnings: FieldIssue[];
+  data: RecipeAPIResponseData;
+}
+
+// Progress reported while a source is analyzed, streamed to clients as Server-Sent Events
+export type AnalysisEvent =
+  | { type: 'platform'; platform: Platform }
+  | { type: 'metadata'; title: string; author: string }
+  | { type: 'model_started'; provider: ProviderName; model: string }
+  | { type: 'partial'; recipe: Partial<Recipe> }
+  | { type: 'repairing'; attempt: number; errors: FieldIssue[] }
+  | { type: 'post_processing'; extraction: ExtractionMethod };
+
+export type ProgressListener = (event: AnalysisEvent) => void;
@@ -0,0 +1,99 @@
+import { parseCaptions } from './captions';
+import { normalizeLanguage } from './languages';
+import { isProviderName, PROVIDER_NAMES, ProviderSelection } from './modelProvider';
+
+// Options sent alongside any upload.
+interface UploadOptions {
+  title: string;
+  // Language to translate the recipe into, or null to keep the source language.
+  targetLanguage: string | null;
+  model: ProviderSelection;
+}
+
+// A recipe source sent as a file or pasted text instead of a URL.
+export type RecipeUpload =
+  | ({ kind: 'video'; data: Blob; mimeType: string; filename: string } & UploadOptions)
+  | ({ kind: 'transcript'; text: string; filename: string } & UploadOptions);
+
+// Video types the Gemini Files API accepts, for browsers that send no type.
+const VIDEO_TYPES: Record<string, string> = {
+  mp4: 'video/mp4', m4v: 'video/mp4', mov: 'video/quicktime', webm: 'video/webm', mpeg: 'video/mpeg',
+  mpg: 'video/mpeg', avi: 'video/x-msvideo', wmv: 'video/x-ms-wmv', flv: 'video/x-flv', '3gp': 'video/3gpp',
+};
+
+const TRANSCRIPT_EXTENSIONS = ['srt', 'vtt', 'txt'];
+
+// Longer transcripts are almost certainly not a single recipe video.
+const MAX_TRANSCRIPT_CHARS = 200000;
+
+const extensionOf = (filename: string) => filename.split('.').pop()?.toLowerCase() ?? '';
+
+// Reads a multipart/form-data body with one of: a `video` file, a `transcript` file
+// (.srt, .vtt or .txt) or `captions` text, plus an optional `title`, `targetLanguage`,
+// `provider` and `model`.
+export const readUpload = async (
+  body: Buffer,
+  contentType: string,
+): Promise<{ upload: RecipeUpload | null; error: string | null }> => {
+  let form: FormData;
+  try {
+    // A view rather than a copy, since the body may be a large video.
+    const bytes = new Uint8Array(body.buffer as ArrayBuffer, body.byteOffset, body.byteLength);
+    form = await new Request('http://localhost/upload', { method: 'POST', headers: { 'Content-Type': contentType }, body: bytes }).formData();
+  } catch (error) {
+    return { upload: null, error: 'Request body must be multipart/form-data' };
+  }
+
+  const titleField = form.get('title');
+  const title = typeof titleField === 'string' ? titleField.trim() : '';
+  const languageField = form.get('targetLanguage');
+  const targetLanguage = typeof languageField === 'string' && languageField.trim() ? normalizeLanguage(languageField) : null;
+  if (languageField && !targetLanguage) {
+    return { upload: null, error: 'targetLanguage must be a language code such as "es" or "pt-BR"' };
+  }
+  const providerField = form.get('provider');
+  if (providerField && !isProviderName(providerField)) {
+    return { upload: null, error: `provider must be one of: ${PROVIDER_NAMES.join(', ')}` };
+  }
+  const modelField = form.get('model');
+  const model: ProviderSelection = {
+    provider: isProviderName(providerField) ? providerField : null,
+    model: typeof modelField === 'string' && modelField.trim() ? modelField.trim() : null,
+  };
+  const video = form.get('video');
+  const transcript = form.get('transcript');
+  const captions = form.get('captions');
+  const provided = [video, transcript, typeof captions === 'string' && captions.trim() ? captions : null].filter(Boolean);
+  if (provided.length !== 1) {
+    return { upload: null, error: 'Send exactly one of: a video file, a transcript file or captions text' };
+  }
+
+  if (video) {
+    if (typeof video === 'string') return { upload: null, error: 'video must be a file' };
+    const mimeType = video.type.startsWith('video/') ? video.type : VIDEO_TYPES[extensionOf(video.name)];
+    if (!mimeType) {
+      return { upload: null, error: `Unsupported video type. Use one of: ${Object.keys(VIDEO_TYPES).join(', ')}` };
+    }
+    return { upload: { kind: 'video', data: video, mimeType, filename: video.name, title, targetLanguage, model }, error: null };
+  }
+
+  let text: string;
+  let filename: string;
+  if (transcript) {
+    if (typeof transcript === 'string') return { upload: null, error: 'transcript must be a file' };
+    if (!TRANSCRIPT_EXTENSIONS.includes(extensionOf(transcript.name)) && !transcript.type.startsWith('text/')) {
+      return { upload: null, error: `Unsupported transcript type. Use one of: ${TRANSCRIPT_EXTENSIONS.join(', ')}` };
+    }
+    text = await transcript.text();
+    filename = transcript.name;
+  } else {
+    text = captions as string;
+    filename = 'captions.txt';
+  }
+  const parsed = parseCaptions(text);
+  if (!parsed) return { upload: null, error: 'The transcript is empty' };
+  if (parsed.length > MAX_TRANSCRIPT_CHARS) {
+    return { upload: null, error: `Transcripts may be at most ${MAX_TRANSCRIPT_CHARS} characters` };
+  }
+  return { upload: { kind: 'transcript', text: parsed, filename, title, targetLanguage, model }, error: null };
+};
@@ -0,0 +1,261 @@
+import { lookup as lookupCallback, LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { Agent } from 'undici';
+import { log } from './logger';
+
+// Query parameters that only track where a click came from and never change the content.
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'msclkid', 'mc_cid', 'mc_eid', 'igshid', 'igsh', 'si', 'feature',
+  'ref', 'ref_src', 'ref_url', 'share', 'share_id', 'is_from_webapp', 'sender_device', 'sender_web_id',
+  'is_copy_url', '_r', '_t', 'ab_channel', 'pp', 'utm_id',
+]);
+
+// Hosts whose links only redirect to the real page. youtu.be links need no request:
+// canonicalizeUrl reads the video id straight from them.
+const SHORT_LINK_HOSTS = new Set([
+  'vm.tiktok.com', 'vt.tiktok.com', 'pin.it', 'fb.watch', 'bit.ly', 't.co', 'tinyurl.com', 'instagr.am',
+]);
+const SHORT_LINK_TIMEOUT_MS = 5000;
+const YOUTUBE_ID = /^[\w-]{6,}$/;
+
+// Longer inputs are not links anyone pasted, and only waste DNS lookups and cache space.
+export const MAX_URL_LENGTH = 2048;
+export const MAX_REDIRECTS = 5;
+
+export type UrlErrorCode =
+  | 'missing_url' | 'url_too_long' | 'invalid_url' | 'unsupported_scheme' | 'credentials_in_url'
+  | 'host_not_found' | 'blocked_address' | 'too_many_redirects';
+
+// A source URL the server will not fetch. The code is stable for API clients; the message is for people.
+export class UrlIntakeError extends Error {
+  constructor(public readonly code: UrlErrorCode, message: string) {
+    super(message);
+    this.name = 'UrlIntakeError';
+  }
+}
+
+// Loopback, private, link-local, carrier-grade NAT, multicast, documentation and other
+// special-purpose ranges. IPv4-mapped and NAT64 IPv6 addresses are blocked outright, since
+// they can reach the same hosts. Each family gets its own list, because a BlockList also
+// matches IPv4 addresses against IPv6 rules such as ::ffff:0:0/96.
+const BLOCKED_IPV4 = new BlockList();
+const BLOCKED_IPV6 = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.88.99.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_IPV4.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_IPV6.addSubnet(network, prefix, 'ipv6');
+}
+
+export const isBlockedAddress = (address: string): boolean => {
+  const family = isIP(address);
+  if (family === 4) return BLOCKED_IPV4.check(address, 'ipv4');
+  return family === 0 || BLOCKED_IPV6.check(address, 'ipv6');
+};
+
+// Checks the form of a URL without touching the network.
+export const parseSourceUrl = (input: unknown): URL => {
+  if (typeof input !== 'string' || !input.trim()) {
+    throw new UrlIntakeError('missing_url', 'A source URL is required');
+  }
+  const text = input.trim();
+  if (text.length > MAX_URL_LENGTH) {
+    throw new UrlIntakeError('url_too_long', `URLs may be at most ${MAX_URL_LENGTH} characters`);
+  }
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch (error) {
+    throw new UrlIntakeError('invalid_url', 'The source URL is not a valid URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UrlIntakeError('unsupported_scheme', 'Only http and https URLs are supported');
+  }
+  if (url.username || url.password) {
+    throw new UrlIntakeError('credentials_in_url', 'URLs must not contain a username or password');
+  }
+  if (!url.hostname) {
+    throw new UrlIntakeError('invalid_url', 'The source URL has no host');
+  }
+  return url;
+};
+
+// Rejects URLs whose host is, or resolves to, an address the server must not reach. Every
+// address a name resolves to is checked, since the fetch may use any of them.
+export const assertPublicUrl = async (url: URL): Promise<void> => {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+    } catch (error) {
+      throw new UrlIntakeError('host_not_found', `Could not find the host ${hostname}`);
+    }
+  }
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new UrlIntakeError('blocked_address', `${hostname} points to a private or reserved network address`);
+  }
+};
+
+// The resolver for every connection the server opens to a source. assertPublicUrl checks
+// a name before the request, but the connection resolves it again, and a name that first
+// answered with a public address could answer with a private one the second time (DNS
+// rebinding). Checking the addresses here means the socket only reaches ones that passed.
+const checkedLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    if (addresses.length === 0 || addresses.some(entry => isBlockedAddress(entry.address))) {
+      const blocked = new UrlIntakeError('blocked_address', `${hostname} points to a private or reserved network address`);
+      return callback(blocked as NodeJS.ErrnoException, '', 0);
+    }
+    if (options.all) return (callback as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const publicDispatcher = new Agent({ connect: { lookup: checkedLookup } });
+
+// fetch through publicDispatcher without following redirects. fetch wraps connection errors
+// in a TypeError, so a refusal from checkedLookup is unwrapped to reach the caller as it is.
+const fetchPublic = async (url: URL, init: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(url, { ...init, redirect: 'manual', dispatcher: publicDispatcher } as RequestInit);
+  } catch (error) {
+    const cause = error instanceof TypeError ? (error as { cause?: unknown }).cause : null;
+    throw cause instanceof UrlIntakeError ? cause : error;
+  }
+};
+
+// Fetches a public URL, following at most MAX_REDIRECTS redirects and checking every hop,
+// so a public page cannot redirect the server into the private network.
+export const safeFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+  let url = parseSourceUrl(input);
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(url);
+    const response = await fetchPublic(url, init);
+    const location = response.status >= 300 && response.status < 400 ? response.headers.get('location') : null;
+    if (!location) return response;
+    if (redirects >= MAX_REDIRECTS) {
+      throw new UrlIntakeError('too_many_redirects', `${input} redirected more than ${MAX_REDIRECTS} times`);
+    }
+    url = parseSourceUrl(new URL(location, url).href);
+  }
+};
+
+// Reads a response body, giving up once it grows past maxBytes. Returns null for a missing
+// or oversized body; content-length is not trusted, since servers can omit or misstate it.
+export const readLimited = async (response: Response, maxBytes: number): Promise<Buffer | null> => {
+  if (!response.body) return null;
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return Buffer.concat(chunks);
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+};
+
+const stripHost = (hostname: string) => hostname.toLowerCase().replace(/^(?:www\.|m\.|mobile\.)/, '');
+
+const isShortLink = (url: URL) =>
+  SHORT_LINK_HOSTS.has(url.hostname.toLowerCase()) || (stripHost(url.hostname) === 'tiktok.com' && url.pathname.startsWith('/t/'));
+
+// Share links like vm.tiktok.com/ZM123/ only redirect to the real page, so we follow their
+// redirects to find out which page they point to. A short link that cannot be resolved is
+// kept as it is.
+const resolveShortLink = async (url: URL): Promise<URL> => {
+  let current = url;
+  for (let redirects = 0; isShortLink(current); redirects++) {
+    if (redirects >= MAX_REDIRECTS) {
+      throw new UrlIntakeError('too_many_redirects', `${url.href} redirected more than ${MAX_REDIRECTS} times`);
+    }
+    let location: string | null;
+    try {
+      const response = await fetchPublic(current, { method: 'HEAD', signal: AbortSignal.timeout(SHORT_LINK_TIMEOUT_MS) });
+      location = response.headers.get('location');
+    } catch (error) {
+      if (error instanceof UrlIntakeError) throw error;
+      log.warn('Failed to resolve short link', { url: current.href, error });
+      return current;
+    }
+    if (!location) return current;
+    current = parseSourceUrl(new URL(location, current).href);
+    await assertPublicUrl(current);
+  }
+  return current;
+};
+
+export interface SourceUrl {
+  // The URL to fetch: the client's URL, with short links resolved.
+  url: string;
+  // The form that identifies the recipe in the cache, shared by every spelling of the URL.
+  canonicalUrl: string;
+}
+
+// Validates a client-supplied source URL. Throws a UrlIntakeError for anything the server
+// must not or cannot fetch. Offline, nothing will be fetched, so only the form is checked and
+// short links are kept as they are.
+export const intakeSourceUrl = async (input: unknown, { offline = false } = {}): Promise<SourceUrl> => {
+  const url = parseSourceUrl(input);
+  if (offline) return { url: url.href, canonicalUrl: canonicalizeUrl(url.href) };
+  await assertPublicUrl(url);
+  const resolved = (await resolveShortLink(url)).href;
+  return { url: resolved, canonicalUrl: canonicalizeUrl(resolved) };
+};
+
+const youtubeVideoId = (url: URL): string | null => {
+  const host = stripHost(url.hostname);
+  let id: string | null = null;
+  if (host === 'youtu.be') {
+    id = url.pathname.split('/')[1] || null;
+  } else if (host === 'youtube.com' || host === 'music.youtube.com') {
+    const [, section, pathId] = url.pathname.split('/');
+    id = section === 'watch' ? url.searchParams.get('v') : ['shorts', 'embed', 'live', 'v'].includes(section) ? pathId : null;
+  }
+  return id && YOUTUBE_ID.test(id) ? id : null;
+};
+
+// Normalizes a source URL so different spellings of the same recipe share one cache entry:
+// tracking parameters are dropped, hosts lowercased, and YouTube and TikTok video URLs
+// are rewritten to a single canonical form. Returns the input unchanged if it is not a URL.
+export const canonicalizeUrl = (url: string): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch (e) {
+    return url.trim();
+  }
+
+  const videoId = youtubeVideoId(parsed);
+  if (videoId) return `https://www.youtube.com/watch?v=${videoId}`;
+
+  const host = stripHost(parsed.hostname);
+  const tiktokVideo = host === 'tiktok.com' ? parsed.pathname.match(/^\/(@[^/]+)\/video\/(\d+)/) : null;
+  if (tiktokVideo) return `https://www.tiktok.com/${tiktokVideo[1]}/video/${tiktokVideo[2]}`;
+
+  parsed.hostname = parsed.hostname.toLowerCase();
+  parsed.hash = '';
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (key.toLowerCase().startsWith('utm_') || TRACKING_PARAMS.has(key.toLowerCase())) {
+      parsed.searchParams.delete(key);
+    }
+  }
+  parsed.searchParams.sort();
+  if (parsed.pathname.length > 1) parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  return parsed.href;
+};
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Tests exercise failure paths on purpose; only errors are worth seeing.
+    env: { LOG_LEVEL: 'error' },
+  },
+});
@@ -0,0 +1,39 @@
+// This should point to your backend server.
+// For local development, the Express server runs on port 3001.
+export const BACKEND_URL = 'http://localhost:3001';
+
+// The key the app sends to the backend, from BACKEND_PUBLIC_KEY in .env.local. It is built into
+// the bundle where anyone can read it, so it must be a key created with --public and tight limits.
+// Only needed once the backend has keys.
+export const BACKEND_API_KEY: string = process.env.BACKEND_PUBLIC_KEY || '';
+
+export const authHeaders = (): Record<string, string> =>
+  BACKEND_API_KEY ? { Authorization: `Bearer ${BACKEND_API_KEY}` } : {};
+
+// Sends a JSON request to the backend and unwraps the `{ success, data, error }` envelope.
+export async function backendRequest<T>(path: string, init?: RequestInit): Promise<T> {
+  try {
+    const response = await fetch(`${BACKEND_URL}${path}`, {
+      ...init,
+      // The browser sets the multipart boundary itself for FormData bodies.
+      headers: {
+        ...(init?.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+        ...authHeaders(),
+        ...init?.headers,
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'Request to backend failed');
+    }
+    return data.data;
+  } catch (e) {
+    console.error(e);
+    if (e instanceof Error && e.message.includes('Failed to fetch')) {
+      throw new Error("Could not connect to the backend server. Is it running?");
+    }
+    throw e instanceof Error ? e : new Error("An unknown error occurred while communicating with the backend.");
+  }
+}
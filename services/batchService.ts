@@ -0,0 +1,37 @@
+import { backendRequest } from './backend';
+import { Platform, RecipeData, RecipeWarning } from './geminiService';
+
+export type BatchItemStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface BatchItem {
+  url: string;
+  status: BatchItemStatus;
+  result: {
+    source: Platform;
+    cache_hit: boolean;
+    warnings: RecipeWarning[];
+    data: RecipeData;
+  } | null;
+  error: string | null;
+}
+
+export interface BatchJob {
+  id: string;
+  status: 'queued' | 'running' | 'completed';
+  total: number;
+  completed: number;
+  failed: number;
+  items: BatchItem[];
+}
+
+export async function startBatch(urls: string[]): Promise<string> {
+  const data = await backendRequest<{ job_id: string }>('/analyze/batch', {
+    method: 'POST',
+    body: JSON.stringify({ urls }),
+  });
+  return data.job_id;
+}
+
+export function getBatchJob(jobId: string): Promise<BatchJob> {
+  return backendRequest<BatchJob>(`/jobs/${encodeURIComponent(jobId)}`);
+}
@@ -0,0 +1,53 @@
+import { authHeaders, BACKEND_URL } from './backend';
+import { RecipeData } from './geminiService';
+
+export type ExportFormat = 'markdown' | 'jsonld' | 'html' | 'paprika' | 'mealie';
+
+export const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'jsonld', label: 'JSON-LD' },
+  { format: 'html', label: 'Print HTML' },
+  { format: 'paprika', label: 'Paprika' },
+  { format: 'mealie', label: 'Mealie' },
+];
+
+// Reads the filename out of a `Content-Disposition: attachment; filename="..."` header.
+const filenameFromDisposition = (header: string | null): string | null => {
+  const match = header?.match(/filename="([^"]+)"/);
+  return match ? match[1] : null;
+};
+
+// Asks the backend to render the recipe in the given format and saves the result as a download.
+export async function downloadRecipe(recipe: RecipeData, format: ExportFormat): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(`${BACKEND_URL}/export`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify({ data: recipe, format }),
+    });
+  } catch (e) {
+    console.error(e);
+    throw new Error("Could not connect to the backend server. Is it running?");
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || 'Failed to export recipe.');
+  }
+
+  const blob = await response.blob();
+  saveBlob(blob, filenameFromDisposition(response.headers.get('Content-Disposition')) ?? `recipe-${format}`);
+}
+
+// Offers a blob to the user as a file download.
+export function saveBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -1,54 +1,220 @@
+import { BACKEND_API_KEY, BACKEND_URL, backendRequest } from './backend';
+
+// The kind of source a recipe was extracted from.
+export type Platform = 'tiktok' | 'youtube' | 'instagram' | 'facebook' | 'pinterest' | 'vimeo' | 'website' | 'upload';
+
+// A single ingredient line broken down by the backend's ingredient parser.
+export interface StructuredIngredient {
+  raw: string;
+  quantity: number | null;
+  quantity_max: number | null;
+  unit: string | null;
+  name: string;
+  notes: string | null;
+  group: string | null;
+}
+
+// An instruction with the span of the source video that shows it, in seconds.
+export interface RecipeStep {
+  text: string;
+  start_time: number | null;
+  end_time: number | null;
+}
+
+export interface RecipeImage {
+  // Where the image was found; verified images are shown from the backend's copy instead.
+  url: string;
+  description: string;
+  category: 'main' | 'step' | 'additional';
+  // The 1-based instruction a step image illustrates.
+  step?: number | null;
+  // Set once the backend has verified and stored the image. Older saved recipes lack these.
+  id?: string | null;
+  width?: number | null;
+  height?: number | null;
+}
+
+// Details of the source video from the platform's oEmbed endpoint.
+export interface VideoDetails {
+  platform: Platform;
+  thumbnail_url: string | null;
+  author_name: string | null;
+  embed_html: string | null;
+}
+
+// Calories in kcal, sodium in mg, everything else in grams.
+export interface NutritionFacts {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sodium: number;
+}
+
+// The backend's estimate from its bundled food table, with the ingredients it could not count.
+export interface NutritionEstimate {
+  per_serving: NutritionFacts;
+  total: NutritionFacts;
+  servings: number;
+  unmatched_ingredients: {
+    ingredient: string;
+    reason: 'no_match' | 'no_quantity' | 'unknown_unit';
+  }[];
+}
+
+export type Allergen = 'nuts' | 'gluten' | 'dairy' | 'egg' | 'soy' | 'shellfish' | 'sesame';
+export type Diet = 'vegetarian' | 'vegan' | 'keto';
+
+// Allergens found in the ingredients and the diets the recipe fits, each with the
+// ingredient lines responsible.
+export interface DietaryInfo {
+  allergens: { allergen: Allergen; ingredients: string[] }[];
+  diets: { diet: Diet; compatible: boolean; ingredients: string[] }[];
+}
+
 // This type defines the structured recipe data the frontend will work with.
 export interface RecipeData {
+  id?: string; // Set once the recipe is saved to the library
   title: string;
   description: string;
   prep_time: number;
   cook_time: number;
   total_time: number;
   yields: number;
+  yields_max?: number;
   ingredients: string[];
+  structured_ingredients?: StructuredIngredient[];
+  nutrition?: NutritionEstimate;
+  dietary?: DietaryInfo;
   instructions: string[];
+  steps?: RecipeStep[];
   image: string | null;
+  images?: RecipeImage[];
+  video?: VideoDetails | null;
+  // Language codes such as "es"; language differs from source_language once translated
+  language?: string | null;
+  source_language?: string | null;
+  // Empty for recipes extracted from an uploaded video or transcript
   url: string;
   host: string;
+  // The original strings the numeric times and yields were parsed from
+  raw?: {
+    prep_time: string | null;
+    cook_time: string | null;
+    total_time: string | null;
+    yields: string | null;
+  };
 }
 
-export async function analyzeVideo(
+// A repair the backend made to an extracted recipe, e.g. stripping "1." from instructions.
+export interface RecipeWarning {
+  field: string;
+  message: string;
+}
+
+// Progress reported while the backend analyzes a URL.
+export interface AnalysisProgress {
+  stage: 'uploading' | 'platform' | 'metadata' | 'model_started' | 'partial' | 'repairing' | 'post_processing';
+  message: string;
+  // Fields of the recipe received so far, while the model is still generating.
+  partial?: Partial<Pick<RecipeData, 'title' | 'description' | 'ingredients' | 'instructions'>>;
+}
+
+const PLATFORM_NAMES: Record<Platform, string> = {
+  tiktok: 'TikTok',
+  youtube: 'YouTube',
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  pinterest: 'Pinterest',
+  vimeo: 'Vimeo',
+  website: 'website',
+  upload: 'uploaded file',
+};
+
+// Translates a Server-Sent Event from /analyze/stream into a progress update.
+const toProgress = (type: string, data: any): AnalysisProgress | null => {
+  switch (type) {
+    case 'platform':
+      return { stage: 'platform', message: `Detected ${PLATFORM_NAMES[data.platform as Platform] ?? data.platform} link...` };
+    case 'metadata':
+      return {
+        stage: 'metadata',
+        message: data.title ? `Found "${data.title}"${data.author ? ` by ${data.author}` : ''}...` : 'Fetching video details...',
+      };
+    case 'model_started':
+      return { stage: 'model_started', message: 'Finding recipe in video...' };
+    case 'partial':
+      return {
+        stage: 'partial',
+        message: 'Writing recipe...',
+        partial: {
+          title: data.recipe?.recipeName,
+          description: data.recipe?.description,
+          ingredients: data.recipe?.ingredients,
+          instructions: data.recipe?.instructions,
+        },
+      };
+    case 'repairing':
+      return { stage: 'repairing', message: 'Fixing problems in the recipe...' };
+    case 'post_processing':
+      return { stage: 'post_processing', message: 'Tidying up the recipe...' };
+    default:
+      return null;
+  }
+};
+
+export function analyzeVideo(
   videoUrl: string,
+  onProgress?: (progress: AnalysisProgress) => void,
 ): Promise<RecipeData> {
-  // This should point to your backend server.
-  // For local development, the Express server runs on port 3001.
-  const backendUrl = 'http://localhost:3001/analyze';
-
-  try {
-    const response = await fetch(backendUrl, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ sourceUrl: videoUrl }),
-    });
+  // EventSource cannot send an Authorization header, so the key goes in the query string.
+  const keyParam = BACKEND_API_KEY ? `&api_key=${encodeURIComponent(BACKEND_API_KEY)}` : '';
+  const streamUrl = `${BACKEND_URL}/analyze/stream?url=${encodeURIComponent(videoUrl)}${keyParam}`;
 
-    const data = await response.json();
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(streamUrl);
 
-    if (!response.ok || !data.success) {
-        throw new Error(data.error || 'Request to backend failed');
+    for (const type of ['platform', 'metadata', 'model_started', 'partial', 'repairing', 'post_processing']) {
+      source.addEventListener(type, (event) => {
+        const progress = toProgress(type, JSON.parse((event as MessageEvent).data));
+        if (progress) onProgress?.(progress);
+      });
     }
 
-    if (!data.data) {
-        throw new Error("Backend response is missing the recipe data.");
-    }
-    return data.data;
-
-  } catch(e) {
-      console.error(e);
-      if (e instanceof Error) {
-          // Provide a more user-friendly error message
-          if (e.message.includes('Failed to fetch')) {
-              throw new Error("Could not connect to the backend server. Is it running?");
-          }
-          throw new Error(`An error occurred: ${e.message}`);
+    source.addEventListener('done', (event) => {
+      source.close();
+      const data = JSON.parse((event as MessageEvent).data);
+      if (!data.data) {
+        reject(new Error("Backend response is missing the recipe data."));
+        return;
       }
-      throw new Error("An unknown error occurred while communicating with the backend.");
-  }
+      resolve(data.data);
+    });
+
+    // Fired both for errors sent by the server, refusals such as a blocked URL or an exhausted
+    // quota included (with data), and for connection failures (without).
+    source.addEventListener('error', (event) => {
+      source.close();
+      const message = (event as MessageEvent).data;
+      if (message) {
+        const data = JSON.parse(message);
+        reject(new Error(`An error occurred: ${data.error || 'Request to backend failed'}`));
+      } else {
+        console.error(event);
+        reject(new Error("Could not connect to the backend server. Is it running?"));
+      }
+    });
+  });
+}
+
+// Files the backend can extract a recipe from, for the file picker's `accept` attribute.
+export const UPLOAD_ACCEPT = 'video/*,.srt,.vtt,.txt';
+
+// Sends an unpublished video or caption file to the backend. Videos are watched by the
+// model directly; .srt, .vtt and .txt files are treated as transcripts.
+export function analyzeUpload(file: File): Promise<RecipeData> {
+  const form = new FormData();
+  form.append(file.type.startsWith('video/') ? 'video' : 'transcript', file);
+  return backendRequest<RecipeData>('/analyze/upload', { method: 'POST', body: form });
 }
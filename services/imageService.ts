@@ -0,0 +1,14 @@
+import { BACKEND_API_KEY, BACKEND_URL } from './backend';
+import { RecipeImage } from './geminiService';
+
+// Widths the backend scales images to.
+export type ImageWidth = 160 | 320 | 640 | 1280;
+
+// The address to show a recipe image from: the backend's verified copy when there is one,
+// scaled to the given width, otherwise the original URL. Image tags cannot send headers,
+// so the API key goes in the query string.
+export function recipeImageSrc(image: RecipeImage, width: ImageWidth): string {
+  if (!image.id) return image.url;
+  const keyParam = BACKEND_API_KEY ? `&api_key=${encodeURIComponent(BACKEND_API_KEY)}` : '';
+  return `${BACKEND_URL}/images/${encodeURIComponent(image.id)}?w=${width}${keyParam}`;
+}
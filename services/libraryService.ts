@@ -0,0 +1,46 @@
+import { backendRequest } from './backend';
+import { Allergen, Diet, Platform, RecipeData } from './geminiService';
+
+// A recipe stored in the backend's recipe library.
+export interface SavedRecipe extends RecipeData {
+  id: string;
+  platform: Platform;
+  created_at: string;
+  updated_at: string;
+}
+
+export function saveRecipe(recipe: RecipeData): Promise<SavedRecipe> {
+  return backendRequest<SavedRecipe>('/recipes', {
+    method: 'POST',
+    body: JSON.stringify({ data: recipe }),
+  });
+}
+
+export interface LibraryFilters {
+  diets?: Diet[]; // Recipes must fit every diet
+  freeOf?: Allergen[]; // Recipes must contain none of these allergens
+}
+
+export function listRecipes(query?: string, filters: LibraryFilters = {}): Promise<SavedRecipe[]> {
+  const params = new URLSearchParams();
+  if (query) params.set('q', query);
+  if (filters.diets?.length) params.set('diet', filters.diets.join(','));
+  if (filters.freeOf?.length) params.set('free_of', filters.freeOf.join(','));
+  const search = params.toString();
+  return backendRequest<SavedRecipe[]>(search ? `/recipes?${search}` : '/recipes');
+}
+
+export function getRecipe(id: string): Promise<SavedRecipe> {
+  return backendRequest<SavedRecipe>(`/recipes/${encodeURIComponent(id)}`);
+}
+
+export function updateRecipe(id: string, update: Partial<RecipeData>): Promise<SavedRecipe> {
+  return backendRequest<SavedRecipe>(`/recipes/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(update),
+  });
+}
+
+export async function deleteRecipe(id: string): Promise<void> {
+  await backendRequest<void>(`/recipes/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
@@ -0,0 +1,31 @@
+import { backendRequest } from './backend';
+import { RecipeData } from './geminiService';
+
+export type Aisle = 'produce' | 'meat_seafood' | 'dairy_eggs' | 'bakery' | 'pantry' | 'spices' | 'frozen' | 'beverages' | 'other';
+
+export interface ShoppingAmount {
+  quantity: number;
+  quantity_max: number | null;
+  unit: string | null;
+}
+
+export interface ShoppingListItem {
+  key: string; // Stable across rebuilds, used to remember checked items
+  name: string;
+  aisle: Aisle;
+  amounts: ShoppingAmount[]; // Empty for items like "salt to taste"
+  sources: { recipe: string; ingredient: string }[];
+}
+
+export interface ShoppingList {
+  recipes: string[];
+  aisles: { aisle: Aisle; items: ShoppingListItem[] }[];
+}
+
+// Merges the ingredients of saved recipes (by id) and unsaved recipes into one list.
+export function buildShoppingList(recipeIds: string[], recipes: RecipeData[] = []): Promise<ShoppingList> {
+  return backendRequest<ShoppingList>('/shopping-list', {
+    method: 'POST',
+    body: JSON.stringify({ recipeIds, recipes }),
+  });
+}
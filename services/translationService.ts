@@ -0,0 +1,12 @@
+import { backendRequest } from './backend';
+import { RecipeData } from './geminiService';
+
+// Translates a recipe into another language without analyzing its source again. Saved
+// recipes are sent by id; the translation itself is not saved.
+export function translateRecipe(recipe: RecipeData, targetLanguage: string): Promise<RecipeData> {
+  const body = recipe.id ? { recipeId: recipe.id, targetLanguage } : { data: recipe, targetLanguage };
+  return backendRequest<RecipeData>('/translate', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
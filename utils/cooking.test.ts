@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { StructuredIngredient } from '../services/geminiService';
+import { detectTimers, ingredientsForStep } from './cooking';
+
+const ingredient = (name: string): StructuredIngredient => ({
+  raw: name,
+  quantity: null,
+  quantity_max: null,
+  unit: null,
+  name,
+  notes: null,
+  group: null,
+});
+
+describe('detectTimers', () => {
+  it('finds every duration in a step, in order', () => {
+    expect(detectTimers('Simmer for 20 minutes, then rest 30 secs.')).toEqual([
+      { label: '20 minutes', seconds: 1200, maxSeconds: null },
+      { label: '30 secs', seconds: 30, maxSeconds: null },
+    ]);
+  });
+
+  it('runs ranges for their lower bound and keeps the upper one', () => {
+    expect(detectTimers('Bake 20–25 minutes until golden.')).toEqual([{ label: '20–25 minutes', seconds: 1200, maxSeconds: 1500 }]);
+    expect(detectTimers('Roast for 1 to 1½ hours.')).toEqual([{ label: '1 to 1½ hours', seconds: 3600, maxSeconds: 5400 }]);
+  });
+
+  it('adds minutes given after hours', () => {
+    expect(detectTimers('Braise 1 hour 15 minutes.')).toEqual([{ label: '1 hour 15 minutes', seconds: 4500, maxSeconds: null }]);
+    expect(detectTimers('Braise 2 hrs and 30 mins.')).toEqual([{ label: '2 hrs and 30 mins', seconds: 9000, maxSeconds: null }]);
+  });
+
+  it('ignores numbers that are not durations', () => {
+    expect(detectTimers('Preheat the oven to 200°C and use 2 eggs.')).toEqual([]);
+    expect(detectTimers('Cook for 0 minutes.')).toEqual([]);
+  });
+});
+
+describe('ingredientsForStep', () => {
+  const ingredients = ['unsalted butter', 'all-purpose flour', 'eggs', 'cherry tomatoes', 'salt', 'oil'].map(ingredient);
+  const namesFor = (step: string) => ingredientsForStep(ingredients, step).map(found => found.name);
+
+  it('finds ingredients by their full name', () => {
+    expect(namesFor('Sift the all-purpose flour into a bowl.')).toEqual(['all-purpose flour']);
+  });
+
+  it('finds ingredients by the last word of their name, singular or plural', () => {
+    expect(namesFor('Melt the butter, then beat in the egg.')).toEqual(['unsalted butter', 'eggs']);
+    expect(namesFor('Halve each tomato.')).toEqual(['cherry tomatoes']);
+  });
+
+  it('matches whole words only', () => {
+    expect(namesFor('Season with saltwater and boil.')).toEqual([]);
+    expect(namesFor('Add the salt and a splash of oil.')).toEqual(['salt', 'oil']);
+  });
+});
@@ -0,0 +1,99 @@
+import { RecipeData, StructuredIngredient } from '../services/geminiService';
+import { AMOUNT, parseTextAmount } from './units';
+
+// A duration mentioned in a step, e.g. "20 minutes" in "simmer for 20 minutes".
+export interface DetectedTimer {
+  label: string;
+  seconds: number;
+  // The upper bound of ranges like "1–1½ hours". Timers run for the lower bound, so the cook checks early.
+  maxSeconds: number | null;
+}
+
+const SECONDS_PER_UNIT: [RegExp, number][] = [
+  [/^h/i, 3600],
+  [/^m/i, 60],
+  [/^s/i, 1],
+];
+
+const TIME_UNIT = 'hours?|hrs?|minutes?|mins?|seconds?|secs?';
+// "20 minutes", "25-30 min", "1 to 1½ hours" and "1 hour 15 minutes".
+const DURATION_REGEX = new RegExp(
+  `(${AMOUNT})(?:\\s*(?:-|–|to)\\s*(${AMOUNT}))?\\s*(${TIME_UNIT})\\b(?:,?\\s*(?:and\\s+)?(${AMOUNT})\\s*(minutes?|mins?|seconds?|secs?)\\b)?`,
+  'gi',
+);
+
+const secondsPer = (unit: string) => SECONDS_PER_UNIT.find(([pattern]) => pattern.test(unit))?.[1] ?? 60;
+
+// Finds the durations mentioned in an instruction, in the order they appear.
+export const detectTimers = (text: string): DetectedTimer[] => {
+  const timers: DetectedTimer[] = [];
+  for (const match of text.matchAll(DURATION_REGEX)) {
+    const [label, min, max, unit, extra, extraUnit] = match;
+    const added = extra ? parseTextAmount(extra) * secondsPer(extraUnit) : 0;
+    const seconds = Math.round(parseTextAmount(min) * secondsPer(unit) + added);
+    if (seconds <= 0) continue;
+    const maxSeconds = max ? Math.round(parseTextAmount(max) * secondsPer(unit) + added) : null;
+    timers.push({ label: label.trim(), seconds, maxSeconds: maxSeconds && maxSeconds > seconds ? maxSeconds : null });
+  }
+  return timers;
+};
+
+// Lowercases, strips accents and punctuation, and pads with spaces for whole-word matching.
+const normalize = (text: string) =>
+  ` ${text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+const wordForms = (word: string) => [word, `${word}s`, `${word}es`, word.replace(/ies$/, 'y'), word.replace(/e?s$/, '')];
+
+// The ingredients an instruction mentions, by full name or by the last word of the name,
+// so "unsalted butter" is found in "melt the butter". Deliberately loose: a missed
+// ingredient is worse than an extra one at the stove.
+export const ingredientsForStep = (ingredients: StructuredIngredient[], step: string): StructuredIngredient[] => {
+  const text = normalize(step);
+  return ingredients.filter(ingredient => {
+    const name = normalize(ingredient.name).trim();
+    if (!name) return false;
+    if (text.includes(` ${name} `)) return true;
+    const head = name.split(' ').pop()!;
+    return head.length >= 3 && wordForms(head).some(form => text.includes(` ${form} `));
+  });
+};
+
+// A timer the cook started. Running timers have an end time; paused ones keep what was left.
+export interface CookingTimer {
+  id: string;
+  label: string;
+  // The 0-based instruction the timer was started from.
+  step: number;
+  endsAt: number | null;
+  remainingSeconds: number;
+}
+
+export interface CookingProgress {
+  step: number;
+  timers: CookingTimer[];
+}
+
+// Progress is kept per recipe, so a reload or a second visit picks up where the cook left off.
+const progressKey = (recipe: RecipeData) => `cookingMode.${recipe.id || recipe.url || recipe.title}`;
+
+export const loadCookingProgress = (recipe: RecipeData): CookingProgress | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(progressKey(recipe)) ?? 'null');
+    if (!stored || typeof stored.step !== 'number' || !Array.isArray(stored.timers)) return null;
+    return { step: Math.min(Math.max(0, stored.step), Math.max(0, recipe.instructions.length - 1)), timers: stored.timers };
+  } catch (err) {
+    return null;
+  }
+};
+
+export const saveCookingProgress = (recipe: RecipeData, progress: CookingProgress) => {
+  localStorage.setItem(progressKey(recipe), JSON.stringify(progress));
+};
+
+export const clearCookingProgress = (recipe: RecipeData) => {
+  localStorage.removeItem(progressKey(recipe));
+};
+
+// Seconds left on a timer at the given time; zero or less once it has gone off.
+export const timerRemaining = (timer: CookingTimer, now: number) =>
+  timer.endsAt === null ? timer.remainingSeconds : Math.ceil((timer.endsAt - now) / 1000);
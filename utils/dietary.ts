@@ -0,0 +1,17 @@
+import { Allergen, Diet } from '../services/geminiService';
+
+export const DIET_LABELS: Record<Diet, string> = {
+  vegetarian: 'Vegetarian',
+  vegan: 'Vegan',
+  keto: 'Keto-friendly',
+};
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  nuts: 'Nuts',
+  gluten: 'Gluten',
+  dairy: 'Dairy',
+  egg: 'Egg',
+  soy: 'Soy',
+  shellfish: 'Shellfish',
+  sesame: 'Sesame',
+};
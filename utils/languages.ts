@@ -0,0 +1,24 @@
+// Languages offered by the recipe language switcher.
+export const LANGUAGE_OPTIONS: { code: string; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'it', label: 'Italiano' },
+  { code: 'pt', label: 'Português' },
+  { code: 'ar', label: 'العربية' },
+  { code: 'he', label: 'עברית' },
+  { code: 'ko', label: '한국어' },
+  { code: 'ja', label: '日本語' },
+  { code: 'zh', label: '中文' },
+  { code: 'hi', label: 'हिन्दी' },
+];
+
+const RTL_LANGUAGES = new Set(['ar', 'he', 'fa', 'ur']);
+
+const primaryLanguage = (code: string) => code.split('-')[0].toLowerCase();
+
+export const isRtlLanguage = (code: string | null | undefined) => !!code && RTL_LANGUAGES.has(primaryLanguage(code));
+
+export const isSameLanguage = (a: string | null | undefined, b: string | null | undefined) =>
+  !!a && !!b && primaryLanguage(a) === primaryLanguage(b);
@@ -0,0 +1,49 @@
+import { Aisle, ShoppingAmount, ShoppingList, ShoppingListItem } from '../services/shoppingListService';
+import { formatQuantity, unitLabel } from './units';
+
+export const AISLE_LABELS: Record<Aisle, string> = {
+  produce: 'Produce',
+  meat_seafood: 'Meat & Seafood',
+  dairy_eggs: 'Dairy & Eggs',
+  bakery: 'Bakery',
+  pantry: 'Pantry',
+  spices: 'Spices & Seasonings',
+  frozen: 'Frozen',
+  beverages: 'Beverages',
+  other: 'Other',
+};
+
+const METRIC_UNITS = ['ml', 'l', 'g', 'kg'];
+
+const formatAmount = ({ quantity, quantity_max, unit }: ShoppingAmount) => {
+  const useFractions = unit === null || !METRIC_UNITS.includes(unit);
+  const amount = quantity_max !== null
+    ? `${formatQuantity(quantity, useFractions)}–${formatQuantity(quantity_max, useFractions)}`
+    : formatQuantity(quantity, useFractions);
+  return unit ? `${amount} ${unitLabel(unit, quantity_max ?? quantity)}` : amount;
+};
+
+// "723 ml", or "3 cloves + 1 tsp" when the amounts could not be combined.
+export const formatAmounts = (item: ShoppingListItem) => item.amounts.map(formatAmount).join(' + ');
+
+// One "[x] 723 ml milk" line per item under a heading per aisle.
+export const shoppingListToText = (list: ShoppingList, checked: Set<string>): string => {
+  const sections = list.aisles.map(({ aisle, items }) => [
+    `${AISLE_LABELS[aisle]}:`,
+    ...items.map(item => `[${checked.has(item.key) ? 'x' : ' '}] ${[formatAmounts(item), item.name].filter(Boolean).join(' ')}`),
+  ].join('\n'));
+  return [`Shopping list for: ${list.recipes.join(', ')}`, ...sections].join('\n\n') + '\n';
+};
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const shoppingListToCsv = (list: ShoppingList, checked: Set<string>): string => {
+  const rows = [['Aisle', 'Item', 'Amount', 'Checked', 'Recipes']];
+  for (const { aisle, items } of list.aisles) {
+    for (const item of items) {
+      const recipes = [...new Set(item.sources.map(source => source.recipe))].join('; ');
+      rows.push([AISLE_LABELS[aisle], item.name, formatAmounts(item), checked.has(item.key) ? 'yes' : 'no', recipes]);
+    }
+  }
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { StructuredIngredient } from '../services/geminiService';
+import { convertIngredient, convertText, formatIngredient, formatQuantity, unitLabel } from './units';
+
+const ingredient = (fields: Partial<StructuredIngredient>): StructuredIngredient => ({
+  raw: '',
+  quantity: null,
+  quantity_max: null,
+  unit: null,
+  name: 'flour',
+  notes: null,
+  group: null,
+  ...fields,
+});
+
+describe('formatQuantity', () => {
+  it('uses fractions for US amounts and decimals for metric ones', () => {
+    expect(formatQuantity(1.5)).toBe('1½');
+    expect(formatQuantity(0.333)).toBe('⅓');
+    expect(formatQuantity(2.999)).toBe('3');
+    expect(formatQuantity(1.5, false)).toBe('1.5');
+  });
+});
+
+describe('unitLabel', () => {
+  it('pluralizes words above one and leaves abbreviations alone', () => {
+    expect(unitLabel('cup', 1)).toBe('cup');
+    expect(unitLabel('cup', 0.5)).toBe('cup');
+    expect(unitLabel('cup', 4.25)).toBe('cups');
+    expect(unitLabel('pinch', 2)).toBe('pinches');
+    expect(unitLabel('tbsp', 3)).toBe('tbsp');
+  });
+});
+
+describe('formatIngredient', () => {
+  it('writes ranges and plural units', () => {
+    expect(formatIngredient(ingredient({ quantity: 1, quantity_max: 2, unit: 'cup' }))).toBe('1–2 cups flour');
+    expect(formatIngredient(ingredient({ quantity: 250, unit: 'g' }))).toBe('250 g flour');
+  });
+});
+
+describe('convertIngredient', () => {
+  it('converts both ends of a range', () => {
+    expect(convertIngredient(ingredient({ quantity: 1, quantity_max: 2, unit: 'cup' }), 'metric'))
+      .toMatchObject({ quantity: 240, quantity_max: 470, unit: 'ml' });
+  });
+
+  it('leaves zero and missing amounts alone', () => {
+    const zero = ingredient({ quantity: 0, quantity_max: 2, unit: 'cup' });
+    expect(convertIngredient(zero, 'metric')).toBe(zero);
+    const unitless = ingredient({ quantity: 2 });
+    expect(convertIngredient(unitless, 'metric')).toBe(unitless);
+  });
+});
+
+describe('convertText', () => {
+  it('converts temperatures with or without a degree sign', () => {
+    expect(convertText('Bake at 350°F', 'metric')).toBe('Bake at 180°C');
+    expect(convertText('Heat the oven to 425 F', 'metric')).toBe('Heat the oven to 220°C');
+    expect(convertText('Heat the oven to 425F.', 'metric')).toBe('Heat the oven to 220°C.');
+    expect(convertText('Roast at 200 degrees C', 'us')).toBe('Roast at 400°F');
+  });
+
+  it('converts amounts in the text with plural units', () => {
+    expect(convertText('Add 1 l stock', 'us')).toBe('Add 4¼ cups stock');
+    expect(convertText('Whisk in 1 cup milk', 'metric')).toBe('Whisk in 240 ml milk');
+  });
+});
@@ -0,0 +1,214 @@
+import { StructuredIngredient } from '../services/geminiService';
+
+export type UnitSystem = 'us' | 'metric';
+
+// Millilitres per unit for volumes and grams per unit for weights.
+const VOLUME_ML: Record<string, number> = {
+  'tsp': 4.92892, 'tbsp': 14.7868, 'cup': 236.588, 'fl oz': 29.5735,
+  'pint': 473.176, 'quart': 946.353, 'gallon': 3785.41, 'ml': 1, 'l': 1000,
+};
+const WEIGHT_G: Record<string, number> = {
+  'oz': 28.3495, 'lb': 453.592, 'g': 1, 'kg': 1000,
+};
+
+// Teaspoons and tablespoons are standard measures in both systems (5 ml / 15 ml),
+// so they are left alone when converting to metric.
+const US_UNITS = new Set(['cup', 'fl oz', 'pint', 'quart', 'gallon', 'oz', 'lb']);
+const METRIC_UNITS = new Set(['ml', 'l', 'g', 'kg']);
+
+const FRACTIONS: [number, string][] = [
+  [1 / 8, '⅛'], [1 / 4, '¼'], [1 / 3, '⅓'], [3 / 8, '⅜'], [1 / 2, '½'],
+  [5 / 8, '⅝'], [2 / 3, '⅔'], [3 / 4, '¾'], [7 / 8, '⅞'],
+];
+
+const UNICODE_FRACTIONS: Record<string, number> = Object.fromEntries(
+  FRACTIONS.map(([value, char]) => [char, value]),
+);
+
+export const isMetricUnit = (unit: string | null) => unit !== null && METRIC_UNITS.has(unit);
+
+// Abbreviations such as "tbsp" and "oz" read the same for any amount; words take a plural.
+const ABBREVIATED_UNITS = new Set(['tsp', 'tbsp', 'fl oz', 'ml', 'l', 'g', 'kg', 'oz', 'lb']);
+
+// The unit as written after an amount, e.g. "cups" after 2 but "cup" after 1 or ½.
+export const unitLabel = (unit: string, amount: number): string => {
+  if (amount <= 1 || ABBREVIATED_UNITS.has(unit)) return unit;
+  return /(?:ch|sh)$/.test(unit) ? `${unit}es` : `${unit}s`;
+};
+
+// Formats a quantity like 1.5 as "1½", falling back to decimals. Metric amounts
+// read better as plain decimals, so callers can turn fractions off.
+export const formatQuantity = (value: number, useFractions = true): string => {
+  if (!useFractions) return `${parseFloat(value.toFixed(2))}`;
+  const whole = Math.floor(value);
+  const fraction = value - whole;
+  if (fraction < 0.01) return `${whole}`;
+  if (fraction > 0.98) return `${whole + 1}`;
+  const match = FRACTIONS.find(([amount]) => Math.abs(amount - fraction) < 0.02);
+  if (match) return whole > 0 ? `${whole}${match[1]}` : match[1];
+  return `${parseFloat(value.toFixed(2))}`;
+};
+
+// Formats a structured ingredient like "1½ cups flour", with ranges as "2–3".
+export const formatIngredient = (ingredient: StructuredIngredient): string => {
+  const parts: string[] = [];
+  if (ingredient.quantity !== null) {
+    const useFractions = !isMetricUnit(ingredient.unit);
+    let amount = formatQuantity(ingredient.quantity, useFractions);
+    if (ingredient.quantity_max !== null) amount += `–${formatQuantity(ingredient.quantity_max, useFractions)}`;
+    parts.push(amount);
+  }
+  if (ingredient.unit) parts.push(unitLabel(ingredient.unit, ingredient.quantity_max ?? ingredient.quantity ?? 0));
+  parts.push(ingredient.name);
+  return parts.join(' ');
+};
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step || step;
+
+// Metric amounts are rounded to the precision a kitchen scale or jug offers.
+const roundMetric = (value: number) => {
+  if (value < 10) return Math.round(value * 2) / 2 || 0.5;
+  if (value < 100) return roundTo(value, 5);
+  return roundTo(value, 10);
+};
+
+// US amounts are rounded to the nearest eighth (quarter for bigger amounts).
+const roundUS = (value: number) => (value < 4 ? roundTo(value, 1 / 8) : roundTo(value, 1 / 4));
+
+// Picks the best target unit for an amount in base units (ml or g).
+const pickUnit = (base: number, kind: 'volume' | 'weight', system: UnitSystem): { unit: string; amount: number } => {
+  if (system === 'metric') {
+    if (kind === 'volume') {
+      return base >= 1000 ? { unit: 'l', amount: Math.round(base / 100) / 10 } : { unit: 'ml', amount: roundMetric(base) };
+    }
+    return base >= 1000 ? { unit: 'kg', amount: Math.round(base / 100) / 10 } : { unit: 'g', amount: roundMetric(base) };
+  }
+  if (kind === 'volume') {
+    if (base < VOLUME_ML.tbsp) return { unit: 'tsp', amount: roundUS(base / VOLUME_ML.tsp) };
+    if (base < VOLUME_ML.cup / 4) return { unit: 'tbsp', amount: roundUS(base / VOLUME_ML.tbsp) };
+    return { unit: 'cup', amount: roundUS(base / VOLUME_ML.cup) };
+  }
+  return base < WEIGHT_G.lb
+    ? { unit: 'oz', amount: roundUS(base / WEIGHT_G.oz) }
+    : { unit: 'lb', amount: roundUS(base / WEIGHT_G.lb) };
+};
+
+const needsConversion = (unit: string, system: UnitSystem) =>
+  system === 'metric' ? US_UNITS.has(unit) : METRIC_UNITS.has(unit);
+
+// How many of `to` make one `from`, e.g. 236.588 for cups to millilitres.
+const unitRatio = (from: string, to: string) =>
+  (VOLUME_ML[from] ?? WEIGHT_G[from]) / (VOLUME_ML[to] ?? WEIGHT_G[to]);
+
+// Converts an amount in `unit` to the target system. Returns null when the unit
+// is already in that system or is not a volume or weight.
+export const convertAmount = (
+  amount: number,
+  unit: string,
+  system: UnitSystem,
+): { amount: number; unit: string } | null => {
+  if (!needsConversion(unit, system)) return null;
+  if (VOLUME_ML[unit] !== undefined) return pickUnit(amount * VOLUME_ML[unit], 'volume', system);
+  if (WEIGHT_G[unit] !== undefined) return pickUnit(amount * WEIGHT_G[unit], 'weight', system);
+  return null;
+};
+
+export const scaleIngredient = (ingredient: StructuredIngredient, factor: number): StructuredIngredient => {
+  if (factor === 1 || ingredient.quantity === null) return ingredient;
+  return {
+    ...ingredient,
+    quantity: ingredient.quantity * factor,
+    quantity_max: ingredient.quantity_max !== null ? ingredient.quantity_max * factor : null,
+  };
+};
+
+export const convertIngredient = (ingredient: StructuredIngredient, system: UnitSystem): StructuredIngredient => {
+  // Rounding would turn a zero amount into the smallest step, e.g. "0 cups" into "½ ml".
+  if (ingredient.quantity === null || ingredient.quantity <= 0 || !ingredient.unit) return ingredient;
+  const converted = convertAmount(ingredient.quantity, ingredient.unit, system);
+  if (!converted) return ingredient;
+  // Convert the upper bound of a range with the same unit as the lower bound.
+  const ratio = unitRatio(ingredient.unit, converted.unit);
+  return {
+    ...ingredient,
+    quantity: converted.amount,
+    quantity_max: ingredient.quantity_max !== null
+      ? (system === 'metric' ? roundMetric(ingredient.quantity_max * ratio) : roundUS(ingredient.quantity_max * ratio))
+      : null,
+    unit: converted.unit,
+  };
+};
+
+const TEXT_UNIT_ALIASES: [string, string][] = [
+  ['fluid ounces', 'fl oz'], ['fluid ounce', 'fl oz'], ['fl oz', 'fl oz'],
+  ['cups', 'cup'], ['cup', 'cup'], ['pints', 'pint'], ['pint', 'pint'],
+  ['quarts', 'quart'], ['quart', 'quart'], ['gallons', 'gallon'], ['gallon', 'gallon'],
+  ['ounces', 'oz'], ['ounce', 'oz'], ['oz', 'oz'], ['pounds', 'lb'], ['pound', 'lb'], ['lbs', 'lb'], ['lb', 'lb'],
+  ['milliliters', 'ml'], ['millilitres', 'ml'], ['ml', 'ml'], ['liters', 'l'], ['litres', 'l'], ['liter', 'l'], ['litre', 'l'], ['l', 'l'],
+  ['kilograms', 'kg'], ['kilogram', 'kg'], ['kg', 'kg'], ['grams', 'g'], ['gram', 'g'], ['g', 'g'],
+];
+
+const FRACTION_CHARS = FRACTIONS.map(([, char]) => char).join('');
+// A number as written in recipe text, e.g. "2", "1.5", "1½", "1 1/2" or "¾".
+export const AMOUNT = `\\d+(?:\\.\\d+)?(?:\\s*[${FRACTION_CHARS}]|\\s+\\d+\\/\\d+)?|\\d+\\/\\d+|[${FRACTION_CHARS}]`;
+const TEXT_AMOUNT_REGEX = new RegExp(
+  `(${AMOUNT})(?:\\s*(?:-|–|to)\\s*(${AMOUNT}))?\\s*(${TEXT_UNIT_ALIASES.map(([alias]) => alias.replace(' ', '\\s')).join('|')})\\b\\.?`,
+  'gi',
+);
+// "350°F", "180 degrees C" and "425 F". Without a degree sign only a capital F or C counts,
+// so "12 c flour" is left to the cup conversion.
+const TEMPERATURE_REGEX =
+  /\b(\d{2,3})\s*(?:(?:°|º|[Dd]egrees?)\s*([FfCc]|[Ff]ahrenheit|[Cc]elsius)|(F|C|Fahrenheit|Celsius))\b/g;
+
+export const parseTextAmount = (text: string): number => {
+  let total = 0;
+  for (const part of text.trim().split(/\s+|(?=[½⅓⅔¼¾⅛⅜⅝⅞])/)) {
+    if (UNICODE_FRACTIONS[part] !== undefined) {
+      total += UNICODE_FRACTIONS[part];
+    } else if (part.includes('/')) {
+      const [num, den] = part.split('/').map(Number);
+      total += den ? num / den : 0;
+    } else if (part) {
+      total += parseFloat(part);
+    }
+  }
+  return total;
+};
+
+// Oven temperatures are rounded to the steps found on oven dials.
+export const convertTemperature = (degrees: number, scale: 'F' | 'C', system: UnitSystem): string | null => {
+  if (system === 'metric' && scale === 'F') {
+    const celsius = ((degrees - 32) * 5) / 9;
+    return `${celsius > 100 ? roundTo(celsius, 10) : Math.round(celsius)}°C`;
+  }
+  if (system === 'us' && scale === 'C') {
+    const fahrenheit = (degrees * 9) / 5 + 32;
+    return `${fahrenheit > 200 ? roundTo(fahrenheit, 25) : Math.round(fahrenheit)}°F`;
+  }
+  return null;
+};
+
+// Rewrites volumes, weights and temperatures mentioned in free text, e.g. an instruction step.
+export const convertText = (text: string, system: UnitSystem): string => {
+  const withTemperatures = text.replace(TEMPERATURE_REGEX, (match, degrees: string, marked?: string, unmarked?: string) => {
+    const scale = (marked ?? unmarked)![0].toUpperCase() as 'F' | 'C';
+    return convertTemperature(parseInt(degrees, 10), scale, system) ?? match;
+  });
+
+  return withTemperatures.replace(TEXT_AMOUNT_REGEX, (match, min: string, max: string | undefined, alias: string) => {
+    const entry = TEXT_UNIT_ALIASES.find(([name]) => name === alias.toLowerCase().replace(/\s+/g, ' '));
+    if (!entry) return match;
+    const quantity = parseTextAmount(min);
+    const converted = convertAmount(quantity, entry[1], system);
+    if (!converted || quantity <= 0) return match;
+    const useFractions = system === 'us';
+    let amount = formatQuantity(converted.amount, useFractions);
+    let largest = converted.amount;
+    if (max) {
+      const upper = parseTextAmount(max) * unitRatio(entry[1], converted.unit);
+      largest = useFractions ? roundUS(upper) : roundMetric(upper);
+      amount += `–${formatQuantity(largest, useFractions)}`;
+    }
+    return `${amount} ${unitLabel(converted.unit, largest)}`;
+  });
+};
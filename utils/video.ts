@@ -0,0 +1,63 @@
+import { Platform } from '../services/geminiService';
+
+// Formats seconds as a video timestamp, e.g. 65 -> "1:05" and 3723 -> "1:02:03".
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = `${total % 60}`.padStart(2, '0');
+  return hours > 0 ? `${hours}:${`${minutes}`.padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+const parseUrl = (url: string): URL | null => {
+  try {
+    return new URL(url);
+  } catch (e) {
+    return null;
+  }
+};
+
+// The backend canonicalizes video URLs, so these only need to handle the canonical forms.
+const youtubeVideoId = (url: URL) => url.searchParams.get('v') ?? url.pathname.match(/^\/(?:shorts|embed)\/([\w-]+)/)?.[1] ?? null;
+const tiktokVideoId = (url: URL) => url.pathname.match(/\/video\/(\d+)/)?.[1] ?? null;
+const vimeoVideoId = (url: URL) => url.pathname.match(/\/(\d+)(?:\/|$)/)?.[1] ?? null;
+
+// A link that opens the source video at the given point, where the platform supports it.
+export const videoDeepLink = (url: string, platform: Platform, seconds: number): string => {
+  const parsed = parseUrl(url);
+  if (!parsed) return url;
+  if (platform === 'youtube') {
+    parsed.searchParams.set('t', `${Math.floor(seconds)}s`);
+  } else if (platform === 'vimeo') {
+    parsed.hash = `t=${Math.floor(seconds)}s`;
+  }
+  return parsed.href;
+};
+
+// The URL of an embeddable player for the source video, or null when we can't embed it.
+export const videoEmbedUrl = (url: string, platform: Platform): string | null => {
+  const parsed = parseUrl(url);
+  if (!parsed) return null;
+  let id: string | null;
+  switch (platform) {
+    case 'youtube':
+      id = youtubeVideoId(parsed);
+      return id ? `https://www.youtube-nocookie.com/embed/${id}` : null;
+    case 'tiktok':
+      id = tiktokVideoId(parsed);
+      return id ? `https://www.tiktok.com/player/v1/${id}?rel=0` : null;
+    case 'vimeo':
+      id = vimeoVideoId(parsed);
+      return id ? `https://player.vimeo.com/video/${id}` : null;
+    default:
+      return null;
+  }
+};
+
+// TikTok's embedded player has no start parameter, but it can be seeked with postMessage.
+export const seekTikTokPlayer = (player: HTMLIFrameElement | null, seconds: number) => {
+  const target = player?.contentWindow;
+  if (!target) return;
+  target.postMessage({ 'x-tiktok-player': true, type: 'seekTo', value: seconds }, '*');
+  target.postMessage({ 'x-tiktok-player': true, type: 'play' }, '*');
+};
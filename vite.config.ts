@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -12,12 +13,18 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Anything defined here is readable in the built bundle, so this must be a public key.
+        'process.env.BACKEND_PUBLIC_KEY': JSON.stringify(env.BACKEND_PUBLIC_KEY ?? '')
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      // The server has its own package and runs its tests with `npm test` in server/.
+      test: {
+        exclude: ['node_modules/**', 'server/**'],
       }
     };
 });